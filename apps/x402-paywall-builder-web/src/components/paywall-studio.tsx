@@ -16,6 +16,8 @@ import {
   Code2,
   RotateCcw,
   Info,
+  Contrast,
+  Wand2,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import {
@@ -35,12 +37,18 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
 import {
   generateGenericPaywallTemplate,
+  analyzeTheme,
+  suggestAccessibleTheme,
+  createThemeFromBrand,
   THEME_PRESETS,
+  THEME_PRESET_VARIANTS,
   COINBASE_BRANDING,
   type ThemeConfig,
+  type ThemeVariants,
   type GenericPaywallConfig,
   type ThemePresetName,
 } from '@d3servelabs/x402-paywall-builder';
+import { PaywallPreview } from '@d3servelabs/x402-paywall-builder/react';
 
 type DeviceSize = 'desktop' | 'tablet' | 'mobile';
 
@@ -83,6 +91,7 @@ export default function PaywallStudio() {
     ThemePresetName | 'Custom'
   >('Coinbase');
   const [showBalances, setShowBalances] = useState(true);
+  const [lightDarkVariants, setLightDarkVariants] = useState(false);
   const [enableWalletConnect, setEnableWalletConnect] = useState(false);
   const [appName, setAppName] = useState(COINBASE_BRANDING.appName);
   const [appLogo, setAppLogo] = useState(COINBASE_BRANDING.appLogo);
@@ -96,6 +105,8 @@ export default function PaywallStudio() {
   const [paymentAmount, setPaymentAmount] = useState('0.01');
   const [successRedirectUrl, setSuccessRedirectUrl] = useState('');
   const [autoSuccessRedirect, setAutoSuccessRedirect] = useState(true);
+  const [brandColor, setBrandColor] = useState('#0052ff');
+  const [brandMode, setBrandMode] = useState<'light' | 'dark'>('light');
 
   // Debounced values for text inputs (prevents excessive re-renders while typing)
   const debouncedAppName = useDebouncedValue(appName, DEBOUNCE_DELAY);
@@ -119,6 +130,21 @@ export default function PaywallStudio() {
     return THEME_PRESETS[selectedPreset];
   }, [selectedPreset, debouncedCustomTheme]);
 
+  // WCAG contrast analysis of the previewed theme
+  const themeAnalysis = useMemo(
+    () => analyzeTheme(currentTheme),
+    [currentTheme],
+  );
+  // Presets can follow the visitor's light/dark preference; custom themes are single palettes
+  const useThemeVariants = lightDarkVariants && selectedPreset !== 'Custom';
+  const pageTheme: ThemeConfig | ThemeVariants = useThemeVariants
+    ? THEME_PRESET_VARIANTS[selectedPreset]
+    : currentTheme;
+  const themeNeedsFixes =
+    !themeAnalysis.passesAA ||
+    themeAnalysis.issues.some((issue) => issue.severity === 'error') ||
+    themeAnalysis.issues.some((issue) => issue.code === 'low-visibility-border');
+
   const getDeviceWidth = () => {
     switch (deviceSize) {
       case 'mobile':
@@ -151,9 +177,9 @@ export default function PaywallStudio() {
     debouncedParsedAmount * 1_000_000,
   ).toString();
 
-  // Generate preview HTML using x402 package (uses debounced values)
-  const previewHtml = useMemo(() => {
-    const config: GenericPaywallConfig = {
+  // Preview page config for PaywallPreview (uses debounced values)
+  const previewConfig = useMemo((): GenericPaywallConfig => {
+    return {
       // Payment details
       payTo: '0x0000000000000000000000000000000000000000',
       amount: debouncedParsedAmount,
@@ -177,7 +203,8 @@ export default function PaywallStudio() {
       paymentRequired: {},
 
       // Customization
-      theme: currentTheme,
+      theme: pageTheme,
+      colorSchemeToggle: useThemeVariants,
       branding: {
         appName: debouncedAppName,
         appLogo: debouncedAppLogo,
@@ -201,10 +228,9 @@ export default function PaywallStudio() {
         showPreviewControls: true,
       },
     };
-
-    return generateGenericPaywallTemplate(config);
   }, [
-    currentTheme,
+    pageTheme,
+    useThemeVariants,
     debouncedAppName,
     debouncedAppLogo,
     enableWalletConnect,
@@ -237,7 +263,8 @@ export default function PaywallStudio() {
     paymentRequired: {},
 
     // Customization - user configured
-    theme: currentTheme,
+    theme: pageTheme,
+    colorSchemeToggle: useThemeVariants,
     branding: {
       appName,
       appLogo,
@@ -285,10 +312,35 @@ export default function PaywallStudio() {
     }
   };
 
+  // Switch to a custom theme with contrast fixed to WCAG AA
+  const handleApplyAccessibleTheme = () => {
+    setCustomTheme(suggestAccessibleTheme(currentTheme));
+    setSelectedPreset('Custom');
+    toast.success('Applied accessible palette');
+  };
+
+  // Switch to a custom theme derived from the brand color
+  const handleGenerateFromBrand = () => {
+    try {
+      setCustomTheme(
+        createThemeFromBrand({
+          primary: brandColor,
+          mode: brandMode,
+          radius: currentTheme.borderRadius,
+        }),
+      );
+      setSelectedPreset('Custom');
+      toast.success('Generated theme from brand color');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Invalid brand color');
+    }
+  };
+
   // Reset all settings to defaults
   const handleResetDefaults = () => {
     setSelectedPreset('Coinbase');
     setShowBalances(true);
+    setLightDarkVariants(false);
     setEnableWalletConnect(false);
     setAppName(COINBASE_BRANDING.appName);
     setAppLogo(COINBASE_BRANDING.appLogo);
@@ -298,6 +350,8 @@ export default function PaywallStudio() {
     setPaymentAmount('0.01');
     setSuccessRedirectUrl('');
     setAutoSuccessRedirect(true);
+    setBrandColor('#0052ff');
+    setBrandMode('light');
     toast.success('Settings reset to defaults');
   };
 
@@ -370,6 +424,75 @@ export default function PaywallStudio() {
                   </SelectItem>
                 </SelectContent>
               </Select>
+              <div className="flex items-center justify-between p-3 rounded-md hover:bg-background/30 transition-colors">
+                <div className="space-y-0.5">
+                  <Label
+                    htmlFor="lightDarkVariants"
+                    className="text-sm text-foreground font-medium cursor-pointer"
+                  >
+                    Light &amp; Dark
+                  </Label>
+                  <p className="text-xs text-muted-foreground">
+                    {selectedPreset === 'Custom'
+                      ? 'Available for presets'
+                      : 'Follow the visitor\'s system setting, with a toggle'}
+                  </p>
+                </div>
+                <Switch
+                  id="lightDarkVariants"
+                  checked={useThemeVariants}
+                  disabled={selectedPreset === 'Custom'}
+                  onCheckedChange={setLightDarkVariants}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-3 pt-2">
+              <div className="flex items-center gap-2">
+                <Wand2 className="w-4 h-4 text-accent" />
+                <h3 className="text-sm font-semibold text-foreground">
+                  Generate from Brand Color
+                </h3>
+              </div>
+              <div className="space-y-3 p-4 rounded-lg bg-secondary/30 border border-border/50 shadow-sm">
+                <div className="flex gap-2">
+                  <Input
+                    id="brandColor"
+                    value={brandColor}
+                    onChange={(e) => setBrandColor(e.target.value)}
+                    placeholder="#0052ff"
+                    className="bg-background/50 border-border/50 text-foreground font-mono text-xs h-9 focus:border-accent/50 transition-all"
+                  />
+                  <input
+                    type="color"
+                    aria-label="Pick brand color"
+                    value={/^#[0-9a-f]{6}$/i.test(brandColor) ? brandColor : '#000000'}
+                    onChange={(e) => setBrandColor(e.target.value)}
+                    className="w-9 h-9 rounded border border-border/50 shadow-sm flex-shrink-0 bg-transparent cursor-pointer"
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Select
+                    value={brandMode}
+                    onValueChange={(v) => setBrandMode(v as 'light' | 'dark')}
+                  >
+                    <SelectTrigger className="bg-background/50 border-border/50 text-foreground h-9 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-popover/95 backdrop-blur-xl border-border/50">
+                      <SelectItem value="light">Light</SelectItem>
+                      <SelectItem value="dark">Dark</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    onClick={handleGenerateFromBrand}
+                    className="h-9 border-border/50 hover:bg-secondary/50 transition-all bg-transparent text-xs"
+                  >
+                    Generate
+                  </Button>
+                </div>
+              </div>
             </div>
 
             <div className="space-y-3 pt-2">
@@ -642,6 +765,73 @@ export default function PaywallStudio() {
               </div>
             )}
 
+            <div className="space-y-3 pt-2">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Contrast className="w-4 h-4 text-accent" />
+                  <h3 className="text-sm font-semibold text-foreground">
+                    Accessibility
+                  </h3>
+                </div>
+                <span
+                  className={`text-xs font-medium ${
+                    themeAnalysis.passesAA
+                      ? 'text-muted-foreground'
+                      : 'text-destructive'
+                  }`}
+                >
+                  {themeAnalysis.passesAAA
+                    ? 'WCAG AAA'
+                    : themeAnalysis.passesAA
+                      ? 'WCAG AA'
+                      : 'Fails WCAG AA'}
+                </span>
+              </div>
+              <div className="space-y-2 p-4 rounded-lg bg-secondary/30 border border-border/50 shadow-sm">
+                {themeAnalysis.checks.map((check) => (
+                  <div
+                    key={`${check.foreground}-${check.background}`}
+                    className="flex items-center justify-between gap-2 text-xs"
+                  >
+                    <span className="text-muted-foreground">{check.usage}</span>
+                    <span
+                      className={`font-mono ${
+                        check.level === 'fail'
+                          ? 'text-destructive'
+                          : 'text-foreground'
+                      }`}
+                    >
+                      {check.ratio === null ? '–' : `${check.ratio.toFixed(2)}:1`}{' '}
+                      {check.level === 'fail' ? 'Fail' : check.level}
+                    </span>
+                  </div>
+                ))}
+                {themeAnalysis.issues
+                  .filter(
+                    (issue) =>
+                      issue.code === 'invalid-color' ||
+                      issue.code === 'low-visibility-border',
+                  )
+                  .map((issue) => (
+                    <p
+                      key={`${issue.code}-${issue.property}`}
+                      className="text-xs text-destructive"
+                    >
+                      {issue.message}
+                    </p>
+                  ))}
+                {themeNeedsFixes && (
+                  <Button
+                    variant="outline"
+                    onClick={handleApplyAccessibleTheme}
+                    className="w-full h-9 mt-2 border-border/50 hover:bg-secondary/50 transition-all bg-transparent text-xs"
+                  >
+                    Apply accessible palette
+                  </Button>
+                )}
+              </div>
+            </div>
+
             <Separator className="bg-border/50" />
 
             <div className="pt-2 space-y-3">
@@ -759,16 +949,13 @@ export default function PaywallStudio() {
           >
             {/* Paywall Preview - Actual x402 HTML in iframe */}
             <div className="rounded-xl shadow-2xl border border-border/20">
-              <iframe
-                key={previewHtml.length}
-                srcDoc={previewHtml}
+              <PaywallPreview
+                config={previewConfig}
                 className="w-full border-0 rounded-xl"
                 style={{
                   height: getDeviceHeight(),
                   pointerEvents: 'auto',
-                  display: 'block',
                 }}
-                title="Paywall Preview"
               />
             </div>
           </div>
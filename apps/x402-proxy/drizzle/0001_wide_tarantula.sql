@@ -0,0 +1,11 @@
+CREATE TABLE "paywall_request_stash" (
+	"id" uuid PRIMARY KEY NOT NULL,
+	"method" varchar(10) NOT NULL,
+	"path" text NOT NULL,
+	"body" "bytea" NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "paywall_request_stash_expires_at_idx" ON "paywall_request_stash" USING btree ("expires_at");--> statement-breakpoint
+CREATE INDEX "paywall_request_stash_created_at_idx" ON "paywall_request_stash" USING btree ("created_at");
\ No newline at end of file
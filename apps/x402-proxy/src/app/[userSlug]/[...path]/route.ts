@@ -9,10 +9,12 @@ import {
   settlePayment,
   generatePaymentRequiredResponse,
   usdToUsdc,
+  getNetworkInfo,
   type PaymentPayload,
 } from "@/lib/proxy/facilitator";
 import { checkRateLimit, rateLimitExceededResponse, getRateLimitHeaders } from "@/lib/proxy/rate-limiter";
-import { CHAIN_CONFIG, generateGenericPaywallTemplate, THEME_PRESETS, populateMetaTagPaywallConfig } from "@d3servelabs/x402-paywall-builder";
+import { paywallRequestStore } from "@/lib/proxy/request-store";
+import { getRegisteredChains, generateGenericPaywallTemplate, THEME_PRESETS, createThemeFromBrand, populateMetaTagPaywallConfig, negotiateLocale, capturePaywallRequest, restorePaywallRequest, releasePaywallRequest, renewPaywallRequest, PAYWALL_REQUEST_ID_HEADER } from "@d3servelabs/x402-paywall-builder";
 
 /**
  * Extract payer address from payment payload
@@ -48,6 +50,9 @@ function isBrowserRequest(request: Request): boolean {
   // Check Accept header for HTML preference
   if (accept.includes("text/html")) return true;
 
+  // Browser scripts asking for JSON (the paywall refreshing its requirements)
+  if (accept.includes("application/json")) return false;
+
   // Check for common browser user agents
   const browserPatterns = [/Mozilla/i, /Chrome/i, /Safari/i, /Firefox/i, /Edge/i];
   return browserPatterns.some((pattern) => pattern.test(userAgent));
@@ -340,6 +345,7 @@ async function handleRequest(
       // The paywallAmount is stored in USD (e.g., 0.01 for 1 cent)
       const priceUsd = Number(endpoint.paywallAmount);
       const usdcAsset = usdToUsdc(priceUsd, endpoint.paywallTestnet);
+      const networkInfo = getNetworkInfo(endpoint.paywallTestnet);
 
       // Generate payment required response
       const paymentRequiredResponse = generatePaymentRequiredResponse({
@@ -354,6 +360,20 @@ async function handleRequest(
 
       // Check if browser request
       if (isBrowserRequest(request)) {
+        // Keep the method and body so the paid retry reproduces this request.
+        // Only requests with a non-empty body touch the stash; a body too
+        // large to stash gets the plain paywall, which retries with GET
+        const replayRequest =
+          (await capturePaywallRequest(request, {
+            store: paywallRequestStore,
+          })) ?? undefined;
+        if (!replayRequest) {
+          proxyDebugLog("Request body too large to stash, serving paywall without replay", {
+            method: request.method,
+            contentLength: request.headers.get("content-length"),
+          });
+        }
+
         // Return HTML paywall
         const paywallConfig = endpoint.paywallConfig as Record<string, unknown> || {};
         
@@ -365,19 +385,7 @@ async function handleRequest(
             amount: priceUsd,
             amountInAtomicUnits: usdcAsset.amount,
             payTo,
-            network: endpoint.paywallTestnet ? "eip155:84532" : "eip155:8453",
-            chainId: endpoint.paywallTestnet ? 84532 : 8453,
-            chainIdHex: endpoint.paywallTestnet ? "0x14a34" : "0x2105",
-            chainName: endpoint.paywallTestnet ? "Base Sepolia" : "Base",
-            usdcAddress: endpoint.paywallTestnet
-              ? "0x036CbD53842c5426634e7929541eC2318f3dCF7e"
-              : "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
-            rpcUrl: endpoint.paywallTestnet
-              ? "https://sepolia.base.org"
-              : "https://mainnet.base.org",
-            blockExplorer: endpoint.paywallTestnet
-              ? "https://sepolia.basescan.org"
-              : "https://basescan.org",
+            ...networkInfo,
             currentUrl: url.toString(),
             testnet: endpoint.paywallTestnet,
             resourceDescription:
@@ -391,7 +399,11 @@ async function handleRequest(
             walletConnectProjectId:
             (paywallConfig.walletConnectProjectId as string) ||
             process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID,
-            chainConfigs: CHAIN_CONFIG,
+            chainConfigs: getRegisteredChains(),
+            replayRequest,
+            // Sellers share the proxy origin; keep each one's tokens apart
+            accessTokenStorage: { sharedOrigin: true },
+            issuedAt: Date.now(),
           };
           
           // Populate the custom HTML with the payment config
@@ -409,26 +421,22 @@ async function handleRequest(
         
         // Use default generated paywall template
         const themePreset = (paywallConfig.theme as string) || "Coinbase";
-        const theme = THEME_PRESETS[themePreset as keyof typeof THEME_PRESETS];
+        let theme = THEME_PRESETS[themePreset as keyof typeof THEME_PRESETS];
+        const brandTheme = paywallConfig.brandTheme as { primary?: string; mode?: "light" | "dark" } | undefined;
+        if (brandTheme?.primary) {
+          try {
+            theme = createThemeFromBrand({ primary: brandTheme.primary, mode: brandTheme.mode });
+          } catch (error) {
+            proxyErrorLog("Invalid brand color, using theme preset", error);
+          }
+        }
 
         const html = generateGenericPaywallTemplate({
           amount: priceUsd,
           amountInAtomicUnits: usdcAsset.amount,
           payTo,
-          chainConfigs: CHAIN_CONFIG,
-          network: endpoint.paywallTestnet ? "eip155:84532" : "eip155:8453",
-          chainId: endpoint.paywallTestnet ? 84532 : 8453,
-          chainIdHex: endpoint.paywallTestnet ? "0x14a34" : "0x2105",
-          chainName: endpoint.paywallTestnet ? "Base Sepolia" : "Base",
-          usdcAddress: endpoint.paywallTestnet
-            ? "0x036CbD53842c5426634e7929541eC2318f3dCF7e"
-            : "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
-          rpcUrl: endpoint.paywallTestnet
-            ? "https://sepolia.base.org"
-            : "https://mainnet.base.org",
-          blockExplorer: endpoint.paywallTestnet
-            ? "https://sepolia.basescan.org"
-            : "https://basescan.org",
+          chainConfigs: getRegisteredChains(),
+          ...networkInfo,
           currentUrl: url.toString(),
           testnet: endpoint.paywallTestnet,
           paymentRequired: paymentRequiredResponse,
@@ -444,6 +452,11 @@ async function handleRequest(
           walletConnectProjectId:
             (paywallConfig.walletConnectProjectId as string) ||
             process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID,
+          locale: negotiateLocale(request.headers.get("accept-language")),
+          replayRequest,
+          accessTokenStorage: { sharedOrigin: true },
+          // Served by /api/paywall-assets; the package version isn't on the CDN
+          assetBaseUrl: "/api/paywall-assets/",
         });
 
         return new Response(html, {
@@ -454,10 +467,18 @@ async function handleRequest(
           },
         });
       } 
-        // Return JSON for programmatic clients
+        // Return JSON for programmatic clients. A paywall page refreshing its
+        // price sends a GET with its stash ID; renew the stash so the paid
+        // retry finds it. The refresh is answered here, never forwarded
+        const renewedRequestId = await renewPaywallRequest(request, {
+          store: paywallRequestStore,
+        });
         return NextResponse.json(paymentRequiredResponse, {
           status: 402,
-          headers: getRateLimitHeaders(rateLimitResult),
+          headers: {
+            ...getRateLimitHeaders(rateLimitResult),
+            ...(renewedRequestId ? { [PAYWALL_REQUEST_ID_HEADER]: renewedRequestId } : {}),
+          },
         });
       
     }
@@ -480,11 +501,15 @@ async function handleRequest(
       payloadKeys: Object.keys(paymentPayload.payload || {}),
     });
 
-    const verifyResult = await verifyPayment(paymentPayload, {
-      priceUsd: priceUsdForVerify,
-      payTo,
-      testnet: endpoint.paywallTestnet,
-    });
+    const verifyResult = await verifyPayment(
+      paymentPayload,
+      {
+        priceUsd: priceUsdForVerify,
+        payTo,
+        testnet: endpoint.paywallTestnet,
+      },
+      negotiateLocale(request.headers.get("accept-language"))
+    );
 
     proxyDebugLog("Verification result", verifyResult);
 
@@ -501,11 +526,28 @@ async function handleRequest(
         {
           error: "Payment verification failed",
           reason: verifyResult.invalidReason,
+          // Shown by the paywall page instead of its generic error
+          message: verifyResult.message,
         },
         { status: 402, headers: getRateLimitHeaders(rateLimitResult) }
       );
     }
 
+    // Put back the body stashed when the paywall page was served
+    const originalRequest = await restorePaywallRequest(request, {
+      store: paywallRequestStore,
+    });
+    if (!originalRequest) {
+      await logRequest(endpoint.id, user.id, request, 410, {
+        paid: false,
+        responseTimeMs: Date.now() - startTime,
+      });
+      return NextResponse.json(
+        { error: "Original request expired. Reload the page and try again." },
+        { status: 410, headers: getRateLimitHeaders(rateLimitResult) }
+      );
+    }
+
     // Extract payer address from verified result or payload
     const payerAddress = verifyResult.payerAddress || 
       extractPayerAddressFromPayload(paymentPayload) ||
@@ -519,7 +561,7 @@ async function handleRequest(
         userId: user.id,
         payerAddress,
         amount: endpoint.paywallAmount,
-        chainId: verifyResult.chainId || (endpoint.paywallTestnet ? 84532 : 8453),
+        chainId: verifyResult.chainId || getNetworkInfo(endpoint.paywallTestnet).chainId,
         network: endpoint.paywallTestnet ? "base-sepolia" : "base",
         status: "verified",
         paymentPayload: paymentPayload,
@@ -565,7 +607,7 @@ async function handleRequest(
       "content-length",
     ];
 
-    request.headers.forEach((value, key) => {
+    originalRequest.headers.forEach((value, key) => {
       if (!skipHeaders.includes(key.toLowerCase())) {
         forwardHeaders[key] = value;
       }
@@ -573,9 +615,10 @@ async function handleRequest(
 
     proxyDebugLog("Forwarding request to target", {
       targetUrl,
-      method: request.method,
+      method: originalRequest.method,
       headerCount: Object.keys(forwardHeaders).length,
-      hasBody: !["GET", "HEAD"].includes(request.method),
+      hasBody: !["GET", "HEAD"].includes(originalRequest.method),
+      restoredBody: originalRequest !== request,
     });
 
     // Proxy the request
@@ -583,12 +626,12 @@ async function handleRequest(
     let proxyResponseBody: ArrayBuffer;
     try {
       proxyResponse = await fetch(targetUrl, {
-        method: request.method,
+        method: originalRequest.method,
         headers: {
           ...forwardHeaders,
           ...authHeaders,
         },
-        body: ["GET", "HEAD"].includes(request.method) ? undefined : request.body,
+        body: ["GET", "HEAD"].includes(originalRequest.method) ? undefined : originalRequest.body,
         // @ts-expect-error - duplex is a valid option in Node.js fetch
         duplex: "half",
       });
@@ -657,6 +700,12 @@ async function handleRequest(
       })
       .where(eq(payments.id, payment.id));
 
+    // Keep the stashed body until the call succeeded and was paid for, so a
+    // retry after an upstream or settlement failure can still replay it
+    if (proxyResponse.ok && settleResult.success) {
+      await releasePaywallRequest(request, { store: paywallRequestStore });
+    }
+
     // Log successful request
     await logRequest(endpoint.id, user.id, request, proxyResponse.status, {
       paid: true,
@@ -6,6 +6,7 @@ import { endpoints } from "@/lib/db/schema";
 import { eq, and } from "drizzle-orm";
 import { z } from "zod";
 import { validateEndpointUrl } from "@/lib/utils";
+import { validatePaywallTemplate } from "@d3servelabs/x402-paywall-builder";
 
 // Get URL validation config from environment
 const urlValidationConfig = {
@@ -128,6 +129,17 @@ export async function PATCH(
       }
     }
 
+    // Validate custom paywall template if being updated
+    if (validated.customHtml) {
+      const templateValidation = validatePaywallTemplate(validated.customHtml);
+      if (!templateValidation.valid) {
+        return NextResponse.json(
+          { error: "Invalid custom paywall HTML", details: templateValidation },
+          { status: 400 }
+        );
+      }
+    }
+
     // Check if slug is being changed and if it's unique
     if (validated.slug && validated.slug !== existingEndpoint.slug) {
       const [slugExists] = await db
@@ -6,6 +6,7 @@ import { endpoints } from "@/lib/db/schema";
 import { eq, and } from "drizzle-orm";
 import { z } from "zod";
 import { isValidEthAddress, validateEndpointUrl } from "@/lib/utils";
+import { validatePaywallTemplate } from "@d3servelabs/x402-paywall-builder";
 
 // Get URL validation config from environment
 const urlValidationConfig = {
@@ -95,6 +96,17 @@ export async function POST(request: Request) {
       );
     }
 
+    // Validate custom paywall template
+    if (validated.customHtml) {
+      const templateValidation = validatePaywallTemplate(validated.customHtml);
+      if (!templateValidation.valid) {
+        return NextResponse.json(
+          { error: "Invalid custom paywall HTML", details: templateValidation },
+          { status: 400 }
+        );
+      }
+    }
+
     // Check if slug already exists for this user
     const existing = await db
       .select({ id: endpoints.id })
@@ -0,0 +1,27 @@
+import { getPaywallAsset } from "@d3servelabs/x402-paywall-builder";
+
+/**
+ * Serves the paywall's CSS and wallet runtimes from the proxy itself, so
+ * generated paywalls load them from here instead of the public CDN.
+ * File names carry no version, but the pages pin each one by integrity hash.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ file: string }> }
+) {
+  const { file } = await params;
+  const asset = getPaywallAsset(file);
+
+  if (!asset) {
+    return new Response(null, { status: 404 });
+  }
+
+  return new Response(asset.code, {
+    headers: {
+      "Content-Type": asset.file.endsWith(".css")
+        ? "text/css; charset=utf-8"
+        : "text/javascript; charset=utf-8",
+      "Cache-Control": "public, max-age=3600",
+    },
+  });
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useRouter, useParams } from "next/navigation";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
@@ -20,8 +20,11 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { toast } from "sonner";
-import { ArrowLeft, Loader2, Trash2, ExternalLink, AlertCircle, Info } from "lucide-react";
+import { ArrowLeft, Loader2, Trash2, ExternalLink, AlertCircle, AlertTriangle, Info } from "lucide-react";
 import { validateEndpointUrl, getUrlValidationConfig } from "@/lib/utils";
+// Subpath import keeps the inlined wallet runtime out of the client bundle
+import { validatePaywallTemplate } from "@d3servelabs/x402-paywall-builder/shared/template-validator";
+import { createThemeFromBrand } from "@d3servelabs/x402-paywall-builder/shared/styles";
 
 type AuthType =
   | "none"
@@ -86,10 +89,28 @@ export default function EditEndpointPage() {
   // Paywall branding
   const [appName, setAppName] = useState("");
   const [appLogo, setAppLogo] = useState("");
+  const [brandColor, setBrandColor] = useState("");
+  const [brandMode, setBrandMode] = useState<"light" | "dark">("light");
   
   // URL validation error
   const [targetUrlError, setTargetUrlError] = useState<string | null>(null);
 
+  // Custom HTML validation (recomputed as the template is edited)
+  const templateValidation = useMemo(
+    () => (customHtml ? validatePaywallTemplate(customHtml) : null),
+    [customHtml]
+  );
+
+  // Theme generated from the brand color (null when unset, Error when unparseable)
+  const brandTheme = useMemo(() => {
+    if (!brandColor) return null;
+    try {
+      return createThemeFromBrand({ primary: brandColor, mode: brandMode });
+    } catch (error) {
+      return error as Error;
+    }
+  }, [brandColor, brandMode]);
+
   // Validate target URL when it changes
   const handleTargetUrlChange = (value: string) => {
     setTargetUrl(value);
@@ -126,9 +147,14 @@ export default function EditEndpointPage() {
         setRateLimitPerSec(data.rateLimitPerSec.toString());
         
         // Load branding from paywallConfig
-        const paywallConfig = data.paywallConfig as { branding?: { appName?: string; appLogo?: string } } || {};
+        const paywallConfig = data.paywallConfig as {
+          branding?: { appName?: string; appLogo?: string };
+          brandTheme?: { primary?: string; mode?: "light" | "dark" };
+        } || {};
         setAppName(paywallConfig.branding?.appName || "");
         setAppLogo(paywallConfig.branding?.appLogo || "");
+        setBrandColor(paywallConfig.brandTheme?.primary || "");
+        setBrandMode(paywallConfig.brandTheme?.mode || "light");
       } catch (error) {
         toast.error("Failed to load endpoint");
         router.push("/dashboard/endpoints");
@@ -150,6 +176,16 @@ export default function EditEndpointPage() {
       toast.error(urlValidation.error || "Invalid target URL");
       return;
     }
+
+    if (templateValidation && !templateValidation.valid) {
+      toast.error("Fix the custom paywall HTML errors before saving");
+      return;
+    }
+
+    if (brandTheme instanceof Error) {
+      toast.error(brandTheme.message);
+      return;
+    }
     
     setIsSaving(true);
 
@@ -178,6 +214,9 @@ export default function EditEndpointPage() {
               appName: appName || undefined,
               appLogo: appLogo || undefined,
             },
+            brandTheme: brandColor
+              ? { primary: brandColor, mode: brandMode }
+              : undefined,
           },
         }),
       });
@@ -603,6 +642,71 @@ export default function EditEndpointPage() {
               </p>
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="brandColor">Brand Color (optional)</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="brandColor"
+                  placeholder="#0052ff"
+                  value={brandColor}
+                  onChange={(e) => setBrandColor(e.target.value)}
+                  className={`font-mono ${brandTheme instanceof Error ? "border-destructive" : ""}`}
+                />
+                <input
+                  type="color"
+                  aria-label="Pick brand color"
+                  value={/^#[0-9a-f]{6}$/i.test(brandColor) ? brandColor : "#000000"}
+                  onChange={(e) => setBrandColor(e.target.value)}
+                  className="h-9 w-9 shrink-0 cursor-pointer rounded-md border border-input bg-transparent"
+                />
+                <select
+                  id="brandMode"
+                  aria-label="Theme mode"
+                  className="h-9 rounded-md border border-input bg-background px-3 py-1 text-sm"
+                  value={brandMode}
+                  onChange={(e) => setBrandMode(e.target.value as "light" | "dark")}
+                >
+                  <option value="light">Light</option>
+                  <option value="dark">Dark</option>
+                </select>
+              </div>
+              {brandTheme instanceof Error ? (
+                <p className="text-xs text-destructive">{brandTheme.message}</p>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  Generates the paywall theme from this color, with readable contrast. Leave empty to use the default theme
+                </p>
+              )}
+              {brandTheme && !(brandTheme instanceof Error) && (
+                <div
+                  className="flex items-center justify-center rounded-lg p-4"
+                  style={{ background: brandTheme.background }}
+                >
+                  <div
+                    className="flex w-48 flex-col gap-2 p-3"
+                    style={{
+                      background: brandTheme.card,
+                      borderRadius: brandTheme.borderRadius,
+                      border: `1px solid ${brandTheme.border}`,
+                    }}
+                  >
+                    <span className="text-sm font-semibold" style={{ color: brandTheme.foreground }}>
+                      Payment Required
+                    </span>
+                    <span className="text-xs" style={{ color: brandTheme.muted }}>
+                      Access this resource
+                    </span>
+                    <span
+                      className="rounded-md py-1 text-center text-xs font-medium text-white"
+                      style={{ background: brandTheme.brandPrimary }}
+                    >
+                      Pay
+                    </span>
+                  </div>
+                </div>
+              )}
+            </div>
+
             {appLogo && (
               <div className="mt-4">
                 <Label>Preview</Label>
@@ -683,11 +787,33 @@ export default function EditEndpointPage() {
               </div>
               <textarea
                 id="customHtml"
-                className="w-full h-32 rounded-md border border-input bg-background px-3 py-2 text-sm font-mono"
+                className={`w-full h-32 rounded-md border bg-background px-3 py-2 text-sm font-mono ${
+                  templateValidation && !templateValidation.valid
+                    ? "border-red-500"
+                    : "border-input"
+                }`}
                 placeholder="<!-- Custom HTML for paywall -->"
                 value={customHtml}
                 onChange={(e) => setCustomHtml(e.target.value)}
               />
+              {templateValidation && (
+                <ul className="space-y-1">
+                  {templateValidation.errors.map((issue, i) => (
+                    <li key={`error-${i}`} className="text-xs text-red-500 flex items-center gap-1">
+                      <AlertCircle className="h-3 w-3 flex-shrink-0" />
+                      {issue.line ? `Line ${issue.line}: ` : ""}
+                      {issue.message}
+                    </li>
+                  ))}
+                  {templateValidation.warnings.map((issue, i) => (
+                    <li key={`warning-${i}`} className="text-xs text-yellow-600 flex items-center gap-1">
+                      <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+                      {issue.line ? `Line ${issue.line}: ` : ""}
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
               <p className="text-xs text-muted-foreground">
                 Use <code className="bg-muted px-1 rounded">{"{{payment-config}}"}</code> as a placeholder for the base64-encoded payment configuration.
                 {customHtmlHelperUrl && (
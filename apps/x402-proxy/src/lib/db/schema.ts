@@ -11,6 +11,7 @@ import {
   pgEnum,
   index,
   uniqueIndex,
+  customType,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 
@@ -252,6 +253,34 @@ export const requestLogs = pgTable(
   ]
 );
 
+// ============================================================================
+// PAYWALL REQUEST STASH TABLE
+// ============================================================================
+
+// Raw bytes column (Postgres bytea)
+const bytea = customType<{ data: Buffer }>({
+  dataType() {
+    return "bytea";
+  },
+});
+
+// Bodies of requests that hit the paywall, replayed on the paid retry
+export const paywallRequestStash = pgTable(
+  "paywall_request_stash",
+  {
+    id: uuid("id").primaryKey(),
+    method: varchar("method", { length: 10 }).notNull(),
+    path: text("path").notNull(),
+    body: bytea("body").notNull(),
+    expiresAt: timestamp("expires_at").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("paywall_request_stash_expires_at_idx").on(table.expiresAt),
+    index("paywall_request_stash_created_at_idx").on(table.createdAt),
+  ]
+);
+
 // ============================================================================
 // RELATIONS
 // ============================================================================
@@ -357,6 +386,10 @@ export interface PaywallConfig {
     appName?: string;
     appLogo?: string;
   };
+  brandTheme?: {
+    primary: string; // Brand color; takes precedence over theme
+    mode?: "light" | "dark";
+  };
   resourceDescription?: string;
   successRedirectUrl?: string;
   successRedirectDelaySeconds?: number;
@@ -20,6 +20,18 @@ import type {
   AssetAmount,
 } from "@x402/core/types";
 import { ExactEvmScheme } from "@x402/evm/exact/server";
+import {
+  getChainConfig,
+  getUsdcToken,
+  toAtomicAmount,
+  fromAtomicAmount,
+  toChainIdHex,
+  USDC_DECIMALS,
+  getEvmSignatureKind,
+  getLocaleMessages,
+  type ChainConfig,
+  type PaywallMessageId,
+} from "@d3servelabs/x402-paywall-builder";
 
 // Configuration from environment
 const FACILITATOR_URL =
@@ -29,14 +41,6 @@ const FACILITATOR_URL =
 const BASE_MAINNET = "eip155:8453" as const;
 const BASE_SEPOLIA = "eip155:84532" as const;
 
-// USDC contract addresses
-const USDC_BASE_MAINNET = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
-const USDC_BASE_SEPOLIA = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
-
-// Chain IDs
-const BASE_MAINNET_CHAIN_ID = 8453;
-const BASE_SEPOLIA_CHAIN_ID = 84532;
-
 // Debug logging prefix
 const LOG_PREFIX = "[x402-facilitator]";
 
@@ -54,6 +58,18 @@ function errorLog(message: string, error?: unknown) {
   console.error(`${LOG_PREFIX} ERROR: ${message}`, error);
 }
 
+/**
+ * Resolve the chain config for the endpoint network from the paywall builder's chain registry
+ */
+function getEndpointChain(testnet?: boolean): ChainConfig {
+  const network = testnet ? BASE_SEPOLIA : BASE_MAINNET;
+  const chain = getChainConfig(network);
+  if (!chain) {
+    throw new Error(`Chain not registered: ${network}`);
+  }
+  return chain;
+}
+
 /**
  * Singleton x402 resource server with lazy initialization
  */
@@ -102,23 +118,25 @@ export type { PaymentPayload, PaymentRequirements, SettleResponse, VerifyRespons
  * @returns AssetAmount object for x402 SDK
  */
 export function usdToUsdc(usdAmount: number, testnet = true): AssetAmount {
-  const asset = testnet ? USDC_BASE_SEPOLIA : USDC_BASE_MAINNET;
+  const token = getUsdcToken(getEndpointChain(testnet));
   // USDC has 6 decimals: 1 USD = 1,000,000 atomic units
-  const amount = Math.floor(usdAmount * 1_000_000).toString();
+  const amount = toAtomicAmount(usdAmount, token.decimals);
   
   debugLog("Converting USD to USDC", {
     usdAmount,
     atomicAmount: amount,
-    asset,
+    asset: token.address,
     testnet,
   });
 
   return {
-    asset,
+    asset: token.address,
     amount,
     extra: {
-      name: "USDC",
-      version: "2",
+      name: token.eip712Name,
+      version: token.eip712Version,
+      symbol: token.symbol,
+      decimals: token.decimals,
     },
   };
 }
@@ -131,23 +149,25 @@ export function usdToUsdc(usdAmount: number, testnet = true): AssetAmount {
  * @returns AssetAmount object for x402 SDK
  */
 export function centsToUsdc(cents: number, testnet = true): AssetAmount {
-  const asset = testnet ? USDC_BASE_SEPOLIA : USDC_BASE_MAINNET;
+  const token = getUsdcToken(getEndpointChain(testnet));
   // USDC has 6 decimals: 1 cent = 10,000 atomic units
-  const amount = Math.floor(cents * 10_000).toString();
+  const amount = toAtomicAmount(cents / 100, token.decimals);
   
   debugLog("Converting cents to USDC", {
     cents,
     atomicAmount: amount,
-    asset,
+    asset: token.address,
     testnet,
   });
 
   return {
-    asset,
+    asset: token.address,
     amount,
     extra: {
-      name: "USDC",
-      version: "2",
+      name: token.eip712Name,
+      version: token.eip712Version,
+      symbol: token.symbol,
+      decimals: token.decimals,
     },
   };
 }
@@ -216,11 +236,31 @@ export function parsePaymentSignature(request: Request): PaymentPayload | null {
   }
 }
 
+/**
+ * Buyer-facing messages for facilitator rejections, shown by the paywall page
+ * in the buyer's locale
+ */
+const INVALID_REASON_MESSAGE_IDS: Record<string, PaywallMessageId> = {
+  invalid_exact_evm_payload_undeployed_smart_wallet: "smartWalletNotDeployed",
+  invalid_exact_evm_payload_signature: "signatureNotVerified",
+};
+
+/**
+ * Signature kind of an EVM exact payload, for logging
+ */
+function getPayloadSignatureKind(payload: PaymentPayload): string | null {
+  const inner = payload.payload as Record<string, unknown> | undefined;
+  return typeof inner?.signature === "string"
+    ? getEvmSignatureKind(inner.signature)
+    : null;
+}
+
 /**
  * Verify a payment with the facilitator
  *
  * @param payload - The payment payload from the client
  * @param expectedDetails - The expected payment details from endpoint config
+ * @param locale - Locale of the buyer-facing message (see negotiateLocale)
  * @returns Verification result
  */
 export async function verifyPayment(
@@ -229,10 +269,13 @@ export async function verifyPayment(
     priceUsd: number; // Price in USD (e.g., 0.01 for 1 cent)
     payTo: string;
     testnet?: boolean;
-  }
+  },
+  locale?: string
 ): Promise<{
   valid: boolean;
   invalidReason?: string;
+  /** Explanation of invalidReason for the buyer, when there is one */
+  message?: string;
   payerAddress?: string;
   chainId?: number;
 }> {
@@ -244,6 +287,8 @@ export async function verifyPayment(
     accepted: payload.accepted,
     payloadType: typeof payload.payload,
     payloadKeys: payload.payload ? Object.keys(payload.payload) : [],
+    // "erc1271" / "erc6492" for smart wallets; the facilitator verifies both
+    signatureKind: getPayloadSignatureKind(payload),
     fullPayload: payload,
   });
 
@@ -321,17 +366,19 @@ export async function verifyPayment(
         isValid: verifyResult?.isValid,
         invalidReason: verifyResult?.invalidReason,
       });
+      const messageId = verifyResult?.invalidReason
+        ? INVALID_REASON_MESSAGE_IDS[verifyResult.invalidReason]
+        : undefined;
       return {
         valid: false,
         invalidReason: verifyResult?.invalidReason || "Payment verification failed",
+        message: messageId ? getLocaleMessages(locale)[messageId] : undefined,
       };
     }
 
     // Extract payer address from payload or verification result
     const payerAddress = verifyResult.payer || extractPayerAddress(payload);
-    const chainId = expectedDetails.testnet
-      ? BASE_SEPOLIA_CHAIN_ID
-      : BASE_MAINNET_CHAIN_ID;
+    const chainId = getEndpointChain(expectedDetails.testnet).chainId;
 
     debugLog("=== VERIFY PAYMENT SUCCESS ===", {
       payerAddress,
@@ -449,9 +496,7 @@ export async function settlePayment(
     return {
       success: true,
       txHash: settleResult.transaction,
-      chainId: expectedDetails.testnet
-        ? BASE_SEPOLIA_CHAIN_ID
-        : BASE_MAINNET_CHAIN_ID,
+      chainId: getEndpointChain(expectedDetails.testnet).chainId,
       network,
     };
   } catch (error) {
@@ -507,24 +552,26 @@ export function generatePaymentRequiredResponse(config: {
 }
 
 /**
- * Convert USDC amount to atomic units (6 decimals)
+ * Convert token amount to atomic units (USDC: 6 decimals)
  * @deprecated Use usdToUsdc or centsToUsdc instead
  */
-export function toAtomicUnits(amount: number): string {
-  const result = Math.floor(amount * 1_000_000).toString();
+export function toAtomicUnits(amount: number, decimals = USDC_DECIMALS): string {
+  const result = toAtomicAmount(amount, decimals);
   debugLog("Converted to atomic units (deprecated)", { input: amount, output: result });
   return result;
 }
 
 /**
- * Convert atomic units to USDC amount
+ * Convert atomic units to token amount (USDC: 6 decimals)
  */
-export function fromAtomicUnits(atomicUnits: string): number {
-  return Number(atomicUnits) / 1_000_000;
+export function fromAtomicUnits(atomicUnits: string, decimals = USDC_DECIMALS): number {
+  return fromAtomicAmount(atomicUnits, decimals);
 }
 
 /**
- * Extract payer address from payment payload
+ * Extract payer address from payment payload.
+ * For smart wallets this is the account itself (authorization.from), not the
+ * key that signed for it, so ERC-1271 and ERC-6492 payments need no recovery.
  */
 function extractPayerAddress(payload: PaymentPayload): string | null {
   debugLog("Extracting payer address from payload");
@@ -581,15 +628,14 @@ function extractPayerAddress(payload: PaymentPayload): string | null {
  * Get network info for display
  */
 export function getNetworkInfo(testnet?: boolean) {
+  const chain = getEndpointChain(testnet);
   return {
     network: testnet ? BASE_SEPOLIA : BASE_MAINNET,
-    chainId: testnet ? BASE_SEPOLIA_CHAIN_ID : BASE_MAINNET_CHAIN_ID,
-    chainIdHex: testnet ? "0x14a34" : "0x2105",
-    chainName: testnet ? "Base Sepolia" : "Base",
-    usdcAddress: testnet ? USDC_BASE_SEPOLIA : USDC_BASE_MAINNET,
-    rpcUrl: testnet ? "https://sepolia.base.org" : "https://mainnet.base.org",
-    blockExplorer: testnet
-      ? "https://sepolia.basescan.org"
-      : "https://basescan.org",
+    chainId: chain.chainId,
+    chainIdHex: toChainIdHex(chain.chainId),
+    chainName: chain.name,
+    usdcAddress: chain.usdcAddress,
+    rpcUrl: chain.rpcUrl,
+    blockExplorer: chain.blockExplorer,
   };
 }
@@ -0,0 +1,70 @@
+/**
+ * Paywall Request Store
+ *
+ * Keeps request bodies stashed for the paid retry in the database, so the
+ * retry can land on any serverless instance. The table is capped, so
+ * clients that never pay cannot grow it without bound.
+ */
+
+import { asc, count, eq, inArray, lt } from "drizzle-orm";
+import type { PaywallRequestStore } from "@d3servelabs/x402-paywall-builder";
+import { db } from "@/lib/db";
+import { paywallRequestStash } from "@/lib/db/schema";
+
+// Oldest stashes are dropped beyond this many rows (at most 64 KiB each)
+const MAX_STASHED_REQUESTS = 1000;
+
+/**
+ * Database-backed store for capturePaywallRequest / restorePaywallRequest
+ */
+export const paywallRequestStore: PaywallRequestStore = {
+  async get(id) {
+    const [row] = await db
+      .select()
+      .from(paywallRequestStash)
+      .where(eq(paywallRequestStash.id, id))
+      .limit(1);
+    if (!row) return null;
+
+    return {
+      method: row.method,
+      path: row.path,
+      body: new Uint8Array(row.body).buffer,
+      expiresAt: row.expiresAt.getTime(),
+    };
+  },
+
+  async put(id, entry) {
+    // Clear out expired stashes while we're here, then the oldest ones
+    // beyond the cap
+    await db
+      .delete(paywallRequestStash)
+      .where(lt(paywallRequestStash.expiresAt, new Date()));
+
+    const [{ rows } = { rows: 0 }] = await db
+      .select({ rows: count() })
+      .from(paywallRequestStash);
+    if (rows >= MAX_STASHED_REQUESTS) {
+      const oldest = db
+        .select({ id: paywallRequestStash.id })
+        .from(paywallRequestStash)
+        .orderBy(asc(paywallRequestStash.createdAt))
+        .limit(rows - MAX_STASHED_REQUESTS + 1);
+      await db
+        .delete(paywallRequestStash)
+        .where(inArray(paywallRequestStash.id, oldest));
+    }
+
+    await db.insert(paywallRequestStash).values({
+      id,
+      method: entry.method,
+      path: entry.path,
+      body: Buffer.from(entry.body),
+      expiresAt: new Date(entry.expiresAt),
+    });
+  },
+
+  async delete(id) {
+    await db.delete(paywallRequestStash).where(eq(paywallRequestStash.id, id));
+  },
+};
@@ -0,0 +1,355 @@
+/**
+ * `<x402-paywall>` custom element
+ *
+ * Drops a paywall card into any page instead of redirecting to a full 402
+ * page. The card is the page the handlers generate, built with `embedded`
+ * and rendered into a sandboxed iframe inside the element's shadow root.
+ * The sandbox leaves out allow-same-origin, so the frame runs in an opaque
+ * origin and cannot reach the host page's DOM, cookies or storage. The two
+ * talk only through postMessage: lifecycle events (see ../shared/events) are
+ * re-dispatched on the element, `x402:resize` sizes the frame, and commands
+ * are posted back.
+ *
+ * @example
+ * ```html
+ * <script type="module">
+ *   import '@d3servelabs/x402-paywall-builder/element';
+ * </script>
+ * <x402-paywall resource="/api/premium-article" theme="Coinbase"></x402-paywall>
+ * ```
+ */
+
+import { genericEvmPaywall } from '../generic/generic-paywall';
+import { genericSolanaPaywall } from '../generic/solana-paywall';
+import { THEME_PRESETS, THEME_PRESET_VARIANTS } from '../shared/constants';
+import type { ThemePresetName } from '../shared/constants';
+import { isPaywallEventMessage } from '../shared/events';
+import type { PaywallCommand } from '../shared/events';
+import type {
+  BrandingConfig,
+  ColorScheme,
+  PaymentRequiredResponse,
+  PaywallHandlerConfig,
+  PaywallNetworkHandler,
+  ThemeConfig,
+  ThemeVariants,
+} from '../shared/types';
+
+/**
+ * Default tag name
+ */
+export const X402_PAYWALL_TAG = 'x402-paywall';
+
+/**
+ * Handlers tried in order for the first payment requirement they support
+ */
+const HANDLERS: PaywallNetworkHandler[] = [
+  genericEvmPaywall,
+  genericSolanaPaywall,
+];
+
+const OBSERVED_ATTRIBUTES = [
+  'resource',
+  'theme',
+  'color-scheme',
+  'locale',
+  'description',
+  'app-name',
+  'app-logo',
+  'wallet-connect-project-id',
+  'self-contained',
+] as const;
+
+/**
+ * Frame sandbox: scripts and wallet popups, but an opaque origin
+ */
+const FRAME_SANDBOX =
+  'allow-scripts allow-popups allow-popups-to-escape-sandbox allow-downloads';
+
+const ELEMENT_STYLES = `
+  :host { display: block; }
+  :host([hidden]) { display: none; }
+  iframe { display: block; width: 100%; height: 0; border: 0; background: transparent; }
+`;
+
+/**
+ * Read the x402 payment requirements from a 402 response: the base64
+ * `PAYMENT-REQUIRED` header, else the JSON body.
+ */
+async function readPaymentRequired(
+  response: Response,
+): Promise<PaymentRequiredResponse | null> {
+  const header = response.headers.get('PAYMENT-REQUIRED');
+  if (header) {
+    try {
+      const bytes = Uint8Array.from(atob(header), (c) => c.charCodeAt(0));
+      return JSON.parse(new TextDecoder().decode(bytes));
+    } catch {
+      // Fall through to the body
+    }
+  }
+  return response.json().catch(() => null);
+}
+
+// Lets the module be imported during server rendering, where HTMLElement is undefined
+const BaseElement = (
+  typeof HTMLElement === 'undefined' ? class {} : HTMLElement
+) as unknown as typeof HTMLElement;
+
+/**
+ * Inline x402 paywall card
+ *
+ * Attributes:
+ * - `resource` - URL of the protected resource. Fetched for its 402
+ *   requirements unless `paymentRequired` is set; payments are sent to it
+ * - `theme` - Theme preset name (see THEME_PRESETS)
+ * - `color-scheme` - 'light', 'dark' or 'auto'; uses the preset's variants
+ * - `locale`, `description`, `app-name`, `app-logo`,
+ *   `wallet-connect-project-id`, `self-contained`
+ *
+ * Properties `paymentRequired`, `theme` and `branding` take objects and
+ * override the matching attributes.
+ */
+export class X402PaywallElement extends BaseElement {
+  static get observedAttributes(): readonly string[] {
+    return OBSERVED_ATTRIBUTES;
+  }
+
+  private _paymentRequired: PaymentRequiredResponse | null = null;
+  private _fetchedPaymentRequired: PaymentRequiredResponse | null = null;
+  private _theme: ThemeConfig | ThemeVariants | null = null;
+  private _branding: BrandingConfig | null = null;
+  private _frame: HTMLIFrameElement | null = null;
+  private _loadController: AbortController | null = null;
+  private _renderQueued = false;
+
+  /** Payment requirements to render (instead of fetching `resource`) */
+  get paymentRequired(): PaymentRequiredResponse | null {
+    return this._paymentRequired;
+  }
+  set paymentRequired(value: PaymentRequiredResponse | null) {
+    this._paymentRequired = value;
+    this.queueRender();
+  }
+
+  /** Theme or light/dark variants (instead of the `theme` preset attribute) */
+  get theme(): ThemeConfig | ThemeVariants | null {
+    return this._theme;
+  }
+  set theme(value: ThemeConfig | ThemeVariants | null) {
+    this._theme = value;
+    this.queueRender();
+  }
+
+  /** Branding (instead of the `app-name` and `app-logo` attributes) */
+  get branding(): BrandingConfig | null {
+    return this._branding;
+  }
+  set branding(value: BrandingConfig | null) {
+    this._branding = value;
+    this.queueRender();
+  }
+
+  connectedCallback(): void {
+    if (!this.shadowRoot) {
+      const root = this.attachShadow({ mode: 'open' });
+      const style = document.createElement('style');
+      style.textContent = ELEMENT_STYLES;
+      this._frame = document.createElement('iframe');
+      this._frame.setAttribute('sandbox', FRAME_SANDBOX);
+      this._frame.title = this.getAttribute('description') || 'x402 paywall';
+      root.append(style, this._frame);
+    }
+    window.addEventListener('message', this.onMessage);
+    if (!this._paymentRequired && !this._fetchedPaymentRequired) {
+      void this.load();
+    } else {
+      this.queueRender();
+    }
+  }
+
+  disconnectedCallback(): void {
+    window.removeEventListener('message', this.onMessage);
+    this._loadController?.abort();
+  }
+
+  attributeChangedCallback(
+    name: string,
+    oldValue: string | null,
+    newValue: string | null,
+  ): void {
+    if (oldValue === newValue || !this.isConnected) return;
+    if (name === 'resource' && !this._paymentRequired) {
+      void this.load();
+    } else {
+      this.queueRender();
+    }
+  }
+
+  /** Disconnect the wallet and return to the connect state */
+  reset(): void {
+    this.send({ type: 'x402:reset' });
+  }
+
+  /** Set a payment option's amount in atomic units (default: selected option) */
+  setAmount(amount: string, index?: number): void {
+    this.send({ type: 'x402:set-amount', amount, index });
+  }
+
+  /** Select a payment option by its index in `accepts` */
+  selectOption(index: number): void {
+    this.send({ type: 'x402:select-option', index });
+  }
+
+  private send(command: PaywallCommand): void {
+    // The sandboxed frame's origin is opaque, so no other target origin matches
+    this._frame?.contentWindow?.postMessage(command, '*');
+  }
+
+  // Size the frame and re-dispatch its lifecycle events on the element
+  private onMessage = (event: MessageEvent): void => {
+    if (event.source !== this._frame?.contentWindow) return;
+    if (!isPaywallEventMessage(event.data)) return;
+    if (event.data.type === 'x402:resize' && this._frame) {
+      this._frame.style.height = `${event.data.detail.height}px`;
+    }
+    this.dispatchEvent(
+      new CustomEvent(event.data.type, {
+        detail: event.data.detail,
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  };
+
+  private emitError(message: string): void {
+    this.dispatchEvent(
+      new CustomEvent('x402:error', {
+        detail: { message },
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+
+  // Fetch the resource's 402 response for its payment requirements
+  private async load(): Promise<void> {
+    const resource = this.getAttribute('resource');
+    this._loadController?.abort();
+    this._fetchedPaymentRequired = null;
+    if (!resource) {
+      this.queueRender();
+      return;
+    }
+
+    const controller = new AbortController();
+    this._loadController = controller;
+    try {
+      const response = await fetch(resource, {
+        headers: { Accept: 'application/json' },
+        signal: controller.signal,
+      });
+      if (response.status !== 402) {
+        this.emitError(
+          `Resource did not ask for payment (status ${response.status})`,
+        );
+        return;
+      }
+      this._fetchedPaymentRequired = await readPaymentRequired(response);
+      if (!this._fetchedPaymentRequired?.accepts?.length) {
+        this.emitError('Resource returned no payment requirements');
+        return;
+      }
+      this.queueRender();
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      this.emitError(
+        error instanceof Error ? error.message : 'Failed to load resource',
+      );
+    }
+  }
+
+  // Batch attribute and property changes into one render
+  private queueRender(): void {
+    if (this._renderQueued || !this.isConnected) return;
+    this._renderQueued = true;
+    queueMicrotask(() => {
+      this._renderQueued = false;
+      this.render();
+    });
+  }
+
+  private getTheme(): ThemeConfig | ThemeVariants | undefined {
+    if (this._theme) return this._theme;
+    const preset = this.getAttribute('theme');
+    if (!preset || !(preset in THEME_PRESETS)) return undefined;
+    const name = preset as ThemePresetName;
+    return this.hasAttribute('color-scheme')
+      ? THEME_PRESET_VARIANTS[name]
+      : THEME_PRESETS[name];
+  }
+
+  private render(): void {
+    const paymentRequired =
+      this._paymentRequired ?? this._fetchedPaymentRequired;
+    if (!this._frame || !paymentRequired) return;
+
+    // The frame's own URL is about:srcdoc, so give it the absolute resource URL
+    const resource = this.getAttribute('resource');
+    const accepts = paymentRequired.accepts ?? [];
+    let html: string | undefined;
+    for (const requirement of accepts) {
+      const handler = HANDLERS.find((h) => h.supports(requirement));
+      if (!handler) continue;
+
+      const config: PaywallHandlerConfig = {
+        currentUrl: resource
+          ? new URL(resource, document.baseURI).href
+          : undefined,
+        theme: this.getTheme(),
+        colorScheme:
+          (this.getAttribute('color-scheme') as ColorScheme | null) ??
+          undefined,
+        branding: this._branding ?? undefined,
+        appName: this.getAttribute('app-name') ?? undefined,
+        appLogo: this.getAttribute('app-logo') ?? undefined,
+        resourceDescription: this.getAttribute('description') ?? undefined,
+        walletConnectProjectId:
+          this.getAttribute('wallet-connect-project-id') ?? undefined,
+        selfContained: this.hasAttribute('self-contained'),
+        locale: this.getAttribute('locale') ?? undefined,
+        acceptLanguage: navigator.languages.join(','),
+        embedded: true,
+        // Events go to, and commands are taken from, this page only
+        parentOrigins: [window.location.origin],
+      };
+      html = handler.generateHtml(requirement, paymentRequired, config);
+      break;
+    }
+
+    if (!html) {
+      this.emitError('No supported payment option');
+      return;
+    }
+    this._frame.title = this.getAttribute('description') || 'x402 paywall';
+    this._frame.srcdoc = html;
+  }
+}
+
+/**
+ * Register the element (no-op if the tag is already defined or outside a browser)
+ */
+export function defineX402Paywall(tagName: string = X402_PAYWALL_TAG): void {
+  if (typeof customElements === 'undefined' || customElements.get(tagName)) {
+    return;
+  }
+  customElements.define(tagName, X402PaywallElement);
+}
+
+defineX402Paywall();
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'x402-paywall': X402PaywallElement;
+  }
+}
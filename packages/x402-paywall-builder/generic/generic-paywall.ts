@@ -5,27 +5,113 @@
  * Works for any x402 resource type, defaults to Namefi branding.
  */
 
-import { generateGenericPaywallTemplate } from './paywall-template';
 import {
-  CHAIN_CONFIG,
-  NAMEFI_BRANDING,
-  NAMEFI_THEME,
-} from '../shared/constants';
+  generateGenericPaywallDocument,
+  getUnsupportedNetworkDocument,
+} from './paywall-template';
+import { NAMEFI_BRANDING, NAMEFI_THEME } from '../shared/constants';
+import {
+  getChainConfig,
+  getRegisteredChains,
+  toChainIdHex,
+} from '../shared/chains';
+import { fromAtomicAmount, resolveRequirementToken } from '../shared/tokens';
+import { negotiateLocale } from '../shared/i18n';
 import type {
   GenericPaywallConfig,
   PaymentRequirement,
   PaymentRequiredResponse,
+  PaywallDocument,
+  PaywallDocumentHandler,
   PaywallHandlerConfig,
-  PaywallNetworkHandler,
 } from '../shared/types';
 
+/**
+ * Build the page and its recommended Content-Security-Policy header
+ */
+function generateDocument(
+  requirement: PaymentRequirement,
+  paymentRequired: PaymentRequiredResponse,
+  config: PaywallHandlerConfig,
+): PaywallDocument {
+  const network = requirement.network;
+  const chainConfig = getChainConfig(network);
+
+  if (!chainConfig) {
+    return getUnsupportedNetworkDocument(network);
+  }
+
+  // Resolve the payment token (symbol, decimals, EIP-712 domain) from asset/extra
+  const token = resolveRequirementToken(requirement, chainConfig);
+
+  // Parse amount from requirement using the token's decimals
+  const amountInAtomicUnits =
+    requirement.amount ||
+    requirement.maxAmountRequired ||
+    requirement.price ||
+    '0';
+  const amount = fromAtomicAmount(amountInAtomicUnits, token.decimals);
+
+  // Get resource description from payment required response or config
+  const resourceDescription =
+    config.resourceDescription || paymentRequired.resource?.description;
+
+  // Build template config
+  const templateConfig: GenericPaywallConfig = {
+    amount,
+    amountInAtomicUnits,
+    payTo: requirement.payTo || '',
+    token,
+    network,
+    chainId: chainConfig.chainId,
+    chainIdHex: toChainIdHex(chainConfig.chainId),
+    chainName: chainConfig.name,
+    usdcAddress: chainConfig.usdcAddress,
+    rpcUrl: chainConfig.rpcUrl,
+    blockExplorer: chainConfig.blockExplorer,
+    currentUrl: paymentRequired.resource?.url || config.currentUrl || '',
+    testnet: config.testnet ?? chainConfig.testnet ?? false,
+    // Read WalletConnect project ID from environment config
+    walletConnectProjectId: config.walletConnectProjectId || '',
+    paymentRequired,
+    // Registered chain configs for balance checking and chain switching
+    chainConfigs: getRegisteredChains(),
+    // Generic-specific options
+    resourceDescription,
+    successRedirectUrl: config.successRedirectUrl,
+    successRedirectDelaySeconds: config.successRedirectDelaySeconds,
+    successResponseDisplay: config.successResponseDisplay,
+    replayRequest: config.replayRequest,
+    fundingLinks: config.fundingLinks,
+    accessTokenStorage: config.accessTokenStorage,
+    smartWalletDeploymentUrl: config.smartWalletDeploymentUrl,
+    selfContained: config.selfContained,
+    assetBaseUrl: config.assetBaseUrl,
+    cspNonce: config.cspNonce,
+    parentOrigins: config.parentOrigins,
+    embedded: config.embedded,
+    locale: config.locale ?? negotiateLocale(config.acceptLanguage),
+    sections: config.sections,
+    // Theme and branding (use provided or defaults)
+    theme: config.theme || NAMEFI_THEME,
+    colorScheme: config.colorScheme,
+    colorSchemeToggle: config.colorSchemeToggle,
+    branding: config.branding || {
+      appName: config.appName || NAMEFI_BRANDING.appName,
+      appLogo: config.appLogo || NAMEFI_BRANDING.appLogo,
+    },
+  };
+
+  return generateGenericPaywallDocument(templateConfig);
+}
+
 /**
  * Generic EVM Paywall Handler
  *
  * Generates brand-agnostic payment pages for any x402 resource on EVM chains.
  * Defaults to Namefi branding if no custom branding is provided.
  */
-export const genericEvmPaywall: PaywallNetworkHandler = {
+export const genericEvmPaywall: PaywallDocumentHandler = {
   /**
    * Check if this handler supports the given payment requirement
    */
@@ -41,56 +127,12 @@ export const genericEvmPaywall: PaywallNetworkHandler = {
     paymentRequired: PaymentRequiredResponse,
     config: PaywallHandlerConfig,
   ): string {
-    const network = requirement.network;
-    const chainConfig = CHAIN_CONFIG[network];
-
-    if (!chainConfig) {
-      return `<!DOCTYPE html><html><body><h1>Unsupported network: ${network}</h1></body></html>`;
-    }
-
-    // Parse amount from requirement (USDC has 6 decimals)
-    const amountInAtomicUnits =
-      requirement.amount ||
-      requirement.maxAmountRequired ||
-      requirement.price ||
-      '0';
-    const amount = Number.parseFloat(amountInAtomicUnits) / 1e6;
-
-    // Get resource description from payment required response or config
-    const resourceDescription =
-      config.resourceDescription || paymentRequired.resource?.description;
-
-    // Build template config
-    const templateConfig: GenericPaywallConfig = {
-      amount,
-      amountInAtomicUnits,
-      payTo: requirement.payTo || '',
-      network,
-      chainId: chainConfig.chainId,
-      chainIdHex: '0x' + chainConfig.chainId.toString(16),
-      chainName: chainConfig.name,
-      usdcAddress: chainConfig.usdcAddress,
-      rpcUrl: chainConfig.rpcUrl,
-      blockExplorer: chainConfig.blockExplorer,
-      currentUrl: paymentRequired.resource?.url || config.currentUrl || '',
-      testnet: config.testnet ?? network.includes('84532'),
-      // Read WalletConnect project ID from environment config
-      walletConnectProjectId: config.walletConnectProjectId || '',
-      paymentRequired,
-      // Chain configs for balance checking
-      chainConfigs: CHAIN_CONFIG,
-      // Generic-specific options
-      resourceDescription,
-      successRedirectUrl: config.successRedirectUrl,
-      successRedirectDelaySeconds: config.successRedirectDelaySeconds,
-      // Theme and branding (use provided or defaults)
-      theme: config.theme || NAMEFI_THEME,
-      branding: config.branding || {
-        appName: config.appName || NAMEFI_BRANDING.appName,
-        appLogo: config.appLogo || NAMEFI_BRANDING.appLogo,
-      },
-    };
-
-    return generateGenericPaywallTemplate(templateConfig);
+    return generateDocument(requirement, paymentRequired, config).html;
   },
+
+  /**
+   * Generate generic paywall HTML together with the Content-Security-Policy
+   * header to serve it with
+   */
+  generateDocument,
 };
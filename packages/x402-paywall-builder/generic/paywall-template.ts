@@ -5,33 +5,37 @@
  * Defaults to Namefi branding if none provided.
  *
  * Features:
- * - Handles sub-cent amounts (e.g., 0.0025 USDC)
+ * - Handles sub-cent amounts (e.g., 0.0025 USDC) and any token decimals
  * - Displays JSON response via blob URL after payment
+ * - Shows an on-chain receipt (copy, JSON or printable HTML download)
  */
 
-import type { GenericPaywallConfig } from '../shared/types';
+import type {
+  GenericPaywallConfig,
+  PaymentRequiredResponse,
+  PaywallDocument,
+  PaywallSection,
+  ResolvedPaywallConfig,
+} from '../shared/types';
 import {
   NAMEFI_THEME,
   NAMEFI_BRANDING,
   DEFAULT_SUCCESS_REDIRECT_DELAY,
-  DEFAULT_REDIRECT_BTN_LABEL,
   DEFAULT_AUTO_SUCCESS_REDIRECT,
+  USDC_DECIMALS,
+  USDC_SYMBOL,
 } from '../shared/constants';
-import { buildPaywallHtml, escapeHtml } from '../shared/html-builder';
-
-/**
- * Format amount for display, handling sub-cent values
- * - Values >= 0.01: show 2 decimal places (e.g., "1.50")
- * - Values < 0.01: show up to 6 decimal places, trimming trailing zeros (e.g., "0.0025")
- */
-function formatAmount(amount: number): string {
-  if (amount >= 0.01) {
-    return amount.toFixed(2);
-  }
-  // For sub-cent amounts, show up to 6 decimals but trim trailing zeros
-  const formatted = amount.toFixed(6);
-  return formatted.replace(/\.?0+$/, '');
-}
+import { buildPaywallDocument, escapeHtml } from '../shared/html-builder';
+import {
+  getNonceAttribute,
+  getPaywallContentSecurityPolicy,
+} from '../shared/csp';
+import {
+  formatMessage,
+  getLocaleMessages,
+  resolveLocale,
+} from '../shared/i18n';
+import { formatTokenAmount } from '../shared/tokens';
 
 /**
  * Generate generic resource paywall HTML
@@ -39,154 +43,333 @@ function formatAmount(amount: number): string {
 export function generateGenericPaywallTemplate(
   config: GenericPaywallConfig,
 ): string {
-  const theme = config.theme || NAMEFI_THEME;
-  const branding = config.branding || NAMEFI_BRANDING;
-  const redirectDelay =
-    config.successRedirectDelaySeconds ?? DEFAULT_SUCCESS_REDIRECT_DELAY;
-
-  const formattedAmount = formatAmount(config.amount);
-
-  // Resolve redirect options with defaults for backwards compatibility
-  const autoSuccessRedirect =
-    config.autoSuccessRedirect ?? DEFAULT_AUTO_SUCCESS_REDIRECT;
-  const redirectBtnLabel =
-    config.successRedirectBtnLabel ?? DEFAULT_REDIRECT_BTN_LABEL;
-
-  // Include redirect config in the JSON for the frontend script
-  const configWithRedirect = {
-    ...config,
-    successRedirectDelaySeconds: redirectDelay,
-    autoSuccessRedirect,
-    successRedirectBtnLabel: redirectBtnLabel,
-    formattedAmount, // Include for the pay button
-  };
-
-  return buildPaywallHtml({
-    title: `Payment Required${branding.appName ? ` | ${branding.appName}` : ''}`,
-    theme,
-    branding,
-    walletConnectProjectId: config.walletConnectProjectId,
-    configJsonB64: config.forExport 
-      ? '{{payment-config}}': undefined,
+  return generateGenericPaywallDocument(config).html;
+}
 
-    configJson: config.forExport ? undefined : JSON.stringify(configWithRedirect),
-    amount: config.amount,
-    formattedAmount,
-    preview: config.preview,
+/**
+ * URLs the page fetches from: the resource itself and the RPC endpoints of
+ * the accepted payment options
+ */
+function getConnectUrls(config: GenericPaywallConfig): string[] {
+  const paymentRequired = config.paymentRequired as
+    | PaymentRequiredResponse
+    | undefined;
+  const networks = (paymentRequired?.accepts ?? []).map(
+    (requirement) => requirement.network,
+  );
+  return [
+    config.currentUrl,
+    config.rpcUrl,
+    config.smartWalletDeploymentUrl,
+    ...networks.map(
+      (network) =>
+        config.chainConfigs?.[network]?.rpcUrl ??
+        config.solanaClusters?.[network]?.rpcUrl,
+    ),
+  ].filter((url): url is string => !!url);
+}
 
-    headerHtml: `
-      <h1 class="text-xl font-bold text-foreground mb-2">Payment Required</h1>
+/**
+ * Default header: title and resource description
+ */
+function getDefaultHeaderHtml(config: ResolvedPaywallConfig): string {
+  const { messages } = config;
+  return `
+      <h1 class="text-xl font-bold text-foreground mb-2">${escapeHtml(messages.paymentRequired)}</h1>
       <p class="text-muted text-sm">
-        ${escapeHtml(config.resourceDescription || 'Access this resource')}
+        ${escapeHtml(config.resourceDescription || messages.accessResource)}
       </p>
-    `,
+    `;
+}
 
-    priceDisplayHtml: `
+/**
+ * Default price panel: amount, token symbol, network and the price's
+ * validity countdown
+ */
+function getDefaultPriceDisplayHtml(config: ResolvedPaywallConfig): string {
+  const { messages } = config;
+  return `
       <div class="flex items-center justify-between">
-        <span class="text-muted text-sm">Total Amount</span>
+        <span class="text-muted text-sm">${escapeHtml(messages.totalAmount)}</span>
         <div class="text-right">
-          <span id="price-display-amount" class="text-2xl font-bold text-foreground">${formattedAmount}</span>
-          <span class="text-muted ml-1">USDC</span>
+          <span id="price-display-amount" class="text-2xl font-bold text-foreground">${config.formattedAmount}</span>
+          <span id="price-display-symbol" class="text-muted ml-1">${escapeHtml(config.tokenSymbol)}</span>
         </div>
       </div>
       <div class="mt-2 flex items-center justify-end gap-2">
         <div id="chain-indicator" class="w-2 h-2 rounded-full ${config.testnet ? 'bg-yellow-500' : 'bg-brand-primary'}"></div>
-        <span id="chain-name-display" class="text-xs text-muted">${escapeHtml(config.chainName)}${config.testnet ? ' (Testnet)' : ''}</span>
+        <span id="chain-name-display" class="text-xs text-muted">${escapeHtml(config.testnet ? formatMessage(messages.chainTestnet, { chain: config.chainName }) : config.chainName)}</span>
       </div>
-    `,
+      <p id="price-expiry" class="hidden mt-1 text-xs text-muted text-right"></p>
+    `;
+}
 
-    successContentHtml: `
-      <p class="text-foreground font-semibold text-lg">Payment Successful!</p>
-      <div id="success-message" class="text-muted text-sm mt-2">
-        Processing response...
+/**
+ * Default success content: receipt, response viewer, access token, forget
+ * access control and redirect button
+ */
+function getDefaultSuccessContentHtml(config: ResolvedPaywallConfig): string {
+  const { messages } = config;
+  return `
+      <p class="text-foreground font-semibold text-lg">${escapeHtml(messages.paymentSuccessful)}</p>
+      <div id="success-message" class="text-muted text-sm mt-2" aria-live="polite">
+        ${escapeHtml(messages.processingResponse)}
+      </div>
+      <!-- Payment Receipt -->
+      <div id="receipt-container" class="hidden mt-4 text-left">
+        <div class="bg-background rounded-lg border border-border overflow-hidden">
+          <div class="flex items-center justify-between px-3 py-2 border-b border-border">
+            <span class="text-xs text-muted font-medium">${escapeHtml(messages.paymentReceipt)}</span>
+            <div class="flex gap-2">
+              <button id="btn-copy-receipt" data-x402-action="copyReceipt" class="text-xs text-brand-primary hover:underline">${escapeHtml(messages.copy)}</button>
+              <button data-x402-action="downloadReceipt" data-x402-arg="json" aria-label="${escapeHtml(formatMessage(messages.downloadReceiptAs, { format: 'JSON' }))}" class="text-xs text-brand-primary hover:underline">JSON</button>
+              <button data-x402-action="downloadReceipt" data-x402-arg="html" aria-label="${escapeHtml(formatMessage(messages.downloadReceiptAs, { format: 'HTML' }))}" class="text-xs text-brand-primary hover:underline">HTML</button>
+            </div>
+          </div>
+          <dl id="receipt-details" class="px-3 py-2 space-y-2 text-xs"></dl>
+        </div>
       </div>
       <!-- JSON Response Viewer -->
       <div id="json-viewer-container" class="hidden mt-4">
         <div class="bg-background rounded-lg border border-border overflow-hidden">
           <div class="flex items-center justify-between px-3 py-2 border-b border-border">
-            <span class="text-xs text-muted font-medium">Response</span>
+            <span class="text-xs text-muted font-medium">${escapeHtml(messages.response)}</span>
             <div class="flex gap-2">
-              <button id="btn-copy-json" onclick="copyJsonToClipboard()" class="text-xs text-brand-primary hover:underline">Copy</button>
-              <button id="btn-download-json" onclick="downloadJson()" class="text-xs text-brand-primary hover:underline">Download</button>
+              <button id="btn-copy-json" data-x402-action="copyJsonToClipboard" class="text-xs text-brand-primary hover:underline">${escapeHtml(messages.copy)}</button>
+              <button id="btn-download-json" data-x402-action="downloadJson" class="text-xs text-brand-primary hover:underline">${escapeHtml(messages.download)}</button>
             </div>
           </div>
-          <iframe id="json-iframe" class="w-full bg-background" style="height: 300px; border: none;"></iframe>
+          <iframe id="json-iframe" title="${escapeHtml(messages.response)}" sandbox="" class="w-full bg-background" style="height: 300px; border: none;"></iframe>
+        </div>
+      </div>
+      <!-- Viewer for images, PDFs, HTML and text responses -->
+      <div id="content-viewer-container" class="hidden mt-4">
+        <div class="bg-background rounded-lg border border-border overflow-hidden">
+          <div class="flex items-center justify-between px-3 py-2 border-b border-border">
+            <span id="content-viewer-name" class="text-xs text-muted font-medium break-all">${escapeHtml(messages.response)}</span>
+            <button data-x402-action="downloadPaidContent" class="text-xs text-brand-primary hover:underline">${escapeHtml(messages.download)}</button>
+          </div>
+          <div id="content-viewer"></div>
         </div>
       </div>
       <!-- Access Token Display -->
       <div id="access-token-container" class="hidden mt-4">
         <div class="bg-background rounded-lg border border-border p-3">
           <div class="flex items-center justify-between mb-2">
-            <span class="text-xs text-muted font-medium">Access Token</span>
-            <button onclick="copyAccessToken()" class="text-xs text-brand-primary hover:underline">Copy</button>
+            <span class="text-xs text-muted font-medium">${escapeHtml(messages.accessToken)}</span>
+            <button data-x402-action="copyAccessToken" class="text-xs text-brand-primary hover:underline">${escapeHtml(messages.copy)}</button>
           </div>
           <div class="text-xs text-foreground font-mono break-all" id="access-token-value"></div>
-          <p class="text-xs text-muted mt-2">Use this token to access the resource without paying again.</p>
+          <p class="text-xs text-muted mt-2">${escapeHtml(messages.accessTokenHint)}</p>
         </div>
       </div>
+      <!-- Forget the access token stored on this device (shown while one is stored) -->
+      <div id="forget-access-container" class="hidden mt-4">
+        <button id="btn-forget-access" data-x402-action="forgetAccess" class="text-xs text-muted hover:text-foreground underline disabled:cursor-not-allowed">${escapeHtml(messages.forgetAccess)}</button>
+      </div>
       <!-- Redirect Button (shown when autoSuccessRedirect is false) -->
       <div id="redirect-btn-container" class="hidden mt-4">
         <button
           id="btn-redirect"
-          onclick="handleRedirectClick()"
+          data-x402-action="handleRedirectClick"
+          data-x402-primary
           class="w-full bg-brand-primary hover:bg-brand-primary-hover text-white font-semibold py-3 px-4 rounded-lg transition-colors"
         >
-          ${escapeHtml(redirectBtnLabel)}
+          ${escapeHtml(config.successRedirectBtnLabel)}
         </button>
       </div>
-    `,
+    `;
+}
+
+/**
+ * Page served for a requirement on a network with no registered config
+ */
+export function getUnsupportedNetworkDocument(
+  network: string,
+): PaywallDocument {
+  return {
+    html: `<!DOCTYPE html><html><body><h1>Unsupported network: ${escapeHtml(network)}</h1></body></html>`,
+    contentSecurityPolicy: getPaywallContentSecurityPolicy({
+      selfContained: true,
+    }),
+  };
+}
+
+/**
+ * Render a section override, or undefined to keep the default
+ */
+function renderSection(
+  section: PaywallSection | undefined,
+  config: ResolvedPaywallConfig,
+): string | undefined {
+  return typeof section === 'function' ? section(config) : section;
+}
+
+/**
+ * Generate generic resource paywall HTML together with the recommended
+ * Content-Security-Policy header (see `cspNonce`)
+ */
+export function generateGenericPaywallDocument(
+  config: GenericPaywallConfig,
+): PaywallDocument {
+  const theme = config.theme || NAMEFI_THEME;
+  const branding = config.branding || NAMEFI_BRANDING;
+  const redirectDelay =
+    config.successRedirectDelaySeconds ?? DEFAULT_SUCCESS_REDIRECT_DELAY;
+
+  const locale = resolveLocale(config.locale);
+  const messages = getLocaleMessages(locale);
+
+  const tokenSymbol = config.token?.symbol ?? USDC_SYMBOL;
+  const formattedAmount = formatTokenAmount(
+    config.amount,
+    config.token?.decimals ?? USDC_DECIMALS,
+    locale,
+  );
+
+  // Resolve redirect options with defaults for backwards compatibility
+  const autoSuccessRedirect =
+    config.autoSuccessRedirect ?? DEFAULT_AUTO_SUCCESS_REDIRECT;
+  const redirectBtnLabel =
+    config.successRedirectBtnLabel ?? messages.redirectNow;
+
+  // Include redirect config in the JSON for the frontend script
+  const configWithRedirect = {
+    ...config,
+    successRedirectDelaySeconds: redirectDelay,
+    autoSuccessRedirect,
+    successRedirectBtnLabel: redirectBtnLabel,
+    formattedAmount, // Include for the pay button
+    // Exported templates are populated (and so issued) later
+    issuedAt: config.issuedAt ?? (config.forExport ? undefined : Date.now()),
+  };
+
+  const resolved: ResolvedPaywallConfig = {
+    ...configWithRedirect,
+    theme,
+    branding,
+    locale,
+    messages,
+    tokenSymbol,
+  };
+  const sections = config.sections ?? {};
+
+  return buildPaywallDocument({
+    title: `${messages.paymentRequired}${branding.appName ? ` | ${branding.appName}` : ''}`,
+    theme,
+    colorScheme: config.colorScheme,
+    colorSchemeToggle: config.colorSchemeToggle,
+    branding,
+    family: config.family,
+    locale,
+    selfContained: config.selfContained,
+    assetBaseUrl: config.assetBaseUrl,
+    cspNonce: config.cspNonce,
+    parentOrigins: config.parentOrigins,
+    embedded: config.embedded,
+    connectSrc: getConnectUrls(config),
+    walletConnectProjectId: config.walletConnectProjectId,
+    configJsonB64: config.forExport 
+      ? '{{payment-config}}': undefined,
+
+    // Sections are rendered server-side; keep them out of the page config
+    configJson: config.forExport
+      ? undefined
+      : JSON.stringify({ ...configWithRedirect, sections: undefined }),
+    amount: config.amount,
+    formattedAmount,
+    tokenSymbol,
+    preview: config.preview,
+
+    logoHtml: renderSection(sections.logo, resolved),
+    headerHtml:
+      renderSection(sections.header, resolved) ??
+      getDefaultHeaderHtml(resolved),
+    priceDisplayHtml:
+      renderSection(sections.priceDisplay, resolved) ??
+      getDefaultPriceDisplayHtml(resolved),
+    beforeConnectHtml: renderSection(sections.beforeConnect, resolved),
+    successContentHtml:
+      renderSection(sections.successContent, resolved) ??
+      getDefaultSuccessContentHtml(resolved),
+    footerHtml: renderSection(sections.footer, resolved),
 
     onSuccessScript: `
       // Store result globally for copy/download
       window.paymentResult = result;
+      window.paidContent = content;
+
+      // Non-JSON responses can replace the page instead of rendering in it
+      if (
+        content &&
+        config.successResponseDisplay === 'navigate' &&
+        canNavigateToContent(content)
+      ) {
+        navigateToPaidContent(content);
+        return;
+      }
+
+      // Elements below belong to the default success content and may be
+      // missing when it is overridden (sections.successContent)
+      const successMessageEl = document.getElementById('success-message');
+
+      if (receipt) showPaymentReceipt(receipt);
       
       // Check if response contains an access token
-      if (result.accessToken) {
-        document.getElementById('access-token-container').classList.remove('hidden');
-        document.getElementById('access-token-value').textContent = result.accessToken;
+      const accessTokenEl = document.getElementById('access-token-value');
+      if (result?.accessToken && accessTokenEl) {
+        document.getElementById('access-token-container')?.classList.remove('hidden');
+        accessTokenEl.textContent = result.accessToken;
       }
       
-      // Display JSON response via blob URL
-      try {
-        const jsonString = JSON.stringify(result, null, 2);
-        const blob = new Blob([jsonString], { type: 'application/json' });
-        const blobUrl = URL.createObjectURL(blob);
+      if (content) {
+        showPaidContent(content, successMessageEl);
+      } else {
+        // Display JSON response via blob URL
+        try {
+          const jsonString = JSON.stringify(result, null, 2);
+
+          // The iframe can't read this page's theme variables; copy the active palette
+          const rootStyle = getComputedStyle(document.documentElement);
         
-        // Create HTML content for the iframe with syntax highlighting
-        const iframeContent = \`
-          <!DOCTYPE html>
-          <html>
-          <head>
-            <style>
-              body {
-                margin: 0;
-                padding: 12px;
-                font-family: ui-monospace, monospace;
-                font-size: 11px;
-                line-height: 1.5;
-                background: ${theme.background};
-                color: ${theme.foreground};
-                white-space: pre-wrap;
-                word-wrap: break-word;
-              }
-              .string { color: #a5d6a7; }
-              .number { color: #ffcc80; }
-              .boolean { color: #80deea; }
-              .null { color: #ef9a9a; }
-              .key { color: #90caf9; }
-            </style>
-          </head>
-          <body>\${syntaxHighlight(jsonString)}</body>
-          </html>
-        \`;
+          // Create HTML content for the iframe with syntax highlighting
+          const iframeContent = \`
+            <!DOCTYPE html>
+            <html>
+            <head>
+              <style${getNonceAttribute(config.cspNonce)}>
+                body {
+                  margin: 0;
+                  padding: 12px;
+                  font-family: ui-monospace, monospace;
+                  font-size: 11px;
+                  line-height: 1.5;
+                  background: \${rootStyle.getPropertyValue('--x402-background')};
+                  color: \${rootStyle.getPropertyValue('--x402-foreground')};
+                  white-space: pre-wrap;
+                  word-wrap: break-word;
+                }
+                .string { color: #a5d6a7; }
+                .number { color: #ffcc80; }
+                .boolean { color: #80deea; }
+                .null { color: #ef9a9a; }
+                .key { color: #90caf9; }
+              </style>
+            </head>
+            <body>\${syntaxHighlight(jsonString)}</body>
+            </html>
+          \`;
         
-        const iframe = document.getElementById('json-iframe');
-        iframe.srcdoc = iframeContent;
-        document.getElementById('json-viewer-container').classList.remove('hidden');
-        document.getElementById('success-message').textContent = 'Resource accessed successfully!';
-      } catch (e) {
-        console.error('Error displaying JSON:', e);
-        document.getElementById('success-message').textContent = 'Payment successful! Response received.';
+          const iframe = document.getElementById('json-iframe');
+          if (iframe) {
+            iframe.srcdoc = iframeContent;
+            document.getElementById('json-viewer-container')?.classList.remove('hidden');
+          }
+          if (successMessageEl) successMessageEl.textContent = t('resourceAccessed');
+        } catch (e) {
+          console.error('Error displaying JSON:', e);
+          if (successMessageEl) successMessageEl.textContent = t('responseReceived');
+        }
       }
       
       // Build redirect options from static config (defaults for backwards compatibility)
@@ -194,7 +377,7 @@ export function generateGenericPaywallTemplate(
         successRedirectUrl: config.successRedirectUrl,
         successRedirectDelaySeconds: config.successRedirectDelaySeconds || ${redirectDelay},
         autoSuccessRedirect: config.autoSuccessRedirect !== false, // default true
-        successRedirectBtnLabel: config.successRedirectBtnLabel || '${redirectBtnLabel}',
+        successRedirectBtnLabel: config.successRedirectBtnLabel || ${JSON.stringify(redirectBtnLabel)},
       };
 
       // Check for dynamic redirect options from response header (overrides static config)
@@ -214,8 +397,10 @@ export function generateGenericPaywallTemplate(
         if (redirectOpts.autoSuccessRedirect) {
           // Auto-redirect with countdown
           let countdown = redirectOpts.successRedirectDelaySeconds;
-          document.getElementById('success-message').innerHTML += 
-            '<br>Redirecting in <span id="countdown">' + countdown + '</span>s...';
+          if (successMessageEl) {
+            successMessageEl.innerHTML +=
+              '<br>' + tHtml('redirectingIn', { seconds: '<span id="countdown">' + countdown + '</span>' });
+          }
           const countdownEl = document.getElementById('countdown');
           const timer = setInterval(() => {
             countdown--;
@@ -229,18 +414,22 @@ export function generateGenericPaywallTemplate(
           // Show redirect button (no countdown)
           const btnContainer = document.getElementById('redirect-btn-container');
           const btn = document.getElementById('btn-redirect');
-          btn.textContent = redirectOpts.successRedirectBtnLabel;
           window.paywallRedirectUrl = redirectOpts.successRedirectUrl;
-          btnContainer.classList.remove('hidden');
+          if (btnContainer && btn) {
+            btn.textContent = redirectOpts.successRedirectBtnLabel;
+            btnContainer.classList.remove('hidden');
+          }
         }
       }
     `,
 
     // Additional scripts for JSON handling
     additionalScripts: `
-      // Syntax highlighting for JSON
+      // Syntax highlighting for JSON. The response is escaped first: it is
+      // written into the viewer's srcdoc as markup
       function syntaxHighlight(json) {
-        return json.replace(/("(\\\\u[a-zA-Z0-9]{4}|\\\\[^u]|[^\\\\"])*"(\\s*:)?|\\b(true|false|null)\\b|-?\\d+(?:\\.\\d*)?(?:[eE][+\\-]?\\d+)?)/g, function (match) {
+        const escaped = json.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+        return escaped.replace(/("(\\\\u[a-zA-Z0-9]{4}|\\\\[^u]|[^\\\\"])*"(\\s*:)?|\\b(true|false|null)\\b|-?\\d+(?:\\.\\d*)?(?:[eE][+\\-]?\\d+)?)/g, function (match) {
           let cls = 'number';
           if (/^"/.test(match)) {
             if (/:$/.test(match)) {
@@ -266,7 +455,7 @@ export function generateGenericPaywallTemplate(
           navigator.clipboard.writeText(jsonString).then(() => {
             const btn = document.getElementById('btn-copy-json');
             const original = btn.textContent;
-            btn.textContent = 'Copied!';
+            btn.textContent = t('copied');
             setTimeout(() => { btn.textContent = original; }, 2000);
           }).catch(err => {
             console.error('Failed to copy:', err);
@@ -290,6 +479,210 @@ export function generateGenericPaywallTemplate(
         }
       }
       
+      // A blob: URL opened in place of the page runs at the page's origin, so
+      // only types that cannot run script (no HTML, SVG or XML) navigate;
+      // the rest stay in the sandboxed viewer
+      function canNavigateToContent(content) {
+        const type = content.contentType.split(';')[0].trim().toLowerCase();
+        return (
+          (type.startsWith('image/') && type !== 'image/svg+xml') ||
+          type.startsWith('audio/') ||
+          type.startsWith('video/') ||
+          type === 'application/pdf' ||
+          type === 'text/plain'
+        );
+      }
+
+      // Open a paid response in place of the page. The navigation resolves the
+      // blob before the page hides, so the URL can be revoked then
+      function navigateToPaidContent(content) {
+        const url = URL.createObjectURL(content.blob);
+        window.addEventListener('pagehide', () => URL.revokeObjectURL(url), { once: true });
+        window.location.href = url;
+      }
+
+      // Show a non-JSON response: images and PDFs inline, HTML in a sandboxed
+      // frame (no scripts), text as text; anything else is downloaded
+      function showPaidContent(content, successMessageEl) {
+        const type = content.contentType.split(';')[0].trim().toLowerCase();
+        const container = document.getElementById('content-viewer-container');
+        const viewer = document.getElementById('content-viewer');
+        const inline = type.startsWith('image/') || type === 'application/pdf' || type.startsWith('text/');
+
+        if (!inline || !container || !viewer) {
+          downloadPaidContent();
+          if (successMessageEl) successMessageEl.textContent = t('downloadStarted', { filename: content.filename });
+          return;
+        }
+
+        if (type.startsWith('image/')) {
+          const img = document.createElement('img');
+          img.src = URL.createObjectURL(content.blob);
+          img.addEventListener('load', () => URL.revokeObjectURL(img.src), { once: true });
+          img.alt = content.filename;
+          img.className = 'block w-full h-auto';
+          viewer.appendChild(img);
+        } else if (type === 'application/pdf' || type === 'text/html') {
+          const frame = document.createElement('iframe');
+          frame.title = content.filename;
+          frame.className = 'w-full bg-background';
+          frame.style.height = '480px';
+          frame.style.border = 'none';
+          if (type === 'text/html') {
+            frame.setAttribute('sandbox', '');
+            content.blob.text().then(html => { frame.srcdoc = html; });
+          } else {
+            const url = URL.createObjectURL(content.blob);
+            window.addEventListener('pagehide', () => URL.revokeObjectURL(url), { once: true });
+            frame.src = url;
+          }
+          viewer.appendChild(frame);
+        } else {
+          const pre = document.createElement('pre');
+          pre.className = 'text-xs text-foreground font-mono p-3 overflow-auto';
+          pre.style.maxHeight = '300px';
+          pre.style.whiteSpace = 'pre-wrap';
+          pre.style.overflowWrap = 'anywhere';
+          content.blob.text().then(text => { pre.textContent = text; });
+          viewer.appendChild(pre);
+        }
+
+        const nameEl = document.getElementById('content-viewer-name');
+        if (nameEl) nameEl.textContent = content.filename;
+        container.classList.remove('hidden');
+        if (successMessageEl) successMessageEl.textContent = t('resourceAccessed');
+      }
+
+      // Save a non-JSON response under its Content-Disposition filename
+      function downloadPaidContent() {
+        const content = window.paidContent;
+        if (!content) return;
+        const url = URL.createObjectURL(content.blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = content.filename;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+      }
+
+      // Labelled receipt fields in display order; missing ones are left out
+      function getReceiptRows(receipt) {
+        return [
+          { label: t('receiptAmount'), value: receipt.amount + ' ' + receipt.symbol },
+          { label: t('receiptFrom'), value: receipt.payer, mono: true },
+          { label: t('receiptTo'), value: receipt.payee, mono: true },
+          { label: t('receiptNetwork'), value: receipt.networkName },
+          { label: t('receiptTransaction'), value: receipt.txHash, mono: true, href: receipt.explorerUrl },
+          { label: t('receiptTime'), value: new Date(receipt.timestamp).toLocaleString(x402Locale) },
+        ].filter(row => row.value);
+      }
+
+      // Fill the receipt panel; it stays hidden if the success content has none
+      function showPaymentReceipt(receipt) {
+        window.paymentReceipt = receipt;
+        const container = document.getElementById('receipt-container');
+        const details = document.getElementById('receipt-details');
+        if (!container || !details) return;
+
+        details.replaceChildren(...getReceiptRows(receipt).map(row => {
+          const item = document.createElement('div');
+          item.className = 'flex justify-between gap-3';
+          const label = document.createElement('dt');
+          label.className = 'text-muted flex-shrink-0';
+          label.textContent = row.label;
+          const value = document.createElement('dd');
+          value.className = 'text-foreground text-right break-all' + (row.mono ? ' font-mono' : '');
+          if (row.href) {
+            const link = document.createElement('a');
+            link.href = row.href;
+            link.target = '_blank';
+            link.rel = 'noopener noreferrer';
+            link.className = 'text-brand-primary hover:underline';
+            link.textContent = row.value;
+            value.appendChild(link);
+          } else {
+            value.textContent = row.value;
+          }
+          item.append(label, value);
+          return item;
+        }));
+        container.classList.remove('hidden');
+      }
+
+      // Copy the receipt as plain text
+      function copyReceipt() {
+        const receipt = window.paymentReceipt;
+        if (!receipt) return;
+        const lines = getReceiptRows(receipt).map(row => row.label + ': ' + row.value);
+        if (receipt.explorerUrl) lines.push(receipt.explorerUrl);
+        navigator.clipboard.writeText([t('paymentReceipt'), ...lines].join('\\n')).then(() => {
+          const btn = document.getElementById('btn-copy-receipt');
+          if (!btn) return;
+          const original = btn.textContent;
+          btn.textContent = t('copied');
+          setTimeout(() => { btn.textContent = original; }, 2000);
+        }).catch(err => {
+          console.error('Failed to copy receipt:', err);
+        });
+      }
+
+      // Printable standalone receipt, built as a DOM so no value is parsed as markup
+      function getReceiptHtml(receipt) {
+        const doc = document.implementation.createHTMLDocument(t('paymentReceipt'));
+        doc.documentElement.lang = x402Locale;
+        const charset = doc.createElement('meta');
+        charset.setAttribute('charset', 'utf-8');
+        doc.head.prepend(charset);
+        const style = doc.createElement('style');
+        style.textContent =
+          'body { font-family: system-ui, sans-serif; color: #111; max-width: 640px; margin: 40px auto; padding: 0 16px; }' +
+          'table { width: 100%; border-collapse: collapse; }' +
+          'th, td { padding: 8px 0; border-bottom: 1px solid #ddd; text-align: left; vertical-align: top; }' +
+          'th { width: 30%; color: #555; font-weight: normal; }' +
+          'td { word-break: break-all; } a { color: inherit; }';
+        doc.head.appendChild(style);
+
+        const heading = doc.createElement('h1');
+        heading.textContent = t('paymentReceipt');
+        const table = doc.createElement('table');
+        getReceiptRows(receipt).forEach(row => {
+          const tr = table.insertRow();
+          const th = doc.createElement('th');
+          th.textContent = row.label;
+          const td = tr.insertCell();
+          if (row.href) {
+            const link = doc.createElement('a');
+            link.href = row.href;
+            link.textContent = row.value;
+            td.appendChild(link);
+          } else {
+            td.textContent = row.value;
+          }
+          tr.prepend(th);
+        });
+        doc.body.append(heading, table);
+        return '<!DOCTYPE html>\\n' + doc.documentElement.outerHTML;
+      }
+
+      // Download the receipt as JSON or printable HTML
+      function downloadReceipt(format) {
+        const receipt = window.paymentReceipt;
+        if (!receipt) return;
+        const blob = format === 'html'
+          ? new Blob([getReceiptHtml(receipt)], { type: 'text/html' })
+          : new Blob([JSON.stringify(receipt, null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = 'payment-receipt.' + (format === 'html' ? 'html' : 'json');
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+      }
+
       // Copy access token to clipboard
       function copyAccessToken() {
         const token = document.getElementById('access-token-value')?.textContent;
@@ -0,0 +1,141 @@
+/**
+ * Generic Solana Paywall Handler
+ *
+ * Brand-agnostic implementation of PaywallNetworkHandler for `solana:`
+ * networks. Shares the template, themes and branding with the EVM handler,
+ * so EVM and Solana buyers see the same page with different wallets.
+ */
+
+import {
+  generateGenericPaywallDocument,
+  getUnsupportedNetworkDocument,
+} from './paywall-template';
+import { NAMEFI_BRANDING, NAMEFI_THEME } from '../shared/constants';
+import {
+  getRegisteredSolanaClusters,
+  getSolanaClusterConfig,
+  isSolanaNetwork,
+} from '../shared/solana-clusters';
+import { fromAtomicAmount, resolveRequirementToken } from '../shared/tokens';
+import { negotiateLocale } from '../shared/i18n';
+import type {
+  GenericPaywallConfig,
+  PaymentRequirement,
+  PaymentRequiredResponse,
+  PaywallDocument,
+  PaywallDocumentHandler,
+  PaywallHandlerConfig,
+} from '../shared/types';
+
+/**
+ * Build the page and its recommended Content-Security-Policy header
+ */
+function generateDocument(
+  requirement: PaymentRequirement,
+  paymentRequired: PaymentRequiredResponse,
+  config: PaywallHandlerConfig,
+): PaywallDocument {
+  const network = requirement.network;
+  const clusterConfig = getSolanaClusterConfig(network);
+
+  if (!clusterConfig) {
+    return getUnsupportedNetworkDocument(network);
+  }
+
+  // Resolve the payment token (symbol, decimals) from asset/extra, defaulting to USDC
+  const token = resolveRequirementToken(requirement, {
+    usdcAddress: clusterConfig.usdcMint,
+  });
+
+  // Parse amount from requirement using the token's decimals
+  const amountInAtomicUnits =
+    requirement.amount ||
+    requirement.maxAmountRequired ||
+    requirement.price ||
+    '0';
+  const amount = fromAtomicAmount(amountInAtomicUnits, token.decimals);
+
+  // Get resource description from payment required response or config
+  const resourceDescription =
+    config.resourceDescription || paymentRequired.resource?.description;
+
+  // Build template config
+  const templateConfig: GenericPaywallConfig = {
+    family: 'svm',
+    amount,
+    amountInAtomicUnits,
+    payTo: requirement.payTo || '',
+    token,
+    network,
+    // EVM chain fields are unused on Solana
+    chainId: 0,
+    chainIdHex: '0x0',
+    chainName: clusterConfig.name,
+    usdcAddress: clusterConfig.usdcMint,
+    rpcUrl: clusterConfig.rpcUrl,
+    blockExplorer: clusterConfig.blockExplorer,
+    currentUrl: paymentRequired.resource?.url || config.currentUrl || '',
+    testnet: config.testnet ?? clusterConfig.testnet ?? false,
+    paymentRequired,
+    // Registered clusters for balance checking across accepted options
+    solanaClusters: getRegisteredSolanaClusters(),
+    // Generic-specific options
+    resourceDescription,
+    successRedirectUrl: config.successRedirectUrl,
+    successRedirectDelaySeconds: config.successRedirectDelaySeconds,
+    successResponseDisplay: config.successResponseDisplay,
+    replayRequest: config.replayRequest,
+    fundingLinks: config.fundingLinks,
+    accessTokenStorage: config.accessTokenStorage,
+    selfContained: config.selfContained,
+    assetBaseUrl: config.assetBaseUrl,
+    cspNonce: config.cspNonce,
+    parentOrigins: config.parentOrigins,
+    embedded: config.embedded,
+    locale: config.locale ?? negotiateLocale(config.acceptLanguage),
+    sections: config.sections,
+    // Theme and branding (use provided or defaults)
+    theme: config.theme || NAMEFI_THEME,
+    colorScheme: config.colorScheme,
+    colorSchemeToggle: config.colorSchemeToggle,
+    branding: config.branding || {
+      appName: config.appName || NAMEFI_BRANDING.appName,
+      appLogo: config.appLogo || NAMEFI_BRANDING.appLogo,
+    },
+  };
+
+  return generateGenericPaywallDocument(templateConfig);
+}
+
+/**
+ * Generic Solana Paywall Handler
+ *
+ * Generates brand-agnostic payment pages for any x402 resource on Solana.
+ * Buyers connect Phantom or Solflare and sign an SPL transfer that the
+ * facilitator (`extra.feePayer`) co-signs and submits.
+ */
+export const genericSolanaPaywall: PaywallDocumentHandler = {
+  /**
+   * Check if this handler supports the given payment requirement
+   */
+  supports(requirement: PaymentRequirement): boolean {
+    return isSolanaNetwork(requirement.network);
+  },
+
+  /**
+   * Generate generic paywall HTML
+   */
+  generateHtml(
+    requirement: PaymentRequirement,
+    paymentRequired: PaymentRequiredResponse,
+    config: PaywallHandlerConfig,
+  ): string {
+    return generateDocument(requirement, paymentRequired, config).html;
+  },
+
+  /**
+   * Generate generic paywall HTML together with the Content-Security-Policy
+   * header to serve it with
+   */
+  generateDocument,
+};
@@ -3,6 +3,7 @@
  *
  * Provides customizable paywall implementations for x402 protocol payments.
  *
+ * EVM and Solana handlers share the same template, themes and branding.
  * Both default to Namefi branding but support full theme customization.
  *
  * Also includes JWT access token utilities for re-accessing paid resources.
@@ -10,22 +11,43 @@
 
 // Generic paywall (brand-agnostic)
 export { genericEvmPaywall } from './generic/generic-paywall';
-export { generateGenericPaywallTemplate } from './generic/paywall-template';
+export { genericSolanaPaywall } from './generic/solana-paywall';
+export {
+  generateGenericPaywallTemplate,
+  generateGenericPaywallDocument,
+} from './generic/paywall-template';
 
 // Shared types
 export type {
   ThemeConfig,
+  ThemeVariants,
+  ColorScheme,
   BrandingConfig,
+  BrandThemeOptions,
   BasePaywallConfig,
   DomainPaywallConfig,
   GenericPaywallConfig,
   RedirectOptions,
+  PaywallReplayRequest,
+  FundingLinks,
+  AccessTokenStorage,
   PaymentRequirement,
   PaymentRequiredResponse,
   PaywallHandlerConfig,
   PaywallNetworkHandler,
+  PaywallDocumentHandler,
   ChainConfig,
+  SolanaClusterConfig,
+  PaywallFamily,
+  NativeCurrency,
+  TokenConfig,
   PreviewConfig,
+  InlineAsset,
+  InlineAssetSizeReport,
+  PaywallDocument,
+  PaywallSection,
+  PaywallSections,
+  ResolvedPaywallConfig,
 } from './shared/types';
 
 // Shared constants
@@ -33,6 +55,13 @@ export {
   NAMEFI_THEME,
   NAMEFI_BRANDING,
   CHAIN_CONFIG,
+  SOLANA_CLUSTER_CONFIG,
+  SOLANA_MAINNET,
+  SOLANA_DEVNET,
+  DEFAULT_NATIVE_CURRENCY,
+  USDC_SYMBOL,
+  USDC_DECIMALS,
+  DEFAULT_LOCALE,
   DEFAULT_SUCCESS_REDIRECT_DELAY,
   DEFAULT_REDIRECT_BTN_LABEL,
   DEFAULT_AUTO_SUCCESS_REDIRECT,
@@ -40,23 +69,189 @@ export {
   PAYWALL_CONFIG_HEADER,
   PAYWALL_CONFIG_META_NAME,
   PAYWALL_CONFIG_PLACEHOLDER,
+  PAYWALL_EVENT_SOURCE,
+  PAYWALL_REQUEST_ID_HEADER,
+  DEFAULT_REQUEST_STASH_MAX_BODY_BYTES,
+  DEFAULT_REQUEST_STASH_TTL_SECONDS,
+  ERC6492_MAGIC_SUFFIX,
   X402_PROTOCOL_URL,
+  WALLETCONNECT_PROVIDER_SCRIPT,
+  DEFAULT_ACCESS_TOKEN_TTL_SECONDS,
+  DEFAULT_ACCESS_TOKEN_HEADER,
+  ACCESS_TOKEN_SECRET_ENV,
   THEME_PRESETS,
+  THEME_PRESET_BRANDS,
+  THEME_PRESET_VARIANTS,
   COINBASE_BRANDING,
 } from './shared/constants';
 
 // Export theme preset name type
 export type { ThemePresetName } from './shared/constants';
 
+// EVM chain registry
+export {
+  registerChain,
+  getChainConfig,
+  getChainConfigByChainId,
+  getRegisteredChains,
+  toEvmNetwork,
+  toChainIdHex,
+} from './shared/chains';
+
+// Solana cluster registry
+export {
+  registerSolanaCluster,
+  getSolanaClusterConfig,
+  getRegisteredSolanaClusters,
+  isSolanaNetwork,
+} from './shared/solana-clusters';
+
+// Payment token helpers
+export {
+  getUsdcToken,
+  resolveRequirementToken,
+  toAtomicAmount,
+  fromAtomicAmount,
+  formatTokenAmount,
+} from './shared/tokens';
+
 // HTML builder utilities
 export {
   buildPaywallHtml,
+  buildPaywallDocument,
   escapeHtml,
   populateMetaTagPaywallConfig,
 } from './shared/html-builder';
 
+// Page assets (CSS and wallet runtime), loaded by integrity hash or inlined
+export {
+  PAYWALL_ASSETS_CDN_URL,
+  getExternalStyles,
+  getExternalRuntimeScript,
+  getPaywallAsset,
+  getInlineStyles,
+  getInlineRuntimeScript,
+  getInlineAssetSizeReport,
+} from './shared/inline-assets';
+
+// Content Security Policy (nonce'd pages)
+export {
+  getPaywallContentSecurityPolicy,
+  getNonceAttribute,
+} from './shared/csp';
+export type { ContentSecurityPolicyOptions } from './shared/csp';
+
+// Theme accessibility (WCAG contrast)
+export {
+  analyzeTheme,
+  suggestAccessibleTheme,
+  parseCssColor,
+  getContrastRatio,
+} from './shared/theme-analysis';
+export { createThemeFromBrand, isThemeVariants } from './shared/styles';
+export type {
+  ThemeAnalysis,
+  ThemeContrastCheck,
+  ThemeIssue,
+  ThemeIssueCode,
+  ThemeColorKey,
+  WcagLevel,
+  RgbaColor,
+} from './shared/theme-analysis';
+
+// Lifecycle events for embedded pages
+export { isPaywallEventMessage } from './shared/events';
+
+// EVM payment flow for native checkout UIs (and the pages' payment runtime)
+export {
+  requestEvmAccount,
+  switchEvmChain,
+  signEvmPayment,
+  submitX402Payment,
+  readPaymentResponse,
+  getEvmTokenBalance,
+  isUserRejection,
+  getEvmSignatureKind,
+  isDeployedContract,
+  fetchSmartWalletDeployment,
+  wrapErc6492Signature,
+} from './shared/evm-payment';
+export type {
+  Eip1193Provider,
+  EvmPaymentPayload,
+  EvmSignatureKind,
+  PaymentSubmissionResult,
+  SignEvmPaymentOptions,
+  SmartWalletDeployment,
+  SubmitX402PaymentOptions,
+} from './shared/evm-payment';
+export type {
+  PaywallEventType,
+  PaywallEventDetails,
+  PaywallEventMessage,
+  PaywallCommand,
+  PaywallSettlement,
+} from './shared/events';
+
+// Custom template validation
+export { validatePaywallTemplate } from './shared/template-validator';
+export type {
+  TemplateIssue,
+  TemplateIssueCode,
+  TemplateValidationOptions,
+  TemplateValidationResult,
+} from './shared/template-validator';
+
+// Localization
+export {
+  registerLocale,
+  getRegisteredLocales,
+  resolveLocale,
+  negotiateLocale,
+  getLocaleMessages,
+  formatMessage,
+  getLocalizationScript,
+} from './shared/i18n';
+export type { PaywallMessageId, PaywallMessages } from './shared/i18n';
+export { EN_MESSAGES } from './shared/locales/en';
+export { ES_MESSAGES } from './shared/locales/es';
+export { ZH_MESSAGES } from './shared/locales/zh';
+export { JA_MESSAGES } from './shared/locales/ja';
+export { PT_BR_MESSAGES } from './shared/locales/pt-BR';
+
 // Script utilities (for advanced use cases)
-export { getConfigResolutionScript } from './shared/scripts';
+export {
+  getConfigResolutionScript,
+  getActionListenerScript,
+} from './shared/scripts';
+
+// JWT access tokens (server-side)
+export {
+  generateAccessToken,
+  verifyAccessToken,
+  tokenMatchesResource,
+  tokenMatchesResourceUrl,
+} from './shared/jwt-access';
+export type {
+  X402AccessTokenPayload,
+  AccessTokenOptions,
+  AccessTokenVerifyResult,
+} from './shared/jwt-access';
+
+// Replaying the original request on paid retries (server-side)
+export {
+  capturePaywallRequest,
+  restorePaywallRequest,
+  releasePaywallRequest,
+  renewPaywallRequest,
+  createMemoryRequestStore,
+} from './shared/request-stash';
+export type {
+  CapturePaywallRequestOptions,
+  RestorePaywallRequestOptions,
+  PaywallRequestStore,
+  StashedPaywallRequest,
+} from './shared/request-stash';
 
 // Backwards compatibility: re-export DomainPaywallConfig as PaywallTemplateConfig
 export type { DomainPaywallConfig as PaywallTemplateConfig } from './shared/types';
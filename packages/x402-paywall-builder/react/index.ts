@@ -0,0 +1,12 @@
+/**
+ * React bindings for the paywall builder
+ */
+
+export { PaywallPreview } from './paywall-preview';
+export type { PaywallPreviewProps } from './paywall-preview';
+export { usePaywallPayment } from './use-paywall-payment';
+export type {
+  PaywallPayment,
+  PaywallPaymentStatus,
+  UsePaywallPaymentOptions,
+} from './use-paywall-payment';
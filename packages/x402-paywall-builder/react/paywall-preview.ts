@@ -0,0 +1,71 @@
+'use client';
+
+/**
+ * Paywall page rendered into an iframe
+ */
+
+import {
+  createElement,
+  useEffect,
+  useMemo,
+  useRef,
+  type CSSProperties,
+} from 'react';
+import { generateGenericPaywallTemplate } from '../generic/paywall-template';
+import { isPaywallEventMessage, type PaywallEventMessage } from '../shared/events';
+import type { GenericPaywallConfig } from '../shared/types';
+
+export interface PaywallPreviewProps {
+  /** Page config, as for generateGenericPaywallTemplate. Memoize it to avoid rebuilding the page each render */
+  config: GenericPaywallConfig;
+  /** Lifecycle events from the page. Not sent in preview mode; needs the host origin in `config.parentOrigins` */
+  onEvent?: (message: PaywallEventMessage) => void;
+  className?: string;
+  style?: CSSProperties;
+  /** Accessible name of the iframe. Default: "Paywall Preview" */
+  title?: string;
+}
+
+/**
+ * Render a paywall page in an iframe, rebuilding it when `config` changes.
+ *
+ * @example
+ * ```tsx
+ * const config = useMemo(() => ({ ...baseConfig, theme }), [theme]);
+ * return <PaywallPreview config={config} className="w-full h-[640px]" />;
+ * ```
+ */
+export function PaywallPreview({
+  config,
+  onEvent,
+  className,
+  style,
+  title = 'Paywall Preview',
+}: PaywallPreviewProps) {
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const html = useMemo(() => generateGenericPaywallTemplate(config), [config]);
+
+  // Keep the latest callback without re-subscribing on every render
+  const onEventRef = useRef(onEvent);
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  });
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== frameRef.current?.contentWindow) return;
+      if (isPaywallEventMessage(event.data)) onEventRef.current?.(event.data);
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  // createElement rather than JSX, so the entry needs no JSX transform
+  return createElement('iframe', {
+    ref: frameRef,
+    srcDoc: html,
+    title,
+    className,
+    style: { border: 0, display: 'block', ...style },
+  });
+}
@@ -0,0 +1,268 @@
+'use client';
+
+/**
+ * Connect/sign/submit flow as React state, for native checkout UIs
+ */
+
+import { useCallback, useMemo, useRef, useState } from 'react';
+import { getChainConfig } from '../shared/chains';
+import {
+  isUserRejection,
+  requestEvmAccount,
+  signEvmPayment,
+  submitX402Payment,
+  switchEvmChain,
+  type Eip1193Provider,
+  type SmartWalletDeployment,
+} from '../shared/evm-payment';
+import type { PaywallSettlement } from '../shared/events';
+import {
+  formatMessage,
+  getLocaleMessages,
+  type PaywallMessages,
+} from '../shared/i18n';
+import type {
+  PaymentRequiredResponse,
+  PaymentRequirement,
+  PaywallReplayRequest,
+} from '../shared/types';
+
+export type PaywallPaymentStatus =
+  | 'idle'
+  | 'connecting'
+  | 'connected'
+  | 'switching-chain'
+  | 'signing'
+  | 'submitting'
+  | 'success'
+  | 'error';
+
+export interface UsePaywallPaymentOptions {
+  /** The resource's 402 response */
+  paymentRequired: PaymentRequiredResponse | null | undefined;
+  /** URL to submit the payment to. Default: `paymentRequired.resource.url` */
+  resourceUrl?: string;
+  /** EIP-1193 provider. Default: `window.ethereum` */
+  provider?: Eip1193Provider;
+  /** Request to replay with the payment (see capturePaywallRequest). Default: GET */
+  replay?: PaywallReplayRequest;
+  /** Body to send with the paid request, when it was not stashed */
+  body?: BodyInit;
+  /** Deployment data for undeployed smart wallets (see signEvmPayment) */
+  resolveDeployment?: (account: string) => Promise<SmartWalletDeployment | null>;
+  /** Locale of the error messages (see registerLocale). Default: 'en' */
+  locale?: string;
+  /** Overrides for individual messages of the locale */
+  messages?: Partial<PaywallMessages>;
+}
+
+export interface PaywallPayment {
+  status: PaywallPaymentStatus;
+  /** Connected wallet address */
+  address: string | null;
+  /** Index in `paymentRequired.accepts` of the option to pay with */
+  selectedIndex: number;
+  selectedRequirement: PaymentRequirement | null;
+  /** Error message in the 'error' status, in the hook's locale */
+  error: string | null;
+  /** Whether the error was the buyer rejecting a wallet request */
+  cancelled: boolean;
+  /** Resource response after a successful payment (a Blob unless it is JSON) */
+  result: unknown;
+  settlement: PaywallSettlement | null;
+  txHash: string | null;
+  connect: () => Promise<void>;
+  selectOption: (index: number) => void;
+  pay: () => Promise<void>;
+  /** Forget the wallet and payment and return to 'idle' */
+  reset: () => void;
+}
+
+interface PaymentState {
+  status: PaywallPaymentStatus;
+  address: string | null;
+  selectedIndex: number | null;
+  error: string | null;
+  cancelled: boolean;
+  result: unknown;
+  settlement: PaywallSettlement | null;
+}
+
+const INITIAL_STATE: PaymentState = {
+  status: 'idle',
+  address: null,
+  selectedIndex: null,
+  error: null,
+  cancelled: false,
+  result: null,
+  settlement: null,
+};
+
+function getDefaultProvider(): Eip1193Provider | undefined {
+  if (typeof window === 'undefined') return undefined;
+  return (window as unknown as { ethereum?: Eip1193Provider }).ethereum;
+}
+
+/**
+ * Pay an x402 resource with an injected EVM wallet, using the same
+ * EIP-3009 signing as the generated paywall pages.
+ *
+ * @example
+ * ```tsx
+ * const payment = usePaywallPayment({ paymentRequired });
+ * if (payment.status === 'idle') return <button onClick={payment.connect}>Connect</button>;
+ * if (payment.status === 'connected') return <button onClick={payment.pay}>Pay</button>;
+ * if (payment.status === 'success') return <pre>{JSON.stringify(payment.result)}</pre>;
+ * ```
+ */
+export function usePaywallPayment({
+  paymentRequired,
+  resourceUrl,
+  provider,
+  replay,
+  body,
+  resolveDeployment,
+  locale,
+  messages: messageOverrides,
+}: UsePaywallPaymentOptions): PaywallPayment {
+  const [state, setState] = useState<PaymentState>(INITIAL_STATE);
+  const messages = useMemo<PaywallMessages>(
+    () => ({ ...getLocaleMessages(locale), ...messageOverrides }),
+    [locale, messageOverrides],
+  );
+  // Requests from before a reset must not update state afterwards
+  const generation = useRef(0);
+
+  const accepts = useMemo(
+    () => paymentRequired?.accepts ?? [],
+    [paymentRequired],
+  );
+  // Default to the first option on a registered EVM chain
+  const selectedIndex =
+    state.selectedIndex ??
+    Math.max(
+      accepts.findIndex((requirement) => getChainConfig(requirement.network)),
+      0,
+    );
+  const selectedRequirement = accepts[selectedIndex] ?? null;
+
+  // Rejections get the message for the step the buyer cancelled
+  const fail = useCallback(
+    (error: unknown, rejectedMessage: string = messages.transactionRejected) => {
+      const cancelled = isUserRejection(error);
+      setState((current) => ({
+        ...current,
+        status: 'error',
+        error: cancelled
+          ? rejectedMessage
+          : error instanceof Error && error.message
+            ? error.message
+            : messages.paymentFailedRetry,
+        cancelled,
+      }));
+    },
+    [messages],
+  );
+
+  const connect = useCallback(async () => {
+    const wallet = provider ?? getDefaultProvider();
+    if (!wallet) {
+      fail(new Error(messages.noWalletDetected));
+      return;
+    }
+    const current = generation.current;
+    setState((s) => ({ ...s, status: 'connecting', error: null, cancelled: false }));
+    try {
+      const address = await requestEvmAccount(wallet);
+      if (current !== generation.current) return;
+      setState((s) => ({ ...s, status: 'connected', address }));
+    } catch (error) {
+      if (current === generation.current) fail(error, messages.connectionRejected);
+    }
+  }, [provider, messages, fail]);
+
+  const selectOption = useCallback(
+    (index: number) => {
+      if (!accepts[index]) return;
+      setState((s) => ({ ...s, selectedIndex: index }));
+    },
+    [accepts],
+  );
+
+  const pay = useCallback(async () => {
+    const wallet = provider ?? getDefaultProvider();
+    const url = resourceUrl ?? paymentRequired?.resource?.url;
+    if (!wallet || !state.address) {
+      fail(new Error(messages.walletNotConnected));
+      return;
+    }
+    if (!selectedRequirement || !url) {
+      fail(new Error(messages.noPaymentOptions));
+      return;
+    }
+    const chain = getChainConfig(selectedRequirement.network);
+    if (!chain) {
+      fail(
+        new Error(
+          formatMessage(messages.unsupportedNetwork, {
+            network: selectedRequirement.network,
+          }),
+        ),
+      );
+      return;
+    }
+
+    const current = generation.current;
+    const update = (next: Partial<PaymentState>) => {
+      if (current === generation.current) setState((s) => ({ ...s, ...next }));
+    };
+    try {
+      update({ status: 'switching-chain', error: null, cancelled: false });
+      await switchEvmChain(wallet, chain);
+
+      update({ status: 'signing' });
+      const payload = await signEvmPayment(
+        wallet,
+        state.address,
+        selectedRequirement,
+        {
+          paymentRequired: paymentRequired ?? undefined,
+          chain,
+          resolveDeployment,
+          messages,
+        },
+      );
+
+      update({ status: 'submitting' });
+      const { result, settlement } = await submitX402Payment(url, payload, {
+        replay,
+        body,
+        messages,
+      });
+      update({ status: 'success', result, settlement });
+    } catch (error) {
+      if (current === generation.current) fail(error);
+    }
+  }, [provider, resourceUrl, paymentRequired, replay, body, resolveDeployment, messages, state.address, selectedRequirement, fail]);
+
+  const reset = useCallback(() => {
+    generation.current += 1;
+    setState(INITIAL_STATE);
+  }, []);
+
+  return {
+    status: state.status,
+    address: state.address,
+    selectedIndex,
+    selectedRequirement,
+    error: state.error,
+    cancelled: state.cancelled,
+    result: state.result,
+    settlement: state.settlement,
+    txHash: state.settlement?.transaction || state.settlement?.txHash || null,
+    connect,
+    selectOption,
+    pay,
+    reset,
+  };
+}
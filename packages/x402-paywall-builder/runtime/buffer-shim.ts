@@ -0,0 +1,11 @@
+/**
+ * Node Buffer global for the Solana runtime
+ *
+ * @solana/spl-token references the global `Buffer` at call time, which a
+ * plain bundle does not provide. Imported first so it is in place
+ * before the Solana modules evaluate.
+ */
+
+import { Buffer } from 'buffer';
+
+(globalThis as { Buffer?: typeof Buffer }).Buffer ??= Buffer;
@@ -0,0 +1,159 @@
+/**
+ * Build assets for paywall pages
+ *
+ * Bundles the payment runtime (./payment-runtime.ts) and the wallet runtimes
+ * (./evm-runtime.ts, ./solana-runtime.ts) and compiles the Tailwind utilities used by the templates (./paywall.css).
+ * Each asset is written to ../dist/ (loaded by pages with its integrity hash)
+ * and into ../shared/inline-assets.generated.ts (inlined by self-contained
+ * pages), then a size report is printed.
+ *
+ * The output is not committed: it is written by the package's `build` and
+ * `prepare` scripts. Run it again after changing template markup or runtime
+ * dependencies:
+ *   bun run build:inline
+ */
+
+import { build } from 'esbuild';
+import { compile, optimize } from '@tailwindcss/node';
+import { Scanner } from '@tailwindcss/oxide';
+import { createHash } from 'node:crypto';
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { gzipSync } from 'node:zlib';
+
+const runtimeDir = dirname(fileURLToPath(import.meta.url));
+const packageDir = join(runtimeDir, '..');
+const outFile = join(packageDir, 'shared', 'inline-assets.generated.ts');
+const distDir = join(packageDir, 'dist');
+
+/**
+ * Bundle and minify a runtime entry into a classic (non-module) script
+ */
+async function bundleRuntime(entry: string): Promise<string> {
+  const result = await build({
+    entryPoints: [join(runtimeDir, entry)],
+    bundle: true,
+    minify: true,
+    format: 'iife',
+    platform: 'browser',
+    target: 'es2020',
+    legalComments: 'none',
+    write: false,
+    define: { 'process.env.NODE_ENV': '"production"' },
+  });
+  const output = result.outputFiles[0];
+  if (!output) {
+    throw new Error(`No output for ${entry}`);
+  }
+  return output.text;
+}
+
+/**
+ * Compile only the Tailwind utilities the templates and scripts use
+ */
+async function compileCss(): Promise<string> {
+  const input = readFileSync(join(runtimeDir, 'paywall.css'), 'utf8');
+  const compiler = await compile(input, {
+    base: runtimeDir,
+    onDependency: () => {},
+  });
+  const scanner = new Scanner({
+    sources: [
+      { base: packageDir, pattern: 'generic/**/*.ts', negated: false },
+      { base: packageDir, pattern: 'shared/**/*.ts', negated: false },
+      {
+        base: packageDir,
+        pattern: 'shared/inline-assets.generated.ts',
+        negated: true,
+      },
+    ],
+  });
+  return optimize(compiler.build(scanner.scan()), { minify: true }).code;
+}
+
+/**
+ * Describe an asset, escaping sequences that would end its <style>/<script>
+ * early. The dist/ file holds the same code, so one integrity hash fits both.
+ */
+function toAsset(code: string, tag: 'style' | 'script', file: string) {
+  const escaped = code
+    .replace(new RegExp(`</${tag}`, 'gi'), `<\\/${tag}`)
+    .replace(/<!--/g, '<\\!--');
+  return {
+    code: escaped,
+    file,
+    integrity: `sha384-${createHash('sha384').update(escaped).digest('base64')}`,
+    bytes: Buffer.byteLength(escaped),
+    gzipBytes: gzipSync(escaped).length,
+  };
+}
+
+/**
+ * jsDelivr URL of this package version's dist/ directory
+ */
+function getCdnUrl(): string {
+  const { name, version } = JSON.parse(
+    readFileSync(join(packageDir, 'package.json'), 'utf8'),
+  ) as { name: string; version: string };
+  return `https://cdn.jsdelivr.net/npm/${name}@${version}/dist/`;
+}
+
+async function main() {
+  const assets = {
+    INLINE_CSS: toAsset(await compileCss(), 'style', 'paywall.css'),
+    PAYMENT_RUNTIME: toAsset(
+      await bundleRuntime('payment-runtime.ts'),
+      'script',
+      'payment-runtime.js',
+    ),
+    EVM_RUNTIME: toAsset(await bundleRuntime('evm-runtime.ts'), 'script', 'evm-runtime.js'),
+    SOLANA_RUNTIME: toAsset(
+      await bundleRuntime('solana-runtime.ts'),
+      'script',
+      'solana-runtime.js',
+    ),
+  };
+
+  mkdirSync(distDir, { recursive: true });
+  for (const asset of Object.values(assets)) {
+    writeFileSync(join(distDir, asset.file), asset.code);
+  }
+
+  const declarations = Object.entries(assets)
+    .map(
+      ([name, asset]) =>
+        `export const ${name}: InlineAsset = {\n  code: ${JSON.stringify(asset.code)},\n  file: ${JSON.stringify(asset.file)},\n  integrity: ${JSON.stringify(asset.integrity)},\n  bytes: ${asset.bytes},\n  gzipBytes: ${asset.gzipBytes},\n};\n`,
+    )
+    .join('\n');
+
+  writeFileSync(
+    outFile,
+    `/**
+ * Paywall page assets
+ *
+ * GENERATED by runtime/build.ts - do not edit or commit. Run \`bun run build:inline\`.
+ */
+
+import type { InlineAsset } from './types';
+
+/** Where pages load the assets from by default */
+export const PAYWALL_ASSETS_CDN_URL = ${JSON.stringify(getCdnUrl())};
+
+${declarations}`,
+  );
+
+  console.table(
+    Object.fromEntries(
+      Object.entries(assets).map(([name, asset]) => [
+        name,
+        { bytes: asset.bytes, gzipBytes: asset.gzipBytes },
+      ]),
+    ),
+  );
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,35 @@
+/**
+ * EVM wallet runtime for paywall pages
+ *
+ * Bundled and minified by ./build.ts and inlined into every EVM page, so no
+ * unpinned viem build is loaded from a CDN. Exposes viem on window.
+ */
+
+import {
+  getAddress,
+  toHex,
+  createWalletClient,
+  createPublicClient,
+  http,
+  parseAbi,
+  formatUnits,
+  custom,
+} from 'viem';
+
+const w = window as unknown as Record<string, unknown>;
+
+w.viem = {
+  getAddress,
+  toHex,
+  createWalletClient,
+  createPublicClient,
+  http,
+  parseAbi,
+  formatUnits,
+  custom,
+};
+w.viemGetAddress = getAddress;
+w.viemToHex = toHex;
+w.viemCreateWalletClient = createWalletClient;
+w.viemCustom = custom;
+window.dispatchEvent(new Event('viem-loaded'));
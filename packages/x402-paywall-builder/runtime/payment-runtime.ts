@@ -0,0 +1,30 @@
+/**
+ * Payment runtime for paywall pages
+ *
+ * Bundled by ./build.ts and loaded by every page ahead of the wallet
+ * runtime, so the page scripts sign and submit payments with the same code
+ * as native checkout UIs (../shared/evm-payment.ts). Exposes it on window as
+ * `x402Payment`.
+ *
+ * The page passes the chain, token and its message pack with every call, so
+ * only the resolved variants are bundled: no chain registry, theme presets
+ * or English pack.
+ */
+
+import {
+  fetchSmartWalletDeployment,
+  readPaymentResponse,
+  signResolvedEvmPayment,
+  submitResolvedX402Payment,
+  switchEvmChain,
+} from '../shared/evm-payment';
+
+const w = window as unknown as Record<string, unknown>;
+
+w.x402Payment = {
+  fetchSmartWalletDeployment,
+  readPaymentResponse,
+  signEvmPayment: signResolvedEvmPayment,
+  submitX402Payment: submitResolvedX402Payment,
+  switchEvmChain,
+};
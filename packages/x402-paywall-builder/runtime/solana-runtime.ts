@@ -0,0 +1,41 @@
+/**
+ * Solana wallet runtime for paywall pages
+ *
+ * Bundled and minified by ./build.ts and inlined into every Solana page, so
+ * no unpinned build is loaded from a CDN. Exposes web3.js and spl-token on
+ * window.
+ */
+
+import './buffer-shim';
+import {
+  Connection,
+  PublicKey,
+  ComputeBudgetProgram,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import {
+  getAssociatedTokenAddressSync,
+  createTransferCheckedInstruction,
+  getMint,
+  TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+} from '@solana/spl-token';
+
+const w = window as unknown as Record<string, unknown>;
+
+w.solanaWeb3 = {
+  Connection,
+  PublicKey,
+  ComputeBudgetProgram,
+  TransactionMessage,
+  VersionedTransaction,
+};
+w.splToken = {
+  getAssociatedTokenAddressSync,
+  createTransferCheckedInstruction,
+  getMint,
+  TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+};
+window.dispatchEvent(new Event('solana-loaded'));
@@ -0,0 +1,74 @@
+/**
+ * EVM chain registry for x402 paywall system
+ *
+ * Single source of truth for chain knowledge (chain ID, USDC address, RPC,
+ * explorer). The paywall scripts build their viem chain definitions from the
+ * registered `ChainConfig`, so registering a chain here is all that is needed
+ * to accept payments on it.
+ */
+
+import type { ChainConfig } from './types';
+import { CHAIN_CONFIG } from './constants';
+
+/**
+ * Register (or replace) an EVM chain under its CAIP-2 network ID.
+ *
+ * @example
+ * ```typescript
+ * registerChain('eip155:11155111', {
+ *   chainId: 11155111,
+ *   name: 'Sepolia',
+ *   usdcAddress: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238',
+ *   rpcUrl: 'https://ethereum-sepolia-rpc.publicnode.com',
+ *   blockExplorer: 'https://sepolia.etherscan.io',
+ *   testnet: true,
+ * });
+ * ```
+ */
+export function registerChain(network: string, config: ChainConfig): void {
+  const expectedNetwork = toEvmNetwork(config.chainId);
+  if (network !== expectedNetwork) {
+    throw new Error(
+      `Network ${network} does not match chainId ${config.chainId} (expected ${expectedNetwork})`,
+    );
+  }
+  CHAIN_CONFIG[network] = config;
+}
+
+/**
+ * Get the chain config for a CAIP-2 network ID (e.g. `eip155:8453`)
+ */
+export function getChainConfig(network: string): ChainConfig | undefined {
+  return CHAIN_CONFIG[network];
+}
+
+/**
+ * Get the chain config for a numeric chain ID
+ */
+export function getChainConfigByChainId(
+  chainId: number,
+): ChainConfig | undefined {
+  return CHAIN_CONFIG[toEvmNetwork(chainId)];
+}
+
+/**
+ * Snapshot of all registered chains, keyed by network ID.
+ * Suitable for `chainConfigs` in paywall configs.
+ */
+export function getRegisteredChains(): Record<string, ChainConfig> {
+  return { ...CHAIN_CONFIG };
+}
+
+/**
+ * Build the CAIP-2 network ID for an EVM chain ID
+ */
+export function toEvmNetwork(chainId: number): `eip155:${number}` {
+  return `eip155:${chainId}`;
+}
+
+/**
+ * Hex-encode a chain ID (e.g. `8453` -> `0x2105`)
+ */
+export function toChainIdHex(chainId: number): string {
+  return `0x${chainId.toString(16)}`;
+}
@@ -2,7 +2,15 @@
  * Shared constants for x402 paywall system
  */
 
-import type { ThemeConfig, BrandingConfig, ChainConfig } from './types';
+import type {
+  ThemeConfig,
+  BrandingConfig,
+  BrandThemeOptions,
+  ThemeVariants,
+  ChainConfig,
+  NativeCurrency,
+  SolanaClusterConfig,
+} from './types';
 
 /**
  * Namefi dark theme (default)
@@ -28,7 +36,19 @@ export const NAMEFI_BRANDING: BrandingConfig = {
 };
 
 /**
- * Supported EVM chain configurations
+ * Default native currency for EVM chains
+ */
+export const DEFAULT_NATIVE_CURRENCY: NativeCurrency = {
+  name: 'Ether',
+  symbol: 'ETH',
+  decimals: 18,
+};
+
+/**
+ * Built-in EVM chain registry, keyed by CAIP-2 network ID.
+ *
+ * Use `registerChain` / `getChainConfig` from `./chains` to add or look up
+ * chains; they read and write this object.
  */
 export const CHAIN_CONFIG: Record<string, ChainConfig> = {
   'eip155:8453': {
@@ -44,9 +64,104 @@ export const CHAIN_CONFIG: Record<string, ChainConfig> = {
     usdcAddress: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
     rpcUrl: 'https://sepolia.base.org',
     blockExplorer: 'https://sepolia.basescan.org',
+    testnet: true,
+  },
+  'eip155:1': {
+    chainId: 1,
+    name: 'Ethereum',
+    usdcAddress: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+    rpcUrl: 'https://ethereum-rpc.publicnode.com',
+    blockExplorer: 'https://etherscan.io',
+  },
+  'eip155:42161': {
+    chainId: 42161,
+    name: 'Arbitrum One',
+    usdcAddress: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831',
+    rpcUrl: 'https://arb1.arbitrum.io/rpc',
+    blockExplorer: 'https://arbiscan.io',
+  },
+  'eip155:10': {
+    chainId: 10,
+    name: 'OP Mainnet',
+    usdcAddress: '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85',
+    rpcUrl: 'https://mainnet.optimism.io',
+    blockExplorer: 'https://optimistic.etherscan.io',
+  },
+  'eip155:137': {
+    chainId: 137,
+    name: 'Polygon',
+    usdcAddress: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359',
+    rpcUrl: 'https://polygon-rpc.com',
+    blockExplorer: 'https://polygonscan.com',
+    nativeCurrency: { name: 'POL', symbol: 'POL', decimals: 18 },
+  },
+  'eip155:43114': {
+    chainId: 43114,
+    name: 'Avalanche',
+    usdcAddress: '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E',
+    rpcUrl: 'https://api.avax.network/ext/bc/C/rpc',
+    blockExplorer: 'https://snowtrace.io',
+    nativeCurrency: { name: 'Avalanche', symbol: 'AVAX', decimals: 18 },
+  },
+};
+
+/**
+ * Solana mainnet network ID (CAIP-2, genesis hash prefix)
+ */
+export const SOLANA_MAINNET = 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp';
+
+/**
+ * Solana devnet network ID (CAIP-2, genesis hash prefix)
+ */
+export const SOLANA_DEVNET = 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1';
+
+/**
+ * Built-in Solana cluster registry, keyed by CAIP-2 network ID.
+ *
+ * Use `registerSolanaCluster` / `getSolanaClusterConfig` from
+ * `./solana-clusters` to add or look up clusters.
+ */
+export const SOLANA_CLUSTER_CONFIG: Record<string, SolanaClusterConfig> = {
+  [SOLANA_MAINNET]: {
+    name: 'Solana',
+    usdcMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+    rpcUrl: 'https://api.mainnet-beta.solana.com',
+    blockExplorer: 'https://explorer.solana.com',
+  },
+  [SOLANA_DEVNET]: {
+    name: 'Solana Devnet',
+    usdcMint: '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU',
+    rpcUrl: 'https://api.devnet.solana.com',
+    blockExplorer: 'https://explorer.solana.com/?cluster=devnet',
+    testnet: true,
   },
 };
 
+/**
+ * Compute unit limit for the SVM exact-scheme transfer transaction
+ */
+export const SOLANA_COMPUTE_UNIT_LIMIT = 20_000;
+
+/**
+ * Compute unit price (micro-lamports) for the SVM exact-scheme transfer transaction
+ */
+export const SOLANA_COMPUTE_UNIT_PRICE = 1;
+
+/**
+ * USDC token symbol
+ */
+export const USDC_SYMBOL = 'USDC';
+
+/**
+ * USDC token decimals, also the default for assets that do not declare decimals
+ */
+export const USDC_DECIMALS = 6;
+
+/**
+ * Locale used when none is requested or no registered pack matches
+ */
+export const DEFAULT_LOCALE = 'en';
+
 /**
  * Default success redirect delay in seconds
  */
@@ -85,77 +200,274 @@ export const PAYWALL_CONFIG_META_NAME = 'x-paywall-config';
  */
 export const PAYWALL_CONFIG_PLACEHOLDER = '{{payment-config}}';
 
+/**
+ * Suffix marking an ERC-6492 signature (a counterfactual smart wallet's
+ * signature wrapped with its factory deployment data)
+ */
+export const ERC6492_MAGIC_SUFFIX =
+  '6492649264926492649264926492649264926492649264926492649264926492';
+
+/**
+ * Header carrying the ID of a stashed request body on the paid retry
+ */
+export const PAYWALL_REQUEST_ID_HEADER = 'X-PAYWALL-REQUEST-ID';
+
+/**
+ * Largest request body stashed for the paid retry (64 KiB)
+ */
+export const DEFAULT_REQUEST_STASH_MAX_BODY_BYTES = 64 * 1024;
+
+/**
+ * Lifetime of a stashed request body in seconds (10 minutes)
+ */
+export const DEFAULT_REQUEST_STASH_TTL_SECONDS = 10 * 60;
+
+/**
+ * `source` field of lifecycle event messages posted to the parent window
+ */
+export const PAYWALL_EVENT_SOURCE = 'x402-paywall';
+
+/**
+ * Default lifetime of JWT access tokens in seconds (24 hours)
+ */
+export const DEFAULT_ACCESS_TOKEN_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Environment variable holding the access token signing secret
+ */
+export const ACCESS_TOKEN_SECRET_ENV = 'X402_ACCESS_TOKEN_SECRET';
+
+/**
+ * Header the paywall page sends a stored access token in (as `Bearer <token>`)
+ */
+export const DEFAULT_ACCESS_TOKEN_HEADER = 'Authorization';
+
 /**
  * x402 Protocol link
  */
 export const X402_PROTOCOL_URL = 'https://x402.org';
 
+/**
+ * WalletConnect provider build (`dist/index.umd.js` of the npm package) and
+ * its Subresource Integrity hash. Update the version and hash together
+ */
+export const WALLETCONNECT_PROVIDER_SCRIPT = {
+  src: 'https://cdn.jsdelivr.net/npm/@walletconnect/ethereum-provider@2.8.6/dist/index.umd.js',
+  integrity:
+    'sha384-jS1+Ntid5hGCWHn8hp39nv2+3cFVDQmAE563ILMEqOFSTNnRaUpnAyD6omskxQqX',
+} as const;
+
+// Preset themes as plain constants: the variants below read these rather
+// than THEME_PRESETS properties, so bundles using other constants (the
+// payment runtime) can drop the presets
+const COINBASE_THEME: ThemeConfig = {
+  background: 'oklch(0.94 0 0)',
+  card: 'oklch(0.91 0 0)',
+  foreground: 'oklch(0.08 0 0)',
+  muted: 'oklch(0.15 0 0)',
+  brandPrimary: 'oklch(0.58 0.18 256.05)',
+  brandPrimaryHover: 'oklch(0.51 0.18 256.05)',
+  destructive: '#ef4444',
+  border: 'rgba(255,255,255,0.1)',
+  borderRadius: '1.25rem',
+};
+
+const OCEAN_GRADIENT_THEME: ThemeConfig = {
+  background:
+    'linear-gradient(135deg, oklch(0.85 0.1 220) 0%, oklch(0.75 0.15 250) 100%)',
+  card: 'oklch(0.95 0.02 240)',
+  foreground: 'oklch(0.15 0.05 250)',
+  muted: 'oklch(0.25 0.08 240)',
+  brandPrimary: 'oklch(0.55 0.2 240)',
+  brandPrimaryHover: 'oklch(0.45 0.22 240)',
+  destructive: '#ef4444',
+  border: 'rgba(100,150,255,0.15)',
+  borderRadius: '1.5rem',
+};
+
+const SUNSET_GRADIENT_THEME: ThemeConfig = {
+  background:
+    'linear-gradient(135deg, oklch(0.88 0.15 50) 0%, oklch(0.75 0.2 20) 100%)',
+  card: 'oklch(0.92 0.08 40)',
+  foreground: 'oklch(0.12 0.05 30)',
+  muted: 'oklch(0.25 0.08 35)',
+  brandPrimary: 'oklch(0.62 0.22 40)',
+  brandPrimaryHover: 'oklch(0.52 0.24 35)',
+  destructive: '#ef4444',
+  border: 'rgba(255,180,100,0.2)',
+  borderRadius: '1.25rem',
+};
+
+const MIDNIGHT_THEME: ThemeConfig = {
+  background: 'oklch(0.12 0.02 270)',
+  card: 'oklch(0.18 0.03 270)',
+  foreground: 'oklch(0.95 0.01 270)',
+  muted: 'oklch(0.55 0.05 270)',
+  brandPrimary: 'oklch(0.65 0.25 310)',
+  brandPrimaryHover: 'oklch(0.55 0.27 310)',
+  destructive: '#ef4444',
+  border: 'rgba(150,100,255,0.15)',
+  borderRadius: '1.125rem',
+};
+
+const FOREST_GRADIENT_THEME: ThemeConfig = {
+  background:
+    'linear-gradient(135deg, oklch(0.82 0.12 160) 0%, oklch(0.72 0.18 140) 100%)',
+  card: 'oklch(0.9 0.05 150)',
+  foreground: 'oklch(0.15 0.08 150)',
+  muted: 'oklch(0.25 0.12 155)',
+  brandPrimary: 'oklch(0.5 0.2 150)',
+  brandPrimaryHover: 'oklch(0.4 0.22 145)',
+  destructive: '#ef4444',
+  border: 'rgba(80,200,120,0.2)',
+  borderRadius: '1.375rem',
+};
+
 /**
  * Theme presets for paywall customization
  */
 export const THEME_PRESETS = {
   Namefi: NAMEFI_THEME,
+  Coinbase: COINBASE_THEME,
+  'Ocean Gradient': OCEAN_GRADIENT_THEME,
+  'Sunset Gradient': SUNSET_GRADIENT_THEME,
+  Midnight: MIDNIGHT_THEME,
+  'Forest Gradient': FOREST_GRADIENT_THEME,
+} as const;
+
+export type ThemePresetName = keyof typeof THEME_PRESETS;
+
+/**
+ * Brand inputs behind each preset. `createThemeFromBrand(THEME_PRESET_BRANDS[name])`
+ * regenerates a preset with guaranteed WCAG AA contrast.
+ */
+export const THEME_PRESET_BRANDS: Record<ThemePresetName, BrandThemeOptions> = {
+  Namefi: { primary: '#22c55e', mode: 'dark', radius: '1.25rem' },
   Coinbase: {
-    background: 'oklch(0.94 0 0)',
-    card: 'oklch(0.91 0 0)',
-    foreground: 'oklch(0.08 0 0)',
-    muted: 'oklch(0.15 0 0)',
-    brandPrimary: 'oklch(0.58 0.18 256.05)',
-    brandPrimaryHover: 'oklch(0.51 0.18 256.05)',
-    destructive: '#ef4444',
-    border: 'rgba(255,255,255,0.1)',
-    borderRadius: '1.25rem',
-  } as ThemeConfig,
+    primary: 'oklch(0.58 0.18 256.05)',
+    mode: 'light',
+    radius: '1.25rem',
+  },
   'Ocean Gradient': {
+    primary: 'oklch(0.55 0.2 240)',
+    mode: 'light',
+    radius: '1.5rem',
     background:
       'linear-gradient(135deg, oklch(0.85 0.1 220) 0%, oklch(0.75 0.15 250) 100%)',
-    card: 'oklch(0.95 0.02 240)',
-    foreground: 'oklch(0.15 0.05 250)',
-    muted: 'oklch(0.25 0.08 240)',
-    brandPrimary: 'oklch(0.55 0.2 240)',
-    brandPrimaryHover: 'oklch(0.45 0.22 240)',
-    destructive: '#ef4444',
-    border: 'rgba(100,150,255,0.15)',
-    borderRadius: '1.5rem',
-  } as ThemeConfig,
+  },
   'Sunset Gradient': {
+    primary: 'oklch(0.62 0.22 40)',
+    mode: 'light',
+    radius: '1.25rem',
     background:
       'linear-gradient(135deg, oklch(0.88 0.15 50) 0%, oklch(0.75 0.2 20) 100%)',
-    card: 'oklch(0.92 0.08 40)',
-    foreground: 'oklch(0.12 0.05 30)',
-    muted: 'oklch(0.25 0.08 35)',
-    brandPrimary: 'oklch(0.62 0.22 40)',
-    brandPrimaryHover: 'oklch(0.52 0.24 35)',
-    destructive: '#ef4444',
-    border: 'rgba(255,180,100,0.2)',
-    borderRadius: '1.25rem',
-  } as ThemeConfig,
+  },
   Midnight: {
-    background: 'oklch(0.12 0.02 270)',
-    card: 'oklch(0.18 0.03 270)',
-    foreground: 'oklch(0.95 0.01 270)',
-    muted: 'oklch(0.55 0.05 270)',
-    brandPrimary: 'oklch(0.65 0.25 310)',
-    brandPrimaryHover: 'oklch(0.55 0.27 310)',
-    destructive: '#ef4444',
-    border: 'rgba(150,100,255,0.15)',
-    borderRadius: '1.125rem',
-  } as ThemeConfig,
+    primary: 'oklch(0.65 0.25 310)',
+    mode: 'dark',
+    radius: '1.125rem',
+  },
   'Forest Gradient': {
+    primary: 'oklch(0.5 0.2 150)',
+    mode: 'light',
+    radius: '1.375rem',
     background:
       'linear-gradient(135deg, oklch(0.82 0.12 160) 0%, oklch(0.72 0.18 140) 100%)',
-    card: 'oklch(0.9 0.05 150)',
-    foreground: 'oklch(0.15 0.08 150)',
-    muted: 'oklch(0.25 0.12 155)',
-    brandPrimary: 'oklch(0.5 0.2 150)',
-    brandPrimaryHover: 'oklch(0.4 0.22 145)',
-    destructive: '#ef4444',
-    border: 'rgba(80,200,120,0.2)',
-    borderRadius: '1.375rem',
-  } as ThemeConfig,
-} as const;
+  },
+};
 
-export type ThemePresetName = keyof typeof THEME_PRESETS;
+/**
+ * Light and dark variants of each preset: the preset itself for its own mode,
+ * plus a palette generated from its brand color for the other
+ * (createThemeFromBrand with THEME_PRESET_BRANDS). Pass one as `theme` to
+ * follow the visitor's `prefers-color-scheme`.
+ */
+export const THEME_PRESET_VARIANTS: Record<ThemePresetName, ThemeVariants> = {
+  Namefi: {
+    light: {
+      background: 'oklch(0.965 0.02 149.6)',
+      card: 'oklch(0.995 0.02 149.6)',
+      foreground: 'oklch(0.18 0.02 149.6)',
+      muted: 'oklch(0.48 0.02 149.6)',
+      brandPrimary: 'oklch(0.552 0.147 149.6)',
+      brandPrimaryHover: 'oklch(0.551 0.159 148.2)',
+      destructive: 'oklch(0.55 0.21 27)',
+      border: 'oklch(0.18 0.02 149.6 / 0.12)',
+      borderRadius: '1.25rem',
+    },
+    dark: NAMEFI_THEME,
+  },
+  Coinbase: {
+    light: COINBASE_THEME,
+    dark: {
+      background: 'oklch(0.16 0.02 256)',
+      card: 'oklch(0.21 0.02 256)',
+      foreground: 'oklch(0.97 0.02 256)',
+      muted: 'oklch(0.72 0.02 256)',
+      brandPrimary: 'oklch(0.571 0.178 256)',
+      brandPrimaryHover: 'oklch(0.5 0.18 256)',
+      destructive: 'oklch(0.7 0.19 25)',
+      border: 'oklch(0.97 0.02 256 / 0.12)',
+      borderRadius: '1.25rem',
+    },
+  },
+  'Ocean Gradient': {
+    light: OCEAN_GRADIENT_THEME,
+    dark: {
+      background: 'oklch(0.16 0.02 252)',
+      card: 'oklch(0.21 0.02 252)',
+      foreground: 'oklch(0.97 0.02 252)',
+      muted: 'oklch(0.72 0.02 252)',
+      brandPrimary: 'oklch(0.569 0.17 252)',
+      brandPrimaryHover: 'oklch(0.492 0.171 252)',
+      destructive: 'oklch(0.7 0.19 25)',
+      border: 'oklch(0.97 0.02 252 / 0.12)',
+      borderRadius: '1.5rem',
+    },
+  },
+  'Sunset Gradient': {
+    light: SUNSET_GRADIENT_THEME,
+    dark: {
+      background: 'oklch(0.16 0.02 35.6)',
+      card: 'oklch(0.21 0.02 35.6)',
+      foreground: 'oklch(0.97 0.02 35.6)',
+      muted: 'oklch(0.72 0.02 35.6)',
+      brandPrimary: 'oklch(0.591 0.205 35.6)',
+      brandPrimaryHover: 'oklch(0.542 0.215 35.6)',
+      destructive: 'oklch(0.7 0.19 25)',
+      border: 'oklch(0.97 0.02 35.6 / 0.12)',
+      borderRadius: '1.25rem',
+    },
+  },
+  Midnight: {
+    light: {
+      background: 'oklch(0.965 0.02 310)',
+      card: 'oklch(0.995 0.02 310)',
+      foreground: 'oklch(0.18 0.02 310)',
+      muted: 'oklch(0.48 0.02 310)',
+      brandPrimary: 'oklch(0.596 0.23 310)',
+      brandPrimaryHover: 'oklch(0.57 0.25 310)',
+      destructive: 'oklch(0.55 0.21 27)',
+      border: 'oklch(0.18 0.02 310 / 0.12)',
+      borderRadius: '1.125rem',
+    },
+    dark: MIDNIGHT_THEME,
+  },
+  'Forest Gradient': {
+    light: FOREST_GRADIENT_THEME,
+    dark: {
+      background: 'oklch(0.16 0.02 143.1)',
+      card: 'oklch(0.21 0.02 143.1)',
+      foreground: 'oklch(0.97 0.02 143.1)',
+      muted: 'oklch(0.72 0.02 143.1)',
+      brandPrimary: 'oklch(0.517 0.172 143.1)',
+      brandPrimaryHover: 'oklch(0.437 0.172 143.1)',
+      destructive: 'oklch(0.7 0.19 25)',
+      border: 'oklch(0.97 0.02 143.1 / 0.12)',
+      borderRadius: '1.375rem',
+    },
+  },
+};
 
 /**
  * Coinbase branding configuration
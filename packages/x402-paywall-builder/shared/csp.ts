@@ -0,0 +1,149 @@
+/**
+ * Content Security Policy support for x402 paywall pages
+ *
+ * Pages built with a `cspNonce` stamp it on every <script> and <style> tag and
+ * wire click handlers through nonce'd listeners instead of inline `onclick`
+ * attributes, so they run under a strict nonce-based `script-src`.
+ */
+
+import { WALLETCONNECT_PROVIDER_SCRIPT } from './constants';
+import { PAYWALL_ASSETS_CDN_URL } from './inline-assets.generated';
+
+/**
+ * Inputs for the recommended Content-Security-Policy header
+ */
+export interface ContentSecurityPolicyOptions {
+  /** Nonce stamped on the page's script and style tags */
+  nonce?: string;
+  /** Whether the page inlines its assets and leaves out Google Fonts (no third-party requests) */
+  selfContained?: boolean;
+  /** Directory the CSS and runtime files load from. Default: PAYWALL_ASSETS_CDN_URL */
+  assetBaseUrl?: string;
+  /** Whether the WalletConnect provider is loaded */
+  walletConnect?: boolean;
+  /** URLs the page fetches from at runtime (resource URL, RPC endpoints) */
+  connectSrc?: string[];
+}
+
+const WALLETCONNECT_CONNECT_SRC = [
+  'https://*.walletconnect.com',
+  'wss://*.walletconnect.com',
+  'https://*.walletconnect.org',
+  'wss://*.walletconnect.org',
+];
+const WALLETCONNECT_FRAME_SRC = [
+  'https://verify.walletconnect.com',
+  'https://verify.walletconnect.org',
+];
+const GOOGLE_FONTS_STYLE_SRC = 'https://fonts.googleapis.com';
+const GOOGLE_FONTS_FONT_SRC = 'https://fonts.gstatic.com';
+
+/**
+ * Nonces are written into both the markup and the CSP header, so only
+ * base64/base64url tokens are accepted
+ */
+function assertValidNonce(nonce: string): void {
+  if (!/^[A-Za-z0-9+/_-]+={0,2}$/.test(nonce)) {
+    throw new Error(`Invalid CSP nonce: ${nonce}`);
+  }
+}
+
+/**
+ * Nonce attribute for a script or style tag, or '' when no nonce is set
+ */
+export function getNonceAttribute(nonce?: string): string {
+  if (!nonce) return '';
+  assertValidNonce(nonce);
+  return ` nonce="${nonce}"`;
+}
+
+/**
+ * Origin of a URL for use as a CSP source, or null if it cannot be parsed
+ */
+function toSourceOrigin(url: string): string | null {
+  try {
+    const { protocol, host } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:' || protocol === 'wss:'
+      ? `${protocol}//${host}`
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * CSP source for the asset directory: the directory itself (sources ending
+ * in '/' match the files under them), or 'self' for a same-origin path
+ */
+function toAssetSource(assetBaseUrl: string): string {
+  if (!/^[a-z][a-z\d+.-]*:/i.test(assetBaseUrl)) return "'self'";
+  const origin = toSourceOrigin(assetBaseUrl);
+  if (!origin) return "'self'";
+  const { pathname } = new URL(assetBaseUrl);
+  return origin + pathname.replace(/[^/]*$/, '');
+}
+
+/**
+ * Build the Content-Security-Policy header recommended for a paywall page.
+ *
+ * With a nonce, inline scripts and styles are allowed by nonce only; style
+ * attributes (used for a few dynamic colors) stay allowed via
+ * `style-src-attr`. Without one the policy has to allow inline code.
+ *
+ * @example
+ * ```typescript
+ * const csp = getPaywallContentSecurityPolicy({
+ *   nonce,
+ *   connectSrc: ['https://mainnet.base.org'],
+ * });
+ * headers.set('Content-Security-Policy', csp);
+ * ```
+ */
+export function getPaywallContentSecurityPolicy(
+  options: ContentSecurityPolicyOptions = {},
+): string {
+  const { nonce, selfContained = false, walletConnect = false } = options;
+  if (nonce) assertValidNonce(nonce);
+  const nonceSource = nonce ? `'nonce-${nonce}'` : null;
+
+  // CSS and runtimes load from the asset directory unless inlined
+  const assetSource = selfContained
+    ? null
+    : toAssetSource(options.assetBaseUrl || PAYWALL_ASSETS_CDN_URL);
+
+  const scriptSrc = [nonceSource ?? "'unsafe-inline'"];
+  if (assetSource) scriptSrc.push(assetSource);
+  if (walletConnect) scriptSrc.push(WALLETCONNECT_PROVIDER_SCRIPT.src);
+
+  const styleSrc = [nonceSource ?? "'unsafe-inline'"];
+  if (assetSource) styleSrc.push(assetSource);
+  if (!selfContained) styleSrc.push(GOOGLE_FONTS_STYLE_SRC);
+
+  const connectSrc = new Set(["'self'"]);
+  for (const url of options.connectSrc ?? []) {
+    const origin = toSourceOrigin(url);
+    if (origin) connectSrc.add(origin);
+  }
+  if (walletConnect) {
+    WALLETCONNECT_CONNECT_SRC.forEach((source) => connectSrc.add(source));
+  }
+
+  const directives = [
+    "default-src 'self'",
+    `script-src ${scriptSrc.join(' ')}`,
+    `style-src ${styleSrc.join(' ')}`,
+  ];
+  if (nonce) directives.push("style-src-attr 'unsafe-inline'");
+  if (!selfContained) directives.push(`font-src ${GOOGLE_FONTS_FONT_SRC}`);
+  // blob: for paid images and PDFs shown in the success state
+  const frameSrc = ["'self'", 'blob:'];
+  if (walletConnect) frameSrc.push(...WALLETCONNECT_FRAME_SRC);
+  directives.push(
+    "img-src 'self' data: blob: https:",
+    `connect-src ${[...connectSrc].join(' ')}`,
+    `frame-src ${frameSrc.join(' ')}`,
+  );
+  directives.push("object-src 'none'", "base-uri 'none'");
+
+  return directives.join('; ');
+}
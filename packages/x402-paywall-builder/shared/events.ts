@@ -0,0 +1,181 @@
+/**
+ * Lifecycle events for embedded paywall pages
+ *
+ * The page reports its progress as `x402:*` DOM CustomEvents on `document`
+ * and, when framed, as `postMessage` to each allowed parent origin. The
+ * parent can post commands back (reset, set-amount, select-option); commands
+ * from other origins or windows are ignored.
+ */
+
+import type { PaywallFamily } from './types';
+import { PAYWALL_EVENT_SOURCE } from './constants';
+
+/**
+ * Settlement details from the resource's `PAYMENT-RESPONSE` header
+ */
+export interface PaywallSettlement {
+  success?: boolean;
+  /** Transaction hash or signature (x402 field name) */
+  transaction?: string;
+  /** Transaction hash (as sent by some servers) */
+  txHash?: string;
+  network?: string;
+  payer?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Event detail by event type
+ */
+export interface PaywallEventDetails {
+  /** Page initialized and waiting for a wallet */
+  ready: { family: PaywallFamily; network: string; resource: string };
+  'wallet-connected': {
+    address: string;
+    /** 'injected', 'walletconnect', 'phantom' or 'solflare' */
+    wallet: string;
+    family: PaywallFamily;
+    /** EIP-6963 id of the injected wallet (e.g. 'io.metamask'), if it announced itself */
+    rdns?: string;
+  };
+  /** EVM wallet switched to the chain of the selected payment option */
+  'chain-switched': { chainId: number; chainName: string; network: string };
+  /** Signature requested from the wallet */
+  signing: { network: string; amount: string; asset: string; payTo: string };
+  /** Payment accepted and the resource returned */
+  paid: {
+    network: string;
+    payer: string;
+    txHash: string | null;
+    settlement: PaywallSettlement | null;
+  };
+  error: { message: string };
+  /** The buyer rejected the connection or signature in their wallet */
+  cancelled: { message: string };
+  /** Framed page's content height changed, in CSS pixels (for sizing the frame) */
+  resize: { height: number };
+}
+
+export type PaywallEventType = keyof PaywallEventDetails;
+
+/**
+ * Message posted to the parent window for each event
+ */
+export type PaywallEventMessage = {
+  [T in PaywallEventType]: {
+    source: typeof PAYWALL_EVENT_SOURCE;
+    type: `x402:${T}`;
+    detail: PaywallEventDetails[T];
+  };
+}[PaywallEventType];
+
+/**
+ * Commands the parent window can post to the page
+ */
+export type PaywallCommand =
+  /** Disconnect the wallet and return to the connect state */
+  | { type: 'x402:reset' }
+  /** Set a payment option's amount in atomic units (default: selected option) */
+  | { type: 'x402:set-amount'; amount: string; index?: number }
+  /** Select a payment option by its index in `accepts` */
+  | { type: 'x402:select-option'; index: number };
+
+/**
+ * Whether a `message` event's data is a paywall event
+ *
+ * @example
+ * ```typescript
+ * window.addEventListener('message', (event) => {
+ *   if (event.origin !== 'https://pay.example.com') return;
+ *   if (isPaywallEventMessage(event.data) && event.data.type === 'x402:paid') {
+ *     console.log('Paid:', event.data.detail.txHash);
+ *   }
+ * });
+ * ```
+ */
+export function isPaywallEventMessage(
+  data: unknown,
+): data is PaywallEventMessage {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    (data as { source?: unknown }).source === PAYWALL_EVENT_SOURCE &&
+    typeof (data as { type?: unknown }).type === 'string'
+  );
+}
+
+/**
+ * Browser-side event emitter and command listener.
+ *
+ * Defines `emitPaywallEvent(type, detail)` for the wallet scripts. Commands
+ * call `disconnect`, `selectPaymentOption` and `setPaymentAmount`, which the
+ * wallet scripts define.
+ */
+export function getLifecycleEventsScript(parentOrigins: string[] = []): string {
+  // Escape '<' so an origin can never close the script tag
+  const originsJson = JSON.stringify(parentOrigins).replace(/</g, '\\u003c');
+
+  return `
+    // ===== Lifecycle Events =====
+    const x402ParentOrigins = ${originsJson};
+
+    function emitPaywallEvent(type, detail) {
+      const name = 'x402:' + type;
+      const eventDetail = detail || {};
+      document.dispatchEvent(new CustomEvent(name, { detail: eventDetail, bubbles: true }));
+
+      if (window.parent === window) return;
+      const message = { source: ${JSON.stringify(PAYWALL_EVENT_SOURCE)}, type: name, detail: eventDetail };
+      x402ParentOrigins.forEach(origin => {
+        try {
+          window.parent.postMessage(message, origin);
+        } catch (e) {
+          console.warn('[x402-paywall] Failed to post event to ' + origin + ':', e);
+        }
+      });
+    }
+
+    function getCurrentPaywallState() {
+      return ['connect', 'connected', 'processing', 'success', 'error'].find(s => {
+        const el = document.getElementById('state-' + s);
+        return el && !el.classList.contains('hidden');
+      });
+    }
+
+    function handlePaywallCommand(command) {
+      if (!command || typeof command.type !== 'string') return;
+      // Amounts and options are fixed once the wallet is asked to sign
+      const state = getCurrentPaywallState();
+      const editable = state === 'connect' || state === 'connected';
+
+      switch (command.type) {
+        case 'x402:reset':
+          disconnect();
+          break;
+        case 'x402:set-amount':
+          if (editable) setPaymentAmount(command.amount, command.index);
+          break;
+        case 'x402:select-option':
+          if (editable) selectPaymentOption(command.index);
+          break;
+      }
+    }
+
+    window.addEventListener('message', (event) => {
+      if (event.source !== window.parent || window.parent === window) return;
+      if (!x402ParentOrigins.includes(event.origin)) return;
+      handlePaywallCommand(event.data);
+    });
+
+    // Report the content height so the parent can size a frame it cannot read
+    if (window.parent !== window && typeof ResizeObserver !== 'undefined') {
+      let lastHeight = 0;
+      new ResizeObserver(() => {
+        const height = Math.ceil(document.body.getBoundingClientRect().height);
+        if (height === lastHeight) return;
+        lastHeight = height;
+        emitPaywallEvent('resize', { height });
+      }).observe(document.body);
+    }
+  `;
+}
@@ -0,0 +1,634 @@
+/**
+ * EVM exact-scheme payment flow
+ *
+ * The one implementation of x402 payment signing and submission: native
+ * checkout UIs import it, and paywall pages run it from the inlined payment
+ * runtime (see runtime/payment-runtime.ts). It builds the EIP-3009
+ * authorization, x402 v2 payload and PAYMENT-SIGNATURE header against any
+ * EIP-1193 provider. Signs with `eth_signTypedData_v4`, so it needs no wallet
+ * library.
+ *
+ * Smart-contract wallets work too: deployed ones return an ERC-1271 signature
+ * and counterfactual ones an ERC-6492 signature, which the facilitator checks
+ * against the account (deploying it on settlement if needed).
+ */
+
+import type {
+  ChainConfig,
+  PaymentRequirement,
+  PaymentRequiredResponse,
+  PaywallReplayRequest,
+  TokenConfig,
+} from './types';
+import type { PaywallSettlement } from './events';
+import { getChainConfig, toChainIdHex } from './chains';
+import { resolveRequirementToken } from './tokens';
+import { formatMessage, type PaywallMessages } from './i18n';
+import { EN_MESSAGES } from './locales/en';
+import {
+  ERC6492_MAGIC_SUFFIX,
+  PAYWALL_REDIRECT_OPTIONS_HEADER,
+  PAYWALL_REQUEST_ID_HEADER,
+} from './constants';
+
+/**
+ * EIP-1193 wallet provider (e.g. `window.ethereum`)
+ */
+export interface Eip1193Provider {
+  request(args: { method: string; params?: unknown[] }): Promise<unknown>;
+}
+
+/**
+ * x402 v2 payment payload for the EVM exact scheme
+ */
+export interface EvmPaymentPayload {
+  x402Version: 2;
+  payload: {
+    signature: string;
+    authorization: {
+      from: string;
+      to: string;
+      value: string;
+      validAfter: string;
+      validBefore: string;
+      nonce: string;
+    };
+  };
+  accepted: PaymentRequirement;
+  resource?: PaymentRequiredResponse['resource'];
+}
+
+/**
+ * How a payment signature is verified: `ecrecover` for an EOA, the account's
+ * `isValidSignature` (ERC-1271) for a smart wallet, or the ERC-6492 wrapper
+ * for a smart wallet that is not deployed yet
+ */
+export type EvmSignatureKind = 'eoa' | 'erc1271' | 'erc6492';
+
+/**
+ * Options for signEvmPayment
+ */
+export interface SignEvmPaymentOptions {
+  /** The resource's 402 response; its `resource` goes into the payload */
+  paymentRequired?: PaymentRequiredResponse;
+  /** Chain of the requirement. Default: the registered chain for its network */
+  chain?: ChainConfig;
+  /** Token being paid. Default: resolved from the requirement and chain */
+  token?: TokenConfig;
+  /**
+   * Check the payer's token balance before asking the wallet to sign.
+   * A balance that cannot be read never blocks payment. Default: true
+   */
+  checkBalance?: boolean;
+  /**
+   * Deployment data of a smart wallet that is not deployed yet, used to wrap
+   * its signature as ERC-6492 when the wallet returns a bare ERC-1271 one.
+   * Only called for such accounts; return null if unknown.
+   */
+  resolveDeployment?: (account: string) => Promise<SmartWalletDeployment | null>;
+  /** Messages for errors shown to the buyer. Default: English */
+  messages?: Partial<PaywallMessages>;
+}
+
+/**
+ * Options for signResolvedEvmPayment: chain, token and the full message pack
+ * are passed rather than looked up
+ */
+export interface ResolvedSignEvmPaymentOptions extends SignEvmPaymentOptions {
+  chain: ChainConfig;
+  token: TokenConfig;
+  messages: PaywallMessages;
+}
+
+/**
+ * How to deploy a counterfactual smart wallet (ERC-6492)
+ */
+export interface SmartWalletDeployment {
+  /** Factory contract that deploys the account */
+  factory: string;
+  /** Calldata for the factory's deploy call */
+  factoryData: string;
+}
+
+/**
+ * Options for submitX402Payment
+ */
+export interface SubmitX402PaymentOptions {
+  /**
+   * Method, safe headers and stash ID of the request that hit the paywall
+   * (see capturePaywallRequest). Default: GET without a body
+   */
+  replay?: PaywallReplayRequest;
+  /** Body to send with the paid request, when it was not stashed */
+  body?: BodyInit;
+  /** Messages for errors shown to the buyer. Default: English */
+  messages?: Partial<PaywallMessages>;
+}
+
+/**
+ * Resource response after a successful payment
+ */
+export interface PaymentSubmissionResult {
+  /** Parsed JSON body of the resource, or the body as a Blob for other content types */
+  result: unknown;
+  /** `Content-Type` of the resource response */
+  contentType: string | null;
+  /** Download name from `Content-Disposition`, else the last URL path segment */
+  filename: string;
+  /** Decoded `PAYMENT-RESPONSE` header, if the server sent one */
+  settlement: PaywallSettlement | null;
+  /** Raw `X-PAYWALL-REDIRECT-OPTIONS` header, if present */
+  redirectOptionsHeader: string | null;
+}
+
+/**
+ * Whether a wallet error means the buyer rejected the request
+ */
+export function isUserRejection(error: unknown): boolean {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    (error as { code?: unknown }).code === 4001
+  );
+}
+
+/**
+ * Classify a signature by its envelope. 65-byte signatures are treated as
+ * EOA signatures; some single-owner smart wallets also produce them, and the
+ * facilitator falls back to ERC-1271 for those.
+ */
+export function getEvmSignatureKind(signature: string): EvmSignatureKind {
+  const hex = signature.replace(/^0x/i, '').toLowerCase();
+  if (hex.endsWith(ERC6492_MAGIC_SUFFIX)) return 'erc6492';
+  return hex.length === 130 ? 'eoa' : 'erc1271';
+}
+
+/**
+ * Whether an address has contract code on the wallet's current chain
+ */
+export async function isDeployedContract(
+  provider: Eip1193Provider,
+  address: string,
+): Promise<boolean> {
+  const code = await provider.request({
+    method: 'eth_getCode',
+    params: [address, 'latest'],
+  });
+  return typeof code === 'string' && code !== '0x' && code !== '0x0';
+}
+
+/**
+ * ABI-encoded `bytes` tail: 32-byte length, then the data right-padded to a
+ * multiple of 32 bytes
+ */
+function encodeAbiBytes(hex: string): string {
+  const data = hex.replace(/^0x/i, '').toLowerCase();
+  const length = (data.length / 2).toString(16).padStart(64, '0');
+  return length + data.padEnd(Math.ceil(data.length / 64) * 64, '0');
+}
+
+/**
+ * Wrap a smart wallet's signature for ERC-6492 verification:
+ * `abi.encode(factory, factoryData, signature)` followed by the magic suffix.
+ * The verifier deploys the account with the factory call, then checks the
+ * signature through ERC-1271.
+ */
+export function wrapErc6492Signature(
+  signature: string,
+  deployment: SmartWalletDeployment,
+): string {
+  const factoryData = encodeAbiBytes(deployment.factoryData);
+  const word = (value: number) => value.toString(16).padStart(64, '0');
+  // Three head words, then the two dynamic arguments in order
+  const head =
+    deployment.factory.replace(/^0x/i, '').toLowerCase().padStart(64, '0') +
+    word(0x60) +
+    word(0x60 + factoryData.length / 2);
+  return `0x${head}${factoryData}${encodeAbiBytes(signature)}${ERC6492_MAGIC_SUFFIX}`;
+}
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+const HEX_PATTERN = /^0x([0-9a-fA-F]{2})*$/;
+
+/**
+ * Look up the deployment data of a counterfactual smart wallet from an HTTP
+ * endpoint (e.g. the wallet provider's or your own backend), for use as
+ * `resolveDeployment`. Sends `GET <url>?address=<account>&network=<network>`
+ * and expects `{ factory, factoryData }` JSON. Returns null if the endpoint
+ * fails or does not know the account.
+ *
+ * @example
+ * ```typescript
+ * const payload = await signEvmPayment(provider, from, requirement, {
+ *   resolveDeployment: (account) =>
+ *     fetchSmartWalletDeployment('https://example.com/deployments', account, requirement.network),
+ * });
+ * ```
+ */
+export async function fetchSmartWalletDeployment(
+  url: string,
+  account: string,
+  network: string,
+): Promise<SmartWalletDeployment | null> {
+  const lookupUrl = new URL(url, globalThis.location?.href);
+  lookupUrl.searchParams.set('address', account);
+  lookupUrl.searchParams.set('network', network);
+  try {
+    const response = await fetch(lookupUrl, {
+      headers: { Accept: 'application/json' },
+    });
+    if (!response.ok) return null;
+    const deployment = (await response.json()) as Partial<SmartWalletDeployment> | null;
+    return typeof deployment?.factory === 'string' &&
+      ADDRESS_PATTERN.test(deployment.factory) &&
+      typeof deployment.factoryData === 'string' &&
+      HEX_PATTERN.test(deployment.factoryData)
+      ? { factory: deployment.factory, factoryData: deployment.factoryData }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+// balanceOf(address)
+const BALANCE_OF_SELECTOR = '0x70a08231';
+
+/**
+ * ERC-20 balance of an account on the wallet's current chain, in atomic
+ * units, or null if it cannot be read
+ */
+export async function getEvmTokenBalance(
+  provider: Eip1193Provider,
+  account: string,
+  asset: string,
+): Promise<bigint | null> {
+  const data =
+    BALANCE_OF_SELECTOR +
+    account.replace(/^0x/i, '').toLowerCase().padStart(64, '0');
+  try {
+    const result = await provider.request({
+      method: 'eth_call',
+      params: [{ to: asset, data }, 'latest'],
+    });
+    return typeof result === 'string' && /^0x[0-9a-f]+$/i.test(result)
+      ? BigInt(result)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Ask the wallet for its accounts and return the first one
+ */
+export async function requestEvmAccount(
+  provider: Eip1193Provider,
+): Promise<string> {
+  const accounts = (await provider.request({
+    method: 'eth_requestAccounts',
+  })) as string[] | undefined;
+  const account = accounts?.[0];
+  if (!account) {
+    throw new Error('No accounts returned');
+  }
+  return account;
+}
+
+/**
+ * Switch the wallet to a chain, adding it first if the wallet does not know it.
+ * Returns whether a switch was needed.
+ */
+export async function switchEvmChain(
+  provider: Eip1193Provider,
+  chain: ChainConfig,
+): Promise<boolean> {
+  const currentChainId = await provider.request({ method: 'eth_chainId' });
+  if (Number(currentChainId) === chain.chainId) return false;
+
+  const chainIdHex = toChainIdHex(chain.chainId);
+  try {
+    await provider.request({
+      method: 'wallet_switchEthereumChain',
+      params: [{ chainId: chainIdHex }],
+    });
+  } catch (error) {
+    // 4902: chain not added to the wallet yet
+    if ((error as { code?: unknown }).code !== 4902) throw error;
+    await provider.request({
+      method: 'wallet_addEthereumChain',
+      params: [
+        {
+          chainId: chainIdHex,
+          chainName: chain.name,
+          nativeCurrency: chain.nativeCurrency || {
+            name: 'Ether',
+            symbol: 'ETH',
+            decimals: 18,
+          },
+          rpcUrls: [chain.rpcUrl],
+          blockExplorerUrls: [chain.blockExplorer],
+        },
+      ],
+    });
+  }
+  return true;
+}
+
+/**
+ * Random 32-byte EIP-3009 nonce as 0x-prefixed hex
+ */
+function randomNonce(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return `0x${Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Sign an EIP-3009 TransferWithAuthorization for a payment requirement and
+ * build the x402 payment payload. The wallet must already be on the
+ * requirement's chain (see switchEvmChain). Smart-wallet signatures are
+ * passed through as the wallet wraps them; a bare ERC-1271 signature from an
+ * undeployed account is wrapped as ERC-6492 with `resolveDeployment`, and
+ * rejected without it.
+ *
+ * @example
+ * ```typescript
+ * const from = await requestEvmAccount(window.ethereum);
+ * await switchEvmChain(window.ethereum, getChainConfig(requirement.network)!);
+ * const payload = await signEvmPayment(window.ethereum, from, requirement, { paymentRequired });
+ * const { result, settlement } = await submitX402Payment(resourceUrl, payload);
+ * ```
+ */
+export async function signEvmPayment(
+  provider: Eip1193Provider,
+  from: string,
+  requirement: PaymentRequirement,
+  options: SignEvmPaymentOptions = {},
+): Promise<EvmPaymentPayload> {
+  const chain = options.chain ?? getChainConfig(requirement.network);
+  if (!chain) {
+    throw new Error(`Unsupported network: ${requirement.network}`);
+  }
+  return signResolvedEvmPayment(provider, from, requirement, {
+    ...options,
+    chain,
+    token: options.token ?? resolveRequirementToken(requirement, chain),
+    messages: { ...EN_MESSAGES, ...options.messages },
+  });
+}
+
+/**
+ * signEvmPayment with the chain, token and messages already resolved, so it
+ * needs neither the chain registry nor the English pack. The paywall pages'
+ * payment runtime uses it to stay small.
+ */
+export async function signResolvedEvmPayment(
+  provider: Eip1193Provider,
+  from: string,
+  requirement: PaymentRequirement,
+  options: ResolvedSignEvmPaymentOptions,
+): Promise<EvmPaymentPayload> {
+  const { paymentRequired, checkBalance = true, chain, token, messages } = options;
+  if (!requirement.payTo) {
+    throw new Error('Payment requirement missing payTo address');
+  }
+  if (!requirement.amount) {
+    throw new Error('Payment requirement missing amount');
+  }
+  if (!requirement.asset) {
+    throw new Error('Payment requirement missing asset (token contract address)');
+  }
+
+  if (!token.eip712Name || !token.eip712Version) {
+    throw new Error(
+      'Payment requirement missing extra.name or extra.version for EIP-712 domain',
+    );
+  }
+
+  if (checkBalance) {
+    const balance = await getEvmTokenBalance(provider, from, requirement.asset);
+    if (balance !== null && balance < BigInt(requirement.amount)) {
+      throw new Error(
+        formatMessage(messages.insufficientBalance, {
+          symbol: token.symbol,
+          chain: chain.name,
+        }),
+      );
+    }
+  }
+
+  // validAfter is backdated 10 minutes for clock skew (as in @x402/evm)
+  const now = Math.floor(Date.now() / 1000);
+  const authorization = {
+    from,
+    to: requirement.payTo,
+    value: requirement.amount,
+    validAfter: String(now - 600),
+    validBefore: String(now + (requirement.maxTimeoutSeconds || 3600)),
+    nonce: randomNonce(),
+  };
+
+  const typedData = {
+    types: {
+      EIP712Domain: [
+        { name: 'name', type: 'string' },
+        { name: 'version', type: 'string' },
+        { name: 'chainId', type: 'uint256' },
+        { name: 'verifyingContract', type: 'address' },
+      ],
+      TransferWithAuthorization: [
+        { name: 'from', type: 'address' },
+        { name: 'to', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'validAfter', type: 'uint256' },
+        { name: 'validBefore', type: 'uint256' },
+        { name: 'nonce', type: 'bytes32' },
+      ],
+    },
+    primaryType: 'TransferWithAuthorization',
+    domain: {
+      name: token.eip712Name,
+      version: token.eip712Version,
+      chainId: chain.chainId,
+      verifyingContract: requirement.asset,
+    },
+    message: authorization,
+  };
+
+  // Checked before the wallet prompt; the facilitator has the final say if
+  // the wallet cannot answer
+  const deployed = await isDeployedContract(provider, from).catch(() => true);
+
+  let signature = (await provider.request({
+    method: 'eth_signTypedData_v4',
+    params: [from, JSON.stringify(typedData)],
+  })) as string;
+
+  // An account without code that signs like a contract is an undeployed smart
+  // wallet: its bare ERC-1271 signature has nothing to be checked against
+  // until it is wrapped with the deployment data (ERC-6492)
+  if (!deployed && getEvmSignatureKind(signature) === 'erc1271') {
+    const deployment = await options.resolveDeployment?.(from);
+    if (!deployment) {
+      throw new Error(messages.smartWalletNotDeployed);
+    }
+    signature = wrapErc6492Signature(signature, deployment);
+  }
+
+  return {
+    x402Version: 2,
+    payload: { signature, authorization },
+    accepted: requirement,
+    resource: paymentRequired?.resource,
+  };
+}
+
+/**
+ * Base64 of a UTF-8 JSON value, for x402 headers
+ */
+function toBase64Json(value: unknown): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(value));
+  return btoa(String.fromCharCode(...bytes));
+}
+
+/**
+ * JSON media types (application/json, application/problem+json, ...)
+ */
+function isJsonContentType(contentType: string): boolean {
+  return /^application\/([\w.-]+\+)?json\b/i.test(contentType);
+}
+
+/**
+ * Filename from a Content-Disposition header, else the last path segment of the URL
+ */
+function getResponseFilename(
+  contentDisposition: string | null,
+  url: string,
+): string {
+  const encoded = /filename\*\s*=\s*UTF-8''([^;]+)/i.exec(contentDisposition || '');
+  if (encoded?.[1]) {
+    try {
+      return decodeURIComponent(encoded[1].trim());
+    } catch {
+      // Fall back to the plain filename
+    }
+  }
+  const plain = /filename\s*=\s*("([^"]*)"|[^;]+)/i.exec(contentDisposition || '');
+  if (plain?.[1]) return (plain[2] ?? plain[1]).trim();
+  try {
+    const segment = new URL(url, globalThis.location?.href).pathname
+      .split('/')
+      .pop();
+    if (segment) return decodeURIComponent(segment);
+  } catch {
+    // Fall through to the default
+  }
+  return 'download';
+}
+
+/**
+ * Read a successful resource response: JSON bodies parsed, other content
+ * types as a Blob, plus the settlement and redirect options headers.
+ * Untyped bodies are parsed as JSON when they are JSON (older servers omit
+ * the header), else kept as text/plain.
+ */
+export async function readPaymentResponse(
+  response: Response,
+  resourceUrl: string = response.url,
+): Promise<PaymentSubmissionResult> {
+  let settlement: PaywallSettlement | null = null;
+  const paymentResponseHeader =
+    response.headers.get('PAYMENT-RESPONSE') ||
+    response.headers.get('X-PAYMENT-RESPONSE');
+  if (paymentResponseHeader) {
+    try {
+      settlement = JSON.parse(atob(paymentResponseHeader));
+    } catch {
+      // Malformed header; the payment itself went through
+    }
+  }
+
+  const contentType = response.headers.get('Content-Type');
+  let result: unknown;
+  if (!contentType) {
+    const text = await response.text();
+    try {
+      result = JSON.parse(text);
+    } catch {
+      result = new Blob([text], { type: 'text/plain' });
+    }
+  } else {
+    result = isJsonContentType(contentType)
+      ? await response.json()
+      : await response.blob();
+  }
+
+  return {
+    result,
+    contentType,
+    filename: getResponseFilename(
+      response.headers.get('Content-Disposition'),
+      resourceUrl,
+    ),
+    settlement,
+    redirectOptionsHeader: response.headers.get(PAYWALL_REDIRECT_OPTIONS_HEADER),
+  };
+}
+
+/**
+ * Send an x402 payment payload (EVM, or SVM from the Solana page) to the
+ * protected resource and return its response.
+ * The request that hit the paywall is replayed with its method and headers;
+ * a stashed body is restored by the server from the replay's request ID.
+ * Throws with the server's message if the payment is not accepted.
+ *
+ * @example
+ * ```typescript
+ * // replay as rendered into the page by capturePaywallRequest
+ * const { result } = await submitX402Payment(resourceUrl, payload, { replay });
+ * ```
+ */
+export async function submitX402Payment(
+  resourceUrl: string,
+  paymentPayload: EvmPaymentPayload | { x402Version: number },
+  options: SubmitX402PaymentOptions = {},
+): Promise<PaymentSubmissionResult> {
+  return submitResolvedX402Payment(resourceUrl, paymentPayload, {
+    ...options,
+    messages: { ...EN_MESSAGES, ...options.messages },
+  });
+}
+
+/**
+ * submitX402Payment with the full message pack passed, so it needs no
+ * English pack (used by the paywall pages' payment runtime)
+ */
+export async function submitResolvedX402Payment(
+  resourceUrl: string,
+  paymentPayload: EvmPaymentPayload | { x402Version: number },
+  options: SubmitX402PaymentOptions & { messages: PaywallMessages },
+): Promise<PaymentSubmissionResult> {
+  const { replay = { method: 'GET', headers: {} }, body, messages } = options;
+  const headers: Record<string, string> = { ...replay.headers };
+  if (replay.requestId) {
+    headers[PAYWALL_REQUEST_ID_HEADER] = replay.requestId;
+  }
+
+  const response = await fetch(resourceUrl, {
+    method: replay.method,
+    headers: {
+      ...headers,
+      'PAYMENT-SIGNATURE': toBase64Json(paymentPayload),
+      Accept: 'application/json',
+    },
+    body,
+  });
+
+  if (!response.ok) {
+    const errorData = (await response.json().catch(() => ({}))) as {
+      message?: string;
+    };
+    throw new Error(errorData.message || messages.paymentVerificationFailed);
+  }
+
+  return readPaymentResponse(response, resourceUrl);
+}
@@ -4,28 +4,76 @@
  * Combines shared components into complete HTML pages.
  */
 
-import type { ThemeConfig, BrandingConfig, PreviewConfig } from './types';
+import type {
+  ThemeConfig,
+  ThemeVariants,
+  ColorScheme,
+  BrandingConfig,
+  PreviewConfig,
+  PaywallFamily,
+  PaywallDocument,
+} from './types';
 import {
   NAMEFI_THEME,
   NAMEFI_BRANDING,
   X402_PROTOCOL_URL,
   PAYWALL_CONFIG_META_NAME,
   PAYWALL_CONFIG_PLACEHOLDER,
+  USDC_SYMBOL,
+  USDC_DECIMALS,
 } from './constants';
-import { getViemLoaderScript } from './viem-loader';
 import { getWalletConnectLoaderScript } from './walletconnect-loader';
-import { getTailwindScript, getBaseStyles } from './styles';
+import {
+  getExternalRuntimeScript,
+  getExternalStyles,
+  getInlineRuntimeScript,
+  getInlineStyles,
+} from './inline-assets';
+import {
+  getBaseStyles,
+  isThemeVariants,
+  withAlpha,
+  THEME_VARIABLES,
+} from './styles';
+import { getNonceAttribute, getPaywallContentSecurityPolicy } from './csp';
+import {
+  formatMessage,
+  getLocaleMessages,
+  getLocalizationScript,
+  resolveLocale,
+  type PaywallMessages,
+} from './i18n';
+import { formatTokenAmount } from './tokens';
+import { getLifecycleEventsScript } from './events';
 import {
   getDebugLoggingScript,
   getBalanceCheckingScript,
   getViemHelpersScript,
   getWalletStateScript,
+  getWalletPickerScript,
+  getPaymentOptionsScript,
+  getBalanceCheckScript,
+  getPaymentReceiptScript,
   getConnectMetaMaskScript,
   getConnectWalletConnectScript,
+  getSubmitPaymentScript,
+  getPaidResponseScript,
   getSignPaymentScript,
   getDOMContentLoadedScript,
+  getAccessTokenScript,
+  getRequirementsRefreshScript,
   getConfigResolutionScript,
+  getActionListenerScript,
+  getColorSchemeScript,
+  getAccessibilityScript,
 } from './scripts';
+import {
+  getSolanaWalletStateScript,
+  getSolanaPaymentOptionsScript,
+  getConnectSolanaWalletScript,
+  getSolanaSignPaymentScript,
+  getSolanaDOMContentLoadedScript,
+} from './solana-scripts';
 
 /**
  * Options for building the paywall HTML
@@ -34,39 +82,99 @@ export interface HtmlBuilderOptions {
   /** Page title */
   title: string;
 
-  /** Theme configuration */
-  theme?: ThemeConfig;
+  /** Theme configuration, or light and dark variants */
+  theme?: ThemeConfig | ThemeVariants;
+
+  /** Palette shown for theme variants. Default: 'auto' (follows the OS) */
+  colorScheme?: ColorScheme;
+
+  /** Render a light/dark toggle on the card (theme variants only) */
+  colorSchemeToggle?: boolean;
 
   /** Branding configuration */
   branding?: BrandingConfig;
 
-  /** WalletConnect project ID (optional) */
+  /** Wallet family to build connect buttons and scripts for. Default: 'evm' */
+  family?: PaywallFamily;
+
+  /** WalletConnect project ID (optional, EVM only) */
   walletConnectProjectId?: string;
 
+  /**
+   * Inline the CSS and wallet runtime (about 330 KB) instead of loading them
+   * from `assetBaseUrl`, and leave out Google Fonts and WalletConnect (which
+   * needs its relay), so the page makes no third-party requests
+   */
+  selfContained?: boolean;
+
+  /**
+   * URL of a directory serving the package's dist/ files (CSS and runtimes),
+   * loaded with their integrity hashes. Default: this package version on
+   * jsDelivr (PAYWALL_ASSETS_CDN_URL)
+   */
+  assetBaseUrl?: string;
+
+  /**
+   * Nonce stamped on every script and style tag, for pages served with a
+   * nonce-based Content-Security-Policy
+   */
+  cspNonce?: string;
+
+  /** URLs the page fetches from at runtime (resource URL, RPC endpoints), for the CSP connect-src */
+  connectSrc?: string[];
+
+  /**
+   * Render only the card on a transparent page, sized to its content rather
+   * than the viewport, for inline frames such as the `<x402-paywall>` element
+   */
+  embedded?: boolean;
+
+  /**
+   * Origins of pages allowed to embed this one in an iframe. Lifecycle events
+   * are posted to the parent window for these origins only, and only they can
+   * send commands back.
+   */
+  parentOrigins?: string[];
+
   /** JSON config to inject into page */
   configJson?: string;
   /** Base64 encoded JSON config to inject into page, takes precedence over configJson */
   /** If both configJson and configJsonB64 are provided, configJsonB64 takes precedence */
   configJsonB64?: string;
 
+  /** HTML for the logo area. Default: `branding.appLogo` image, if set */
+  logoHtml?: string;
+
   /** HTML for the header section */
   headerHtml: string;
 
   /** HTML for the price display section */
   priceDisplayHtml: string;
 
+  /** HTML shown above the connect buttons until a wallet connects */
+  beforeConnectHtml?: string;
+
   /** HTML for the success state content */
   successContentHtml: string;
 
+  /** HTML for the footer below the card. Default: "Powered by x402 Protocol" */
+  footerHtml?: string;
+
   /** JavaScript to run on successful payment */
   onSuccessScript: string;
 
-  /** Amount in USDC for pay button */
+  /** Amount in whole token units for pay button */
   amount: number;
 
   /** Formatted amount string for display (handles sub-cent values) */
   formattedAmount?: string;
 
+  /** Token symbol shown next to amounts. Default: USDC */
+  tokenSymbol?: string;
+
+  /** Locale for UI strings and number formatting (see registerLocale). Default: 'en' */
+  locale?: string;
+
   /** Additional JavaScript to include (e.g., helper functions) */
   additionalScripts?: string;
 
@@ -86,6 +194,56 @@ export function escapeHtml(str: string): string {
     .replace(/'/g, '&#039;');
 }
 
+/**
+ * Base64-encode config JSON as UTF-8 (btoa alone rejects non-Latin-1 text,
+ * such as localized labels)
+ */
+function encodeConfigJson(json: string): string {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(json)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Default logo area: the branding logo, if one is set
+ */
+function getDefaultLogoHtml(branding: BrandingConfig): string {
+  if (!branding.appLogo) return '';
+  return `<img src="${escapeHtml(branding.appLogo)}" alt="${escapeHtml(branding.appName)}" class="h-8" />`;
+}
+
+/**
+ * Default footer: "Powered by x402 Protocol"
+ */
+function getDefaultFooterHtml(messages: PaywallMessages): string {
+  return `<p class="text-muted text-xs">
+        ${formatMessage(escapeHtml(messages.poweredBy), {
+          link: `<a href="${X402_PROTOCOL_URL}" target="_blank" class="text-brand-primary hover:underline transition-colors">x402 Protocol</a>`,
+        })}
+      </p>`;
+}
+
+/**
+ * Light/dark toggle in the card's top corner
+ */
+function getColorSchemeToggleHtml(label: string): string {
+  return `<button
+        type="button"
+        id="color-scheme-toggle"
+        data-x402-action="toggleColorScheme"
+        class="color-scheme-toggle p-2 rounded-lg text-muted transition-colors"
+        aria-label="${escapeHtml(label)}"
+        title="${escapeHtml(label)}"
+      >
+        <svg class="w-4 h-4" fill="none" stroke="currentColor" stroke-width="2" viewBox="0 0 24 24" aria-hidden="true" focusable="false">
+          <circle cx="12" cy="12" r="9"/>
+          <path d="M12 3a9 9 0 010 18z" fill="currentColor"/>
+        </svg>
+      </button>`;
+}
+
 /**
  * Generate preview controls HTML
  */
@@ -110,12 +268,12 @@ function getPreviewControlsHtml(
         padding: 6px;
         border-radius: 9999px;
         z-index: 9999;
-        background: ${theme.card}EE;
+        background: ${withAlpha(theme.card, 0.93)};
         border: 1px solid ${theme.border};
         backdrop-filter: blur(12px);
         -webkit-backdrop-filter: blur(12px);
       ">
-      <button type="button" onclick="window.togglePreviewControls()" 
+      <button type="button" data-x402-action="togglePreviewControls" 
         style="
           padding: 4px 8px;
           border-radius: 9999px;
@@ -126,12 +284,12 @@ function getPreviewControlsHtml(
           color: ${theme.muted};
         "
         title="Hide controls">
-        <svg style="width: 12px; height: 12px;" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <svg style="width: 12px; height: 12px;" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true" focusable="false">
           <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M6 18L18 6M6 6l12 12"/>
         </svg>
       </button>
       <div style="width: 1px; height: 16px; margin: 0 4px; background: ${theme.border};"></div>
-      <button type="button" onclick="window.showState('connect')" data-state="connect" 
+      <button type="button" data-x402-action="showState" data-x402-arg="connect" data-state="connect" 
         style="
           padding: 4px 12px;
           border-radius: 9999px;
@@ -142,7 +300,7 @@ function getPreviewControlsHtml(
           background: ${theme.foreground};
           color: ${theme.card};
         ">Connect</button>
-      <button type="button" onclick="window.showState('connected')" data-state="connected" 
+      <button type="button" data-x402-action="showState" data-x402-arg="connected" data-state="connected" 
         style="
           padding: 4px 12px;
           border-radius: 9999px;
@@ -153,7 +311,18 @@ function getPreviewControlsHtml(
           background: transparent;
           color: ${theme.foreground};
         ">Connected</button>
-      <button type="button" onclick="window.showState('processing')" data-state="processing" 
+      <button type="button" data-x402-action="showState" data-x402-arg="insufficient" data-state="insufficient" 
+        style="
+          padding: 4px 12px;
+          border-radius: 9999px;
+          font-size: 12px;
+          font-weight: 500;
+          cursor: pointer;
+          border: none;
+          background: transparent;
+          color: ${theme.foreground};
+        ">Insufficient</button>
+      <button type="button" data-x402-action="showState" data-x402-arg="processing" data-state="processing" 
         style="
           padding: 4px 12px;
           border-radius: 9999px;
@@ -164,7 +333,7 @@ function getPreviewControlsHtml(
           background: transparent;
           color: ${theme.foreground};
         ">Processing</button>
-      <button type="button" onclick="window.showState('success')" data-state="success" 
+      <button type="button" data-x402-action="showState" data-x402-arg="success" data-state="success" 
         style="
           padding: 4px 12px;
           border-radius: 9999px;
@@ -175,7 +344,7 @@ function getPreviewControlsHtml(
           background: transparent;
           color: ${theme.foreground};
         ">Success</button>
-      <button type="button" onclick="window.showState('error')" data-state="error" 
+      <button type="button" data-x402-action="showState" data-x402-arg="error" data-state="error" 
         style="
           padding: 4px 12px;
           border-radius: 9999px;
@@ -189,7 +358,7 @@ function getPreviewControlsHtml(
     </div>
     
     <!-- Toggle button to show controls again -->
-    <button type="button" id="preview-controls-toggle" onclick="window.togglePreviewControls()" 
+    <button type="button" id="preview-controls-toggle" data-x402-action="togglePreviewControls" 
       style="
         display: none;
         position: fixed;
@@ -203,14 +372,14 @@ function getPreviewControlsHtml(
         z-index: 9999;
         cursor: pointer;
         border: none;
-        background: ${theme.card}EE;
+        background: ${withAlpha(theme.card, 0.93)};
         border: 1px solid ${theme.border};
         color: ${theme.foreground};
         backdrop-filter: blur(12px);
         -webkit-backdrop-filter: blur(12px);
       ">
       <span style="display: flex; align-items: center; gap: 8px;">
-        <svg style="width: 12px; height: 12px;" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <svg style="width: 12px; height: 12px;" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true" focusable="false">
           <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"/>
           <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z"/>
         </svg>
@@ -220,28 +389,149 @@ function getPreviewControlsHtml(
   `;
 }
 
+/**
+ * Connect buttons for EVM wallets (wallet picker, injected wallet fallback +
+ * optional WalletConnect)
+ */
+function getEvmConnectButtonsHtml(
+  hasWalletConnect: boolean,
+  messages: PaywallMessages,
+): string {
+  return `
+          <!-- EIP-6963 wallets (filled in by renderWalletPicker) -->
+          <div
+            id="wallet-picker"
+            class="hidden space-y-3"
+            role="group"
+            aria-label="${escapeHtml(messages.chooseWallet)}"
+          ></div>
+
+          <!-- MetaMask / Injected Wallet Button (shown when no wallet announces itself) -->
+          <button
+            id="btn-metamask"
+            data-x402-action="connectMetaMask"
+            class="btn-animate w-full bg-brand-primary hover:bg-brand-primary-hover text-white font-semibold py-3 px-4 rounded-lg shadow-lg flex items-center justify-center gap-2"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true" focusable="false">
+              <path d="M19 7V4a1 1 0 0 0-1-1H5a2 2 0 0 0 0 4h15a1 1 0 0 1 1 1v4h-3a2 2 0 0 0 0 4h3a1 1 0 0 0 1-1v-2a1 1 0 0 0-1-1"/>
+              <path d="M3 5v14a2 2 0 0 0 2 2h15a1 1 0 0 0 1-1v-4"/>
+            </svg>
+            <span id="btn-metamask-text">${escapeHtml(messages.connectWallet)}</span>
+          </button>
+
+          ${
+            hasWalletConnect
+              ? `
+          <!-- WalletConnect Button -->
+          <button
+            id="btn-walletconnect"
+            data-x402-action="connectWalletConnect"
+            class="btn-secondary-animate w-full bg-background hover:bg-border text-foreground font-semibold py-3 px-4 rounded-lg border border-border flex items-center justify-center gap-2"
+          >
+            <svg class="w-5 h-5" viewBox="0 0 24 24" fill="currentColor" aria-hidden="true" focusable="false">
+              <path d="M6.09 10.26c3.26-3.19 8.54-3.19 11.8 0l.39.38c.16.16.16.42 0 .58l-1.34 1.31c-.08.08-.21.08-.29 0l-.54-.53c-2.27-2.22-5.96-2.22-8.24 0l-.58.56c-.08.08-.21.08-.29 0L5.66 11.2c-.16-.16-.16-.42 0-.58l.43-.36zm14.58 2.71l1.19 1.17c.16.16.16.42 0 .58l-5.37 5.26c-.16.16-.42.16-.58 0l-3.81-3.73c-.04-.04-.11-.04-.15 0l-3.81 3.73c-.16.16-.42.16-.58 0L2.19 14.72c-.16-.16-.16-.42 0-.58l1.19-1.17c.16-.16.42-.16.58 0l3.81 3.73c.04.04.11.04.15 0l3.81-3.73c.16-.16.42-.16.58 0l3.81 3.73c.04.04.11.04.15 0l3.81-3.73c.16-.16.42-.16.58 0z"/>
+            </svg>
+            WalletConnect
+          </button>
+          `
+              : ''
+          }
+  `;
+}
+
+/**
+ * Connect buttons for Solana wallets (Phantom + Solflare)
+ */
+function getSolanaConnectButtonsHtml(): string {
+  return `
+          <!-- Phantom Wallet Button -->
+          <button
+            id="btn-phantom"
+            data-x402-action="connectPhantom"
+            class="btn-animate w-full bg-brand-primary hover:bg-brand-primary-hover text-white font-semibold py-3 px-4 rounded-lg shadow-lg flex items-center justify-center gap-2"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true" focusable="false">
+              <path d="M19 7V4a1 1 0 0 0-1-1H5a2 2 0 0 0 0 4h15a1 1 0 0 1 1 1v4h-3a2 2 0 0 0 0 4h3a1 1 0 0 0 1-1v-2a1 1 0 0 0-1-1"/>
+              <path d="M3 5v14a2 2 0 0 0 2 2h15a1 1 0 0 0 1-1v-4"/>
+            </svg>
+            <span id="btn-phantom-text">Phantom</span>
+          </button>
+
+          <!-- Solflare Wallet Button -->
+          <button
+            id="btn-solflare"
+            data-x402-action="connectSolflare"
+            class="btn-secondary-animate w-full bg-background hover:bg-border text-foreground font-semibold py-3 px-4 rounded-lg border border-border flex items-center justify-center gap-2"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true" focusable="false">
+              <circle cx="12" cy="12" r="4"/>
+              <path d="M12 2v2M12 20v2M4.93 4.93l1.41 1.41M17.66 17.66l1.41 1.41M2 12h2M20 12h2M6.34 17.66l-1.41 1.41M19.07 4.93l-1.41 1.41"/>
+            </svg>
+            <span id="btn-solflare-text">Solflare</span>
+          </button>
+  `;
+}
+
+/**
+ * Wallet picker in preview mode: announced wallets, else sample ones so the
+ * layout can be previewed without a wallet installed
+ */
+function getPreviewWalletPickerScript(): string {
+  return `
+    ${getWalletPickerScript()}
+
+    var previewWallets = [
+      { id: 'io.metamask', name: 'MetaMask' },
+      { id: 'io.rabby', name: 'Rabby Wallet' },
+      { id: 'com.coinbase.wallet', name: 'Coinbase Wallet' },
+    ];
+
+    function updatePreviewWalletPicker() {
+      var wallets = getDiscoveredWallets();
+      renderWalletPicker(wallets.length > 0 ? wallets : previewWallets);
+    }
+
+    window.connectInjectedWallet = function() {
+      window.showState('connected');
+    };
+
+    discoverWallets(updatePreviewWalletPicker);
+    updatePreviewWalletPicker();
+  `;
+}
+
 /**
  * Generate preview mode script
  */
 function getPreviewScript(
   preview: PreviewConfig | undefined,
   theme: ThemeConfig,
+  family: PaywallFamily,
 ): string {
   if (!preview?.isPreview) return '';
 
   const mockAddress =
-    preview.mockAddress || '0x742d35Cc6634C0532925a3b844Bc9e7595f3F3B9';
-  const mockBalances = preview.mockBalances || [
-    { chainName: 'Base', balance: '125.50' },
-    { chainName: 'Ethereum', balance: '45.25' },
-  ];
+    preview.mockAddress ||
+    (family === 'svm'
+      ? '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU'
+      : '0x742d35Cc6634C0532925a3b844Bc9e7595f3F3B9');
+  const mockBalances =
+    preview.mockBalances ||
+    (family === 'svm'
+      ? [{ chainName: 'Solana', balance: '125.50' }]
+      : [
+          { chainName: 'Base', balance: '125.50' },
+          { chainName: 'Ethereum', balance: '45.25' },
+        ]);
 
-  // Note: All functions must be in global scope for onclick handlers to work
+  // Note: All functions must be in global scope for data-x402-action buttons to work
   return `
     // ===== Preview Mode =====
     window.isPreviewMode = true;
-    window.mockAddress = '${mockAddress}';
-    window.mockBalances = ${JSON.stringify(mockBalances)};
+    ${getBalanceCheckScript(family)}
+    ${getPaymentReceiptScript(family)}
+    window.mockAddress = ${JSON.stringify(mockAddress).replace(/</g, '\\u003c')};
+    window.mockBalances = ${JSON.stringify(mockBalances).replace(/</g, '\\u003c')};
     
     // Toggle preview controls visibility (global scope)
     window.togglePreviewControls = function() {
@@ -260,8 +550,14 @@ function getPreviewScript(
     };
     
     // Navigate between preview states (global scope)
+    // 'insufficient' is the connected state with a shortfall notice
     window.showState = function(state) {
+      var targetState = state === 'insufficient' ? 'connected' : state;
       var states = ['connect', 'connected', 'processing', 'success', 'error'];
+      var previous = states.find(function(s) {
+        var el = document.getElementById('state-' + s);
+        return el && !el.classList.contains('hidden');
+      });
       
       // Hide all states
       states.forEach(function(s) {
@@ -273,7 +569,7 @@ function getPreviewScript(
       });
       
       // Show target state with animation
-      var targetEl = document.getElementById('state-' + state);
+      var targetEl = document.getElementById('state-' + targetState);
       if (targetEl) {
         targetEl.classList.remove('hidden');
         // Trigger reflow for animation
@@ -295,7 +591,7 @@ function getPreviewScript(
       });
       
       // Populate mock data for connected state
-      if (state === 'connected') {
+      if (targetState === 'connected') {
         var addrEl = document.getElementById('connected-address');
         if (addrEl) {
           var addr = window.mockAddress;
@@ -305,11 +601,15 @@ function getPreviewScript(
         // Populate balance container
         var balanceContainer = document.getElementById('balance-container');
         if (balanceContainer && window.mockBalances && window.mockBalances.length > 0) {
+          // The first chain is the one short of funds
+          var balances = state === 'insufficient'
+            ? window.mockBalances.map(function(b, i) { return i === 0 ? { chainName: b.chainName, balance: '0.00' } : b; })
+            : window.mockBalances;
           balanceContainer.classList.remove('hidden');
-          balanceContainer.innerHTML = window.mockBalances.map(function(b) {
-            return '<div class="balance-card flex items-center justify-between text-sm py-2 px-3 rounded-lg mb-1" style="background: ${theme.background}88;">' +
+          balanceContainer.innerHTML = balances.map(function(b) {
+            return '<div class="balance-card flex items-center justify-between text-sm py-2 px-3 rounded-lg mb-1" style="background: ${withAlpha(theme.background, 0.53)};">' +
               '<span style="color: ${theme.muted};">' + b.chainName + '</span>' +
-              '<span style="color: ${theme.foreground};" class="font-medium">' + b.balance + ' USDC</span>' +
+              '<span style="color: ${theme.foreground};" class="font-medium">' + b.balance + ' ' + ((window.x402Config && window.x402Config.token && window.x402Config.token.symbol) || 'USDC') + '</span>' +
               '</div>';
           }).join('');
         }
@@ -319,10 +619,59 @@ function getPreviewScript(
       if (state === 'error') {
         var errorEl = document.getElementById('error-message');
         if (errorEl) {
-          errorEl.textContent = 'User rejected the transaction request.';
+          errorEl.textContent = t('transactionRejected');
         }
       }
+
+      renderInsufficientBalance(state === 'insufficient' ? getPreviewInsufficientBalance() : null);
+
+      // Sample receipt for success content that has a receipt panel
+      if (targetState === 'success' && typeof showPaymentReceipt === 'function') {
+        showPaymentReceipt(getPreviewReceipt());
+      }
+
+      if (previous !== targetState) announceStateChange(targetState);
     };
+
+    // Sample receipt for the page's price, paid from the mock wallet
+    function getPreviewReceipt() {
+      var config = window.x402Config || {};
+      var txHash = ${family === 'svm' ? "'5VERv8NMvzbJMEkV8xnrLkEaWRtSz9CosKDYjCJjBRnbJLgp8uirBgmQpjKhoR4tjF3ZpRzrFmBV6UjKdiSZkQUW'" : "'0x' + '9f3c'.repeat(16)"};
+      return {
+        amount: config.formattedAmount || String(config.amount != null ? config.amount : ''),
+        symbol: (config.token && config.token.symbol) || 'USDC',
+        payer: window.mockAddress,
+        payee: config.payTo || '',
+        network: config.network || '',
+        networkName: config.chainName || config.network || '',
+        txHash: txHash,
+        explorerUrl: getExplorerTxUrl(config.blockExplorer, txHash),
+        resource: config.currentUrl || window.location.href,
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    // Sample shortfall: no funds on the page's chain, the next mock chain funded
+    function getPreviewInsufficientBalance() {
+      var config = window.x402Config || {};
+      var symbol = (config.token && config.token.symbol) || 'USDC';
+      var links = config.fundingLinks || {};
+      var alternative = window.mockBalances && window.mockBalances[1];
+      var fundingLinks = [
+        { label: t('buyToken', { symbol: symbol }), href: links.onramp || '#' },
+        { label: t('bridgeToken', { symbol: symbol }), href: links.bridge || '#' },
+      ];
+      if (config.testnet && links.faucet !== false) {
+        fundingLinks.push({ label: t('testnetFaucet', { symbol: symbol }), href: links.faucet || DEFAULT_FAUCET_URL });
+      }
+      return {
+        symbol: symbol,
+        chainName: config.chainName || (window.mockBalances && window.mockBalances[0] && window.mockBalances[0].chainName) || '',
+        shortfall: String(config.amount != null ? config.amount : ''),
+        alternative: alternative ? { index: 1, chainName: alternative.chainName } : null,
+        links: fundingLinks,
+      };
+    }
     
     // Override wallet functions for preview mode (global scope)
     window.connectMetaMask = function() { 
@@ -332,6 +681,19 @@ function getPreviewScript(
     window.connectWalletConnect = function() { 
       window.showState('connected'); 
     };
+    ${family === 'evm' ? getPreviewWalletPickerScript() : ''}
+    
+    window.connectPhantom = function() {
+      window.showState('connected');
+    };
+    
+    window.connectSolflare = function() {
+      window.showState('connected');
+    };
+    
+    window.selectPaymentOption = function() {
+      window.showState('connected');
+    };
     
     window.signPayment = function() { 
       window.showState('processing');
@@ -348,44 +710,82 @@ function getPreviewScript(
   `;
 }
 
+/**
+ * WalletConnect needs its relay server, so it is EVM-only and left out of
+ * self-contained pages
+ */
+function hasWalletConnectButton(options: HtmlBuilderOptions): boolean {
+  return (
+    (options.family || 'evm') === 'evm' &&
+    !options.selfContained &&
+    !!options.walletConnectProjectId
+  );
+}
+
 /**
  * Build complete paywall HTML page
  */
 export function buildPaywallHtml(options: HtmlBuilderOptions): string {
   const theme = options.theme || NAMEFI_THEME;
   const branding = options.branding || NAMEFI_BRANDING;
-  const hasWalletConnect = !!options.walletConnectProjectId;
+  const family = options.family || 'evm';
+  const selfContained = options.selfContained ?? false;
+  const hasWalletConnect = hasWalletConnectButton(options);
+  const colorScheme = options.colorScheme ?? 'auto';
+  const hasColorSchemeToggle =
+    !!options.colorSchemeToggle && isThemeVariants(theme);
   const isPreview = options.preview?.isPreview ?? false;
   const showPreviewControls = options.preview?.showPreviewControls ?? true;
+  const nonce = options.cspNonce;
+  const nonceAttr = getNonceAttribute(nonce);
+  const locale = resolveLocale(options.locale);
+  const messages = getLocaleMessages(locale);
+  const formattedAmount =
+    options.formattedAmount ||
+    formatTokenAmount(options.amount, USDC_DECIMALS, locale);
+  const logoHtml = options.logoHtml ?? getDefaultLogoHtml(branding);
+  const footerHtml = options.footerHtml ?? getDefaultFooterHtml(messages);
 
   // Use provided base64 config, or encode the JSON config, or use the placeholder for server replacement
   const configJsonB64 = options.configJsonB64
     ? options.configJsonB64
     : options.configJson
-      ? btoa(options.configJson)
+      ? encodeConfigJson(options.configJson)
       : PAYWALL_CONFIG_PLACEHOLDER;
 
   return `<!DOCTYPE html>
-<html lang="en">
+<html lang="${locale}">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
   <meta name="${PAYWALL_CONFIG_META_NAME}" content="${configJsonB64}">
   <title>${escapeHtml(options.title)}</title>
-  ${getTailwindScript(theme)}
-  ${isPreview ? '' : getViemLoaderScript()}
-  ${hasWalletConnect && !isPreview ? getWalletConnectLoaderScript(options.walletConnectProjectId!) : ''}
-  ${getBaseStyles(theme)}
+  ${
+    selfContained
+      ? getInlineStyles(theme, nonce, colorScheme)
+      : getExternalStyles(theme, nonce, colorScheme, options.assetBaseUrl)
+  }
+  ${hasColorSchemeToggle ? `<script${nonceAttr}>${getColorSchemeScript(colorScheme)}</script>` : ''}
+  ${
+    isPreview
+      ? ''
+      : selfContained
+        ? getInlineRuntimeScript(family, nonce)
+        : getExternalRuntimeScript(family, nonce, options.assetBaseUrl)
+  }
+  ${hasWalletConnect && !isPreview ? getWalletConnectLoaderScript(options.walletConnectProjectId!, nonce) : ''}
+  ${getBaseStyles(theme, selfContained, nonce)}
 </head>
-<body class="min-h-screen bg-background flex items-center justify-center p-4">
+<body class="${options.embedded ? 'flex justify-center p-4' : 'min-h-screen bg-background flex items-center justify-center p-4'}">
   <div class="w-full max-w-md">
     <!-- Main Card with fancy-border and entrance animation -->
     <div class="paywall-card fancy-border bg-card rounded-xl border border-border p-6 shadow-glow-lg">
+      ${hasColorSchemeToggle ? getColorSchemeToggleHtml(messages.toggleColorScheme) : ''}
       <!-- Logo with animation -->
       ${
-        branding.appLogo
+        logoHtml
           ? `<div class="flex justify-center mb-6 slide-up stagger-1">
-        <img src="${escapeHtml(branding.appLogo)}" alt="${escapeHtml(branding.appName)}" class="h-8" />
+        ${logoHtml}
       </div>`
           : ''
       }
@@ -404,35 +804,11 @@ export function buildPaywallHtml(options: HtmlBuilderOptions): string {
       <div id="status-container" class="slide-up stagger-4">
         <!-- Connect State (Initial) -->
         <div id="state-connect" class="space-y-3">
-          <!-- MetaMask / Injected Wallet Button -->
-          <button
-            id="btn-metamask"
-            onclick="connectMetaMask()"
-            class="btn-animate w-full bg-brand-primary hover:bg-brand-primary-hover text-white font-semibold py-3 px-4 rounded-lg shadow-lg flex items-center justify-center gap-2"
-          >
-            <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
-              <path d="M19 7V4a1 1 0 0 0-1-1H5a2 2 0 0 0 0 4h15a1 1 0 0 1 1 1v4h-3a2 2 0 0 0 0 4h3a1 1 0 0 0 1-1v-2a1 1 0 0 0-1-1"/>
-              <path d="M3 5v14a2 2 0 0 0 2 2h15a1 1 0 0 0 1-1v-4"/>
-            </svg>
-            <span id="btn-metamask-text">Connect Wallet</span>
-          </button>
-
+          ${options.beforeConnectHtml ? `<div id="before-connect">${options.beforeConnectHtml}</div>` : ''}
           ${
-            hasWalletConnect
-              ? `
-          <!-- WalletConnect Button -->
-          <button
-            id="btn-walletconnect"
-            onclick="connectWalletConnect()"
-            class="btn-secondary-animate w-full bg-background hover:bg-border text-foreground font-semibold py-3 px-4 rounded-lg border border-border flex items-center justify-center gap-2"
-          >
-            <svg class="w-5 h-5" viewBox="0 0 24 24" fill="currentColor">
-              <path d="M6.09 10.26c3.26-3.19 8.54-3.19 11.8 0l.39.38c.16.16.16.42 0 .58l-1.34 1.31c-.08.08-.21.08-.29 0l-.54-.53c-2.27-2.22-5.96-2.22-8.24 0l-.58.56c-.08.08-.21.08-.29 0L5.66 11.2c-.16-.16-.16-.42 0-.58l.43-.36zm14.58 2.71l1.19 1.17c.16.16.16.42 0 .58l-5.37 5.26c-.16.16-.42.16-.58 0l-3.81-3.73c-.04-.04-.11-.04-.15 0l-3.81 3.73c-.16.16-.42.16-.58 0L2.19 14.72c-.16-.16-.16-.42 0-.58l1.19-1.17c.16-.16.42-.16.58 0l3.81 3.73c.04.04.11.04.15 0l3.81-3.73c.16-.16.42-.16.58 0l3.81 3.73c.04.04.11.04.15 0l3.81-3.73c.16-.16.42-.16.58 0z"/>
-            </svg>
-            WalletConnect
-          </button>
-          `
-              : ''
+            family === 'svm'
+              ? getSolanaConnectButtonsHtml()
+              : getEvmConnectButtonsHtml(hasWalletConnect, messages)
           }
         </div>
 
@@ -441,43 +817,50 @@ export function buildPaywallHtml(options: HtmlBuilderOptions): string {
           <div class="flex items-center justify-between p-3 bg-background rounded-lg border border-border">
             <div class="flex items-center gap-2">
               <div class="w-2 h-2 rounded-full bg-brand-primary animate-pulse"></div>
-              <span class="text-sm text-muted">Connected</span>
+              <span class="text-sm text-muted">${escapeHtml(messages.connected)}</span>
             </div>
             <span id="connected-address" class="text-sm text-foreground font-mono"></span>
           </div>
           
-          <!-- Balance Display -->
+          <!-- Payment Options with Balances -->
           <div id="balance-container" class="hidden bg-background rounded-lg p-3 border border-border">
-            <!-- Balance content will be populated by JavaScript -->
+            <!-- Accepted payment options and balances are populated by JavaScript -->
           </div>
+
+          <!-- Shortfall notice with funding links (populated by renderInsufficientBalance) -->
+          <div id="insufficient-balance" class="hidden space-y-2 p-3 bg-destructive/10 border border-destructive/30 rounded-lg" role="status"></div>
           
           <button
             id="btn-pay"
-            onclick="signPayment()"
-            class="btn-animate w-full bg-brand-primary hover:bg-brand-primary-hover text-white font-semibold py-3 px-4 rounded-lg shadow-lg flex items-center justify-center gap-2"
+            data-x402-action="signPayment"
+            data-x402-primary
+            class="btn-animate w-full bg-brand-primary hover:bg-brand-primary-hover text-white font-semibold py-3 px-4 rounded-lg shadow-lg flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+            <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true" focusable="false">
               <path d="M12 2v20M17 5H9.5a3.5 3.5 0 0 0 0 7h5a3.5 3.5 0 0 1 0 7H6"/>
             </svg>
-            Pay <span id="btn-pay-amount">${options.formattedAmount || options.amount.toFixed(2)}</span> USDC
+            <span>${formatMessage(escapeHtml(messages.payAmount), {
+              amount: `<span id="btn-pay-amount">${formattedAmount}</span>`,
+              symbol: `<span id="btn-pay-symbol">${escapeHtml(options.tokenSymbol || USDC_SYMBOL)}</span>`,
+            })}</span>
           </button>
           
           <button
-            onclick="disconnect()"
+            data-x402-action="disconnect"
             class="w-full text-muted hover:text-foreground text-sm py-2 transition-colors"
           >
-            Disconnect
+            ${escapeHtml(messages.disconnect)}
           </button>
         </div>
 
         <!-- Processing State -->
         <div id="state-processing" class="hidden text-center space-y-4 fade-in">
           <div class="flex justify-center">
-            <div class="spinner spinner-glow text-brand-primary w-8 h-8 border-[3px]"></div>
+            <div class="spinner spinner-glow text-brand-primary w-8 h-8 border-[3px]" aria-hidden="true"></div>
           </div>
-          <div class="pulse-subtle">
-            <p id="processing-text" class="text-foreground font-medium">Processing payment...</p>
-            <p class="text-muted text-sm mt-1">Please confirm in your wallet</p>
+          <div class="pulse-subtle" role="status" aria-live="polite" aria-atomic="true">
+            <p id="processing-text" class="text-foreground font-medium">${escapeHtml(messages.processingPayment)}</p>
+            <p class="text-muted text-sm mt-1">${escapeHtml(messages.confirmInWallet)}</p>
           </div>
         </div>
 
@@ -485,7 +868,7 @@ export function buildPaywallHtml(options: HtmlBuilderOptions): string {
         <div id="state-success" class="hidden text-center space-y-4 fade-in">
           <div class="flex justify-center">
             <div class="success-circle w-16 h-16 rounded-full bg-brand-primary/20 flex items-center justify-center">
-              <svg class="success-checkmark w-8 h-8 text-brand-primary" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <svg class="success-checkmark w-8 h-8 text-brand-primary" fill="none" stroke="currentColor" viewBox="0 0 24 24" role="img" aria-label="${escapeHtml(messages.paymentSuccessful)}">
                 <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M5 13l4 4L19 7"></path>
               </svg>
             </div>
@@ -499,38 +882,51 @@ export function buildPaywallHtml(options: HtmlBuilderOptions): string {
         <div id="state-error" class="hidden space-y-4 fade-in">
           <div class="p-4 bg-destructive/10 border border-destructive/30 rounded-lg">
             <div class="flex items-start gap-3">
-              <svg class="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <svg class="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true" focusable="false">
                 <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"></path>
               </svg>
               <div>
-                <p class="text-destructive font-medium">Payment Failed</p>
+                <p class="text-destructive font-medium">${escapeHtml(messages.paymentFailed)}</p>
                 <p id="error-message" class="text-destructive/80 text-sm mt-1"></p>
               </div>
             </div>
           </div>
           <button
-            onclick="resetState()"
+            id="btn-retry"
+            data-x402-action="resetState"
+            data-x402-primary
             class="btn-secondary-animate w-full bg-background hover:bg-border text-foreground font-semibold py-3 px-4 rounded-lg border border-border"
           >
-            Try Again
+            ${escapeHtml(messages.tryAgain)}
           </button>
         </div>
       </div>
+
+      <!-- Screen reader announcements for state changes (see getAccessibilityScript) -->
+      <div id="x402-status" class="sr-only" role="status" aria-live="polite" aria-atomic="true"></div>
+      <div id="x402-alert" class="sr-only" role="alert" aria-atomic="true"></div>
     </div>
 
     <!-- Footer -->
-    <div class="text-center mt-4 slide-up stagger-4">
-      <p class="text-muted text-xs">
-        Powered by <a href="${X402_PROTOCOL_URL}" target="_blank" class="text-brand-primary hover:underline transition-colors">x402 Protocol</a>
-      </p>
-    </div>
+    ${
+      footerHtml
+        ? `<div class="text-center mt-4 slide-up stagger-4">
+      ${footerHtml}
+    </div>`
+        : ''
+    }
   </div>
 
-  ${isPreview && showPreviewControls ? getPreviewControlsHtml(theme, showPreviewControls) : ''}
+  ${isPreview && showPreviewControls ? getPreviewControlsHtml(THEME_VARIABLES, showPreviewControls) : ''}
+
+  <!-- Localized UI strings (t) and number formatting, used by all scripts below -->
+  <script${nonceAttr}>
+    ${getLocalizationScript(locale)}
+  </script>
 
   <!-- Configuration injected from server -->
   <!-- <CONFIG_JSON> -->
-  <script>
+  <script${nonceAttr}>
     // Fallback configuration injected from server
     // Can be overridden via x-paywall-config header (base64-encoded JSON in meta tag)
     // window._x402FallbackConfig = {};
@@ -538,23 +934,65 @@ export function buildPaywallHtml(options: HtmlBuilderOptions): string {
   <!-- </CONFIG_JSON> -->
 
   <!-- Config resolution: reads from meta tag (header) or falls back to window global -->
-  <script>
+  <script${nonceAttr}>
     ${getConfigResolutionScript()}
   </script>
 
-  <script>
+  <!-- Click handlers for data-x402-action buttons (no inline onclick, CSP-safe) -->
+  <script${nonceAttr}>
+    ${getActionListenerScript()}
+  </script>
+
+  <!-- State change announcements, focus management and keyboard support -->
+  <script${nonceAttr}>
+    ${getAccessibilityScript()}
+  </script>
+
+  ${
+    isPreview
+      ? ''
+      : `<!-- x402:* lifecycle events and parent window commands -->
+  <script${nonceAttr}>
+    ${getLifecycleEventsScript(options.parentOrigins)}
+  </script>`
+  }
+
+  <script${nonceAttr}>
     ${
       isPreview
-        ? getPreviewScript(options.preview, theme)
-        : `
+        ? getPreviewScript(options.preview, THEME_VARIABLES, family)
+        : family === 'svm'
+          ? `
+    ${getDebugLoggingScript()}
+    ${getSolanaWalletStateScript()}
+    ${getSolanaPaymentOptionsScript()}
+    ${getBalanceCheckScript('svm')}
+    ${getPaymentReceiptScript('svm')}
+    ${getConnectSolanaWalletScript()}
+    ${getSubmitPaymentScript()}
+    ${getPaidResponseScript({ onSuccessScript: options.onSuccessScript })}
+    ${getSolanaSignPaymentScript()}
+    ${getSolanaDOMContentLoadedScript()}
+    ${getAccessTokenScript()}
+    ${getRequirementsRefreshScript()}
+    `
+          : `
     ${getDebugLoggingScript()}
     ${getBalanceCheckingScript()}
     ${getViemHelpersScript()}
     ${getWalletStateScript()}
+    ${getWalletPickerScript()}
+    ${getPaymentOptionsScript()}
+    ${getBalanceCheckScript('evm')}
+    ${getPaymentReceiptScript('evm')}
     ${getConnectMetaMaskScript()}
     ${getConnectWalletConnectScript(hasWalletConnect)}
-    ${getSignPaymentScript({ onSuccessScript: options.onSuccessScript })}
+    ${getSubmitPaymentScript()}
+    ${getPaidResponseScript({ onSuccessScript: options.onSuccessScript })}
+    ${getSignPaymentScript()}
     ${getDOMContentLoadedScript()}
+    ${getAccessTokenScript()}
+    ${getRequirementsRefreshScript()}
     `
     }
     ${options.additionalScripts || ''}
@@ -563,6 +1001,42 @@ export function buildPaywallHtml(options: HtmlBuilderOptions): string {
 </html>`;
 }
 
+/**
+ * Build the paywall page together with the Content-Security-Policy header
+ * recommended for serving it.
+ *
+ * @example
+ * ```typescript
+ * const nonce = crypto.randomUUID().replace(/-/g, '');
+ * const { html, contentSecurityPolicy } = buildPaywallDocument({
+ *   ...options,
+ *   cspNonce: nonce,
+ *   connectSrc: ['https://mainnet.base.org'],
+ * });
+ * return new Response(html, {
+ *   headers: {
+ *     'Content-Type': 'text/html',
+ *     'Content-Security-Policy': contentSecurityPolicy,
+ *   },
+ * });
+ * ```
+ */
+export function buildPaywallDocument(
+  options: HtmlBuilderOptions,
+): PaywallDocument {
+  return {
+    html: buildPaywallHtml(options),
+    contentSecurityPolicy: getPaywallContentSecurityPolicy({
+      nonce: options.cspNonce,
+      selfContained: options.selfContained,
+      assetBaseUrl: options.assetBaseUrl,
+      walletConnect:
+        hasWalletConnectButton(options) && !options.preview?.isPreview,
+      connectSrc: options.connectSrc,
+    }),
+  };
+}
+
 /**
  * Populate the meta tag placeholder with base64-encoded config JSON.
  *
@@ -590,6 +1064,6 @@ export function populateMetaTagPaywallConfig(
   template: string,
   config: unknown,
 ): string {
-  const configJsonB64 = config ? btoa(JSON.stringify(config)) : '';
+  const configJsonB64 = config ? encodeConfigJson(JSON.stringify(config)) : '';
   return template.replace(PAYWALL_CONFIG_PLACEHOLDER, configJsonB64);
 }
@@ -0,0 +1,181 @@
+/**
+ * Localization for x402 paywall pages
+ *
+ * Message packs are keyed by BCP 47 locale (see ./locales). The page is
+ * rendered in one locale and embeds its pack, so the browser scripts look up
+ * runtime strings (errors, progress text) through the same catalog.
+ */
+
+import { DEFAULT_LOCALE } from './constants';
+import {
+  EN_MESSAGES,
+  type PaywallMessageId,
+  type PaywallMessages,
+} from './locales/en';
+import { ES_MESSAGES } from './locales/es';
+import { ZH_MESSAGES } from './locales/zh';
+import { JA_MESSAGES } from './locales/ja';
+import { PT_BR_MESSAGES } from './locales/pt-BR';
+
+export type { PaywallMessageId, PaywallMessages };
+
+/**
+ * Registered message packs, keyed by locale
+ */
+const LOCALE_MESSAGES: Record<string, PaywallMessages> = {
+  en: EN_MESSAGES,
+  es: ES_MESSAGES,
+  zh: ZH_MESSAGES,
+  ja: JA_MESSAGES,
+  'pt-BR': PT_BR_MESSAGES,
+};
+
+/**
+ * Register (or extend) a locale's message pack.
+ *
+ * Missing messages fall back to the locale's existing pack, then English,
+ * so this also overrides individual strings of a built-in locale.
+ *
+ * @example
+ * ```typescript
+ * registerLocale('fr', { paymentRequired: 'Paiement requis', ... });
+ * registerLocale('en', { connectWallet: 'Connect' });
+ * ```
+ */
+export function registerLocale(
+  locale: string,
+  messages: Partial<PaywallMessages>,
+): void {
+  LOCALE_MESSAGES[locale] = {
+    ...EN_MESSAGES,
+    ...LOCALE_MESSAGES[locale],
+    ...messages,
+  };
+}
+
+/**
+ * Locales with a registered message pack
+ */
+export function getRegisteredLocales(): string[] {
+  return Object.keys(LOCALE_MESSAGES);
+}
+
+/**
+ * Find the registered locale for a language tag: an exact (case-insensitive)
+ * match first, then one with the same primary language (`pt-PT` -> `pt-BR`).
+ */
+function matchLocale(tag: string): string | undefined {
+  const locales = getRegisteredLocales();
+  const normalized = tag.trim().toLowerCase();
+  const exact = locales.find((locale) => locale.toLowerCase() === normalized);
+  if (exact) return exact;
+
+  const language = normalized.split('-')[0];
+  return locales.find(
+    (locale) => locale.toLowerCase().split('-')[0] === language,
+  );
+}
+
+/**
+ * Resolve a requested locale to a registered one, defaulting to English
+ */
+export function resolveLocale(locale?: string): string {
+  return (locale && matchLocale(locale)) || DEFAULT_LOCALE;
+}
+
+/**
+ * Pick the best registered locale for an `Accept-Language` header value.
+ *
+ * @example
+ * ```typescript
+ * negotiateLocale('pt-BR,pt;q=0.9,en;q=0.8'); // 'pt-BR'
+ * negotiateLocale('fr-CH, fr;q=0.9');         // 'en' (no French pack)
+ * ```
+ */
+export function negotiateLocale(acceptLanguage?: string | null): string {
+  if (!acceptLanguage) return DEFAULT_LOCALE;
+
+  const ranges = acceptLanguage
+    .split(',')
+    .map((part) => {
+      const [tag = '', ...params] = part.trim().split(';');
+      const q = params
+        .map((param) => param.trim())
+        .find((param) => param.startsWith('q='));
+      return { tag: tag.trim(), q: q ? Number(q.slice(2)) : 1 };
+    })
+    .filter(({ tag, q }) => tag && tag !== '*' && q > 0)
+    .sort((a, b) => b.q - a.q);
+
+  for (const { tag } of ranges) {
+    const locale = matchLocale(tag);
+    if (locale) return locale;
+  }
+  return DEFAULT_LOCALE;
+}
+
+/**
+ * Message pack for a locale (resolved as in `resolveLocale`)
+ */
+export function getLocaleMessages(locale?: string): PaywallMessages {
+  return LOCALE_MESSAGES[resolveLocale(locale)] ?? EN_MESSAGES;
+}
+
+/**
+ * Fill `{name}` placeholders in a message. Unknown placeholders are kept.
+ */
+export function formatMessage(
+  message: string,
+  params: Record<string, string | number> = {},
+): string {
+  return message.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+    key in params ? String(params[key]) : placeholder,
+  );
+}
+
+/**
+ * Browser-side localization: the page's locale and message pack, `t()` for
+ * message lookup and locale-aware amount formatting.
+ *
+ * Rendered before every other script so they can all use it.
+ */
+export function getLocalizationScript(locale: string = DEFAULT_LOCALE): string {
+  const messages = getLocaleMessages(locale);
+  // Escape '<' so a message can never close the script tag
+  const messagesJson = JSON.stringify(messages).replace(/</g, '\\u003c');
+
+  return `
+    // ===== Localization =====
+    const x402Locale = ${JSON.stringify(resolveLocale(locale))};
+    const x402Messages = ${messagesJson};
+
+    // Look up a UI string and fill its {placeholders}
+    function t(id, params) {
+      const message = x402Messages[id] ?? id;
+      return message.replace(/\\{(\\w+)\\}/g, (placeholder, key) =>
+        params && key in params ? String(params[key]) : placeholder
+      );
+    }
+
+    // Like t(), but HTML-escapes the message and inserts params as markup
+    function tHtml(id, htmlParams) {
+      const message = (x402Messages[id] ?? id)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+      return message.replace(/\\{(\\w+)\\}/g, (placeholder, key) =>
+        htmlParams && key in htmlParams ? String(htmlParams[key]) : placeholder
+      );
+    }
+
+    // Format a token amount for the page's locale (mirrors formatTokenAmount)
+    function formatLocalizedAmount(amount, decimals) {
+      const subCent = amount < 0.01;
+      return new Intl.NumberFormat(x402Locale, {
+        minimumFractionDigits: subCent ? 0 : 2,
+        maximumFractionDigits: subCent ? Math.min(decimals ?? 6, 8) : 2,
+      }).format(amount);
+    }
+  `;
+}
@@ -0,0 +1,166 @@
+/**
+ * Assets for paywall pages
+ *
+ * Precompiled, theme-parameterised CSS and the pre-bundled payment and wallet
+ * runtimes from ./inline-assets.generated.ts. Pages load them as files from
+ * the package's dist/ directory (jsDelivr by default), pinned by their
+ * integrity hashes; self-contained pages inline them instead.
+ */
+
+import type {
+  ColorScheme,
+  InlineAsset,
+  InlineAssetSizeReport,
+  PaywallFamily,
+  ThemeConfig,
+  ThemeVariants,
+} from './types';
+import { NAMEFI_THEME } from './constants';
+import { getNonceAttribute } from './csp';
+import { getThemeVariablesCss } from './styles';
+import {
+  EVM_RUNTIME,
+  INLINE_CSS,
+  PAYMENT_RUNTIME,
+  PAYWALL_ASSETS_CDN_URL,
+  SOLANA_RUNTIME,
+} from './inline-assets.generated';
+
+export { PAYWALL_ASSETS_CDN_URL };
+
+/**
+ * Wallet runtime bundle for a wallet family
+ */
+function getRuntimeAsset(family: PaywallFamily): InlineAsset {
+  return family === 'svm' ? SOLANA_RUNTIME : EVM_RUNTIME;
+}
+
+/**
+ * URL of an asset's file under `assetBaseUrl`, escaped for an attribute
+ */
+function getAssetUrl(asset: InlineAsset, assetBaseUrl?: string): string {
+  const base = (assetBaseUrl || PAYWALL_ASSETS_CDN_URL).replace(/\/?$/, '/');
+  return (base + asset.file).replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Integrity and CORS attributes for a pinned asset file
+ */
+function getIntegrityAttributes(asset: InlineAsset): string {
+  return ` integrity="${asset.integrity}" crossorigin="anonymous"`;
+}
+
+/**
+ * Generates the stylesheet tags: theme custom properties inline, plus the
+ * precompiled Tailwind utilities loaded from `assetBaseUrl`
+ */
+export function getExternalStyles(
+  theme: ThemeConfig | ThemeVariants = NAMEFI_THEME,
+  nonce?: string,
+  colorScheme?: ColorScheme,
+  assetBaseUrl?: string,
+): string {
+  return `
+  <style${getNonceAttribute(nonce)}>${getThemeVariablesCss(theme, colorScheme)}
+  </style>
+  <link rel="stylesheet" href="${getAssetUrl(INLINE_CSS, assetBaseUrl)}"${getIntegrityAttributes(INLINE_CSS)}${getNonceAttribute(nonce)}>`;
+}
+
+/**
+ * Generates the runtime script tags loading the payment and wallet runtimes
+ * (see getInlineRuntimeScript) from `assetBaseUrl`
+ */
+export function getExternalRuntimeScript(
+  family: PaywallFamily = 'evm',
+  nonce?: string,
+  assetBaseUrl?: string,
+): string {
+  return [PAYMENT_RUNTIME, getRuntimeAsset(family)]
+    .map(
+      (asset) =>
+        `
+  <script src="${getAssetUrl(asset, assetBaseUrl)}"${getIntegrityAttributes(asset)}${getNonceAttribute(nonce)}></script>`,
+    )
+    .join('');
+}
+
+/**
+ * Look up an asset by its dist/ file name, for serving the files yourself
+ * (see `assetBaseUrl`). Returns null for unknown names.
+ *
+ * @example
+ * ```typescript
+ * // app/paywall-assets/[file]/route.ts
+ * const asset = getPaywallAsset(params.file);
+ * if (!asset) return new Response(null, { status: 404 });
+ * return new Response(asset.code, {
+ *   headers: { 'Content-Type': asset.file.endsWith('.css') ? 'text/css' : 'text/javascript' },
+ * });
+ * ```
+ */
+export function getPaywallAsset(file: string): InlineAsset | null {
+  return (
+    [INLINE_CSS, PAYMENT_RUNTIME, EVM_RUNTIME, SOLANA_RUNTIME].find(
+      (asset) => asset.file === file,
+    ) ?? null
+  );
+}
+
+/**
+ * Generates the inline stylesheet: theme custom properties plus the
+ * precompiled Tailwind utilities that read them
+ */
+export function getInlineStyles(
+  theme: ThemeConfig | ThemeVariants = NAMEFI_THEME,
+  nonce?: string,
+  colorScheme?: ColorScheme,
+): string {
+  return `
+  <style${getNonceAttribute(nonce)}>${getThemeVariablesCss(theme, colorScheme)}
+  </style>
+  <style${getNonceAttribute(nonce)}>${INLINE_CSS.code}</style>`;
+}
+
+/**
+ * Generates the inline runtime scripts: the payment runtime (`x402Payment`,
+ * see ./evm-payment.ts) and the wallet runtime (viem for EVM, web3.js and
+ * spl-token for Solana), which sets the `viem`, `solanaWeb3` and `splToken`
+ * window globals the paywall scripts use
+ */
+export function getInlineRuntimeScript(
+  family: PaywallFamily = 'evm',
+  nonce?: string,
+): string {
+  return `
+  <script${getNonceAttribute(nonce)}>${PAYMENT_RUNTIME.code}</script>
+  <script${getNonceAttribute(nonce)}>${getRuntimeAsset(family).code}</script>`;
+}
+
+/**
+ * Size of the assets a page inlines.
+ *
+ * @example
+ * ```typescript
+ * const report = getInlineAssetSizeReport('evm');
+ * console.log(`${report.totalBytes} bytes (${report.totalGzipBytes} gzipped)`);
+ * ```
+ */
+export function getInlineAssetSizeReport(
+  family: PaywallFamily = 'evm',
+): InlineAssetSizeReport {
+  const assets = [
+    { name: 'css', asset: INLINE_CSS },
+    { name: 'payment-runtime', asset: PAYMENT_RUNTIME },
+    { name: `${family}-runtime`, asset: getRuntimeAsset(family) },
+  ].map(({ name, asset }) => ({
+    name,
+    bytes: asset.bytes,
+    gzipBytes: asset.gzipBytes,
+  }));
+
+  return {
+    assets,
+    totalBytes: assets.reduce((sum, asset) => sum + asset.bytes, 0),
+    totalGzipBytes: assets.reduce((sum, asset) => sum + asset.gzipBytes, 0),
+  };
+}
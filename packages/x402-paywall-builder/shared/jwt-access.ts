@@ -0,0 +1,267 @@
+/**
+ * JWT access tokens for x402 paywall system
+ *
+ * Lets a backend issue a signed token after settlement so the buyer can
+ * re-access a paid resource without paying again ("pay once, re-access later").
+ *
+ * Tokens are HS256 JWTs signed with the Web Crypto API, so this module works
+ * in Node.js 18+, edge runtimes and Bun without extra dependencies.
+ */
+
+import {
+  ACCESS_TOKEN_SECRET_ENV,
+  DEFAULT_ACCESS_TOKEN_TTL_SECONDS,
+} from './constants';
+
+/**
+ * Claims carried by an x402 access token
+ */
+export interface X402AccessTokenPayload {
+  /** Kind of resource the token grants access to (e.g. 'analytics', 'api') */
+  resourceType: string;
+  /** Identifier of the paid resource (e.g. a domain name or endpoint slug) */
+  resourceId: string;
+  /** Full URL of the paid resource, if the token is bound to one */
+  resourceUrl?: string;
+  /** Request parameters the payment covered (e.g. a date range) */
+  query?: Record<string, string>;
+  /** ISO timestamp of when the payment was made */
+  paidAt: string;
+  /** Wallet address of the payer */
+  buyerWallet: string;
+  /** Settlement transaction hash */
+  txHash?: string;
+  /** Chain ID the payment was settled on */
+  chainId?: number;
+  /** Issued-at time (seconds since epoch), set on generation */
+  iat?: number;
+  /** Expiry time (seconds since epoch), set on generation. Tokens without one fail verification */
+  exp?: number;
+}
+
+/**
+ * Options for signing and verifying access tokens
+ */
+export interface AccessTokenOptions {
+  /** HMAC secret. Defaults to the X402_ACCESS_TOKEN_SECRET environment variable */
+  secret?: string;
+  /** Token lifetime in seconds (generation only). Default: 24 hours */
+  expiresInSeconds?: number;
+}
+
+/**
+ * Result of verifying an access token
+ */
+export type AccessTokenVerifyResult =
+  | { valid: true; payload: X402AccessTokenPayload }
+  | { valid: false; error: string };
+
+const JWT_HEADER = { alg: 'HS256', typ: 'JWT' };
+
+/**
+ * Resolve the signing secret from options or environment
+ */
+function resolveSecret(options?: AccessTokenOptions): string {
+  const env = (
+    globalThis as { process?: { env?: Record<string, string | undefined> } }
+  ).process?.env;
+  const secret = options?.secret || env?.[ACCESS_TOKEN_SECRET_ENV];
+  if (!secret) {
+    throw new Error(
+      `Access token secret not configured. Pass options.secret or set ${ACCESS_TOKEN_SECRET_ENV}.`,
+    );
+  }
+  return secret;
+}
+
+/**
+ * Base64url-encode bytes
+ */
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Base64url-decode to bytes
+ */
+function base64UrlDecode(input: string): Uint8Array<ArrayBuffer> {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function encodeJson(value: unknown): string {
+  return base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+function decodeJson<T>(segment: string): T {
+  return JSON.parse(new TextDecoder().decode(base64UrlDecode(segment))) as T;
+}
+
+/**
+ * Import the HMAC-SHA256 key for signing or verifying
+ */
+function importKey(secret: string, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    [usage],
+  );
+}
+
+/**
+ * Generate a signed access token after a payment has settled.
+ *
+ * @param payload - Resource, payer and settlement details to bind the token to
+ * @param options - Secret and lifetime overrides
+ * @returns Compact JWT string
+ *
+ * @example
+ * ```typescript
+ * const accessToken = await generateAccessToken({
+ *   resourceType: 'api',
+ *   resourceId: 'weather',
+ *   resourceUrl: 'https://example.com/weather',
+ *   paidAt: new Date().toISOString(),
+ *   buyerWallet: payer,
+ *   txHash,
+ *   chainId: 8453,
+ * });
+ * ```
+ */
+export async function generateAccessToken(
+  payload: Omit<X402AccessTokenPayload, 'iat' | 'exp'>,
+  options?: AccessTokenOptions,
+): Promise<string> {
+  const secret = resolveSecret(options);
+  const now = Math.floor(Date.now() / 1000);
+  const claims: X402AccessTokenPayload = {
+    ...payload,
+    iat: now,
+    exp: now + (options?.expiresInSeconds ?? DEFAULT_ACCESS_TOKEN_TTL_SECONDS),
+  };
+
+  const signingInput = `${encodeJson(JWT_HEADER)}.${encodeJson(claims)}`;
+  const key = await importKey(secret, 'sign');
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    key,
+    new TextEncoder().encode(signingInput),
+  );
+
+  return `${signingInput}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verify an access token's signature and expiry.
+ *
+ * Never throws for malformed, tampered or expired tokens; returns
+ * `{ valid: false }` instead. Tokens without an `exp` claim are rejected.
+ * Throws if no secret is configured, so a misconfiguration is not mistaken
+ * for a bad token.
+ */
+export async function verifyAccessToken(
+  token: string,
+  options?: AccessTokenOptions,
+): Promise<AccessTokenVerifyResult> {
+  const secret = resolveSecret(options);
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return { valid: false, error: 'Malformed token' };
+  }
+  const [headerSegment, payloadSegment, signatureSegment] = parts as [
+    string,
+    string,
+    string,
+  ];
+
+  try {
+    const header = decodeJson<{ alg?: string }>(headerSegment);
+    if (header.alg !== JWT_HEADER.alg) {
+      return { valid: false, error: `Unsupported algorithm: ${header.alg}` };
+    }
+
+    const key = await importKey(secret, 'verify');
+    const signatureValid = await crypto.subtle.verify(
+      'HMAC',
+      key,
+      base64UrlDecode(signatureSegment),
+      new TextEncoder().encode(`${headerSegment}.${payloadSegment}`),
+    );
+    if (!signatureValid) {
+      return { valid: false, error: 'Invalid signature' };
+    }
+
+    const payload = decodeJson<X402AccessTokenPayload>(payloadSegment);
+    if (typeof payload.exp !== 'number') {
+      return { valid: false, error: 'Token has no expiry' };
+    }
+    if (payload.exp <= Math.floor(Date.now() / 1000)) {
+      return { valid: false, error: 'Token expired' };
+    }
+
+    return { valid: true, payload };
+  } catch (error) {
+    return {
+      valid: false,
+      error: error instanceof Error ? error.message : 'Invalid token',
+    };
+  }
+}
+
+/**
+ * Check whether a verified token grants access to the requested resource.
+ *
+ * Every key in the token's `query` must match the requested query, so a token
+ * paid for one date range cannot be replayed for another.
+ */
+export function tokenMatchesResource(
+  payload: X402AccessTokenPayload,
+  resourceType: string,
+  resourceId: string,
+  query?: Record<string, string>,
+): boolean {
+  if (payload.resourceType !== resourceType) return false;
+  if (payload.resourceId !== resourceId) return false;
+
+  if (payload.query) {
+    for (const [key, value] of Object.entries(payload.query)) {
+      if (query?.[key] !== value) return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Check whether a verified token is bound to the requested resource URL.
+ *
+ * Compares origin and pathname only; query strings are matched via
+ * `tokenMatchesResource` when needed.
+ */
+export function tokenMatchesResourceUrl(
+  payload: X402AccessTokenPayload,
+  url: string,
+): boolean {
+  if (!payload.resourceUrl) return false;
+  try {
+    const expected = new URL(payload.resourceUrl);
+    const actual = new URL(url);
+    return (
+      expected.origin === actual.origin && expected.pathname === actual.pathname
+    );
+  } catch {
+    return false;
+  }
+}
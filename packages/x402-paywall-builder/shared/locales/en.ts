@@ -0,0 +1,119 @@
+/**
+ * English message pack (source of truth for message IDs)
+ *
+ * `{name}` placeholders are filled in by `formatMessage` (server) and `t()`
+ * (browser). Wallet, token and protocol names are never translated.
+ */
+
+export const EN_MESSAGES = {
+  // Header and price display
+  paymentRequired: 'Payment Required',
+  accessResource: 'Access this resource',
+  totalAmount: 'Total Amount',
+  chainTestnet: '{chain} (Testnet)',
+  priceValidFor: 'Price valid for {time}',
+  updatingPrice: 'Updating price...',
+  priceUpdateFailed: 'Could not update the price. Retrying shortly...',
+  toggleColorScheme: 'Switch light/dark mode',
+
+  // Connect state
+  connectWallet: 'Connect Wallet',
+  openInWallet: 'Open in {wallet}',
+  chooseWallet: 'Choose a wallet',
+  lastUsed: 'Last used',
+  connecting: 'Connecting...',
+  connected: 'Connected',
+  disconnect: 'Disconnect',
+  payAmount: 'Pay {amount} {symbol}',
+
+  // Payment options and balances
+  paymentOption: 'Payment option',
+  balance: 'Balance',
+  checkingBalances: 'Checking balances...',
+  noPaymentMethods: 'No payment methods available',
+  failedToLoadBalances: 'Failed to load balances',
+  failedToFetchBalance: 'Failed to fetch balance',
+  balanceFailed: 'Failed',
+  insufficientBalance: 'Not enough {symbol} on {chain}',
+  balanceShortfall: 'You need {amount} {symbol} more to pay.',
+  payOnChainInstead: 'Pay on {chain} instead',
+  buyToken: 'Buy {symbol}',
+  bridgeToken: 'Bridge {symbol}',
+  testnetFaucet: 'Get testnet {symbol}',
+
+  // Processing state
+  processingPayment: 'Processing payment...',
+  confirmInWallet: 'Please confirm in your wallet',
+  preparingPayment: 'Preparing payment...',
+  switchingNetwork: 'Switching network...',
+  signInWallet: 'Please sign in your wallet...',
+  approveInWallet: 'Please approve in your wallet...',
+  submittingPayment: 'Submitting payment...',
+  checkingAccess: 'Checking your access...',
+
+  // Success state
+  paymentSuccessful: 'Payment Successful!',
+  processingResponse: 'Processing response...',
+  resourceAccessed: 'Resource accessed successfully!',
+  responseReceived: 'Payment successful! Response received.',
+  response: 'Response',
+  copy: 'Copy',
+  copied: 'Copied!',
+  download: 'Download',
+  downloadStarted: 'Download started: {filename}',
+  accessToken: 'Access Token',
+  accessTokenHint: 'Use this token to access the resource without paying again.',
+  forgetAccess: 'Forget my access on this device',
+  accessForgotten: 'Access forgotten on this device',
+  paymentReceipt: 'Payment Receipt',
+  receiptAmount: 'Amount',
+  receiptFrom: 'From',
+  receiptTo: 'To',
+  receiptNetwork: 'Network',
+  receiptTransaction: 'Transaction',
+  receiptTime: 'Time',
+  downloadReceiptAs: 'Download receipt as {format}',
+  redirectNow: 'Redirect Now',
+  redirectingIn: 'Redirecting in {seconds}s...',
+
+  // Error state
+  paymentFailed: 'Payment Failed',
+  tryAgain: 'Try Again',
+  noWalletDetected:
+    'No wallet detected. Please install MetaMask or another Web3 wallet.',
+  walletNotDetected: '{wallet} not detected. Please install the {wallet} wallet.',
+  walletNotConnected: 'Wallet not connected',
+  noPaymentOptions: 'No payment options available from server',
+  unsupportedNetwork: 'Unsupported network: {network}',
+  smartWalletNotDeployed:
+    'Your smart wallet is not deployed yet and sent no deployment data. Make one transaction with it, then try again.',
+  signatureNotVerified:
+    'The payment signature could not be verified for this wallet.',
+  connectionRejected: 'Connection rejected by user',
+  connectFailed: 'Failed to connect wallet',
+  walletConnectLoading:
+    'WalletConnect is still loading. Please wait a moment and try again.',
+  walletConnectLoadFailed:
+    'WalletConnect failed to load. Please try MetaMask instead.',
+  walletConnectFailed: 'Failed to connect via WalletConnect',
+  walletConnectNotConfigured:
+    'WalletConnect not configured. Please provide a WalletConnect Project ID.',
+  libraryLoading:
+    'Payment library still loading. Please wait a moment and try again.',
+  transactionRejected: 'Transaction rejected by user',
+  paymentFailedRetry: 'Payment failed. Please try again.',
+  paymentVerificationFailed: 'Payment verification failed',
+
+  // Footer
+  poweredBy: 'Powered by {link}',
+};
+
+/**
+ * ID of a paywall UI string
+ */
+export type PaywallMessageId = keyof typeof EN_MESSAGES;
+
+/**
+ * Complete message pack for one locale
+ */
+export type PaywallMessages = Record<PaywallMessageId, string>;
@@ -0,0 +1,109 @@
+/**
+ * Spanish message pack
+ */
+
+import type { PaywallMessages } from './en';
+
+export const ES_MESSAGES: PaywallMessages = {
+  // Header and price display
+  paymentRequired: 'Pago requerido',
+  accessResource: 'Accede a este recurso',
+  totalAmount: 'Importe total',
+  chainTestnet: '{chain} (Testnet)',
+  priceValidFor: 'Precio válido durante {time}',
+  updatingPrice: 'Actualizando precio...',
+  priceUpdateFailed: 'No se pudo actualizar el precio. Reintentando en breve...',
+  toggleColorScheme: 'Cambiar modo claro/oscuro',
+
+  // Connect state
+  connectWallet: 'Conectar billetera',
+  openInWallet: 'Abrir en {wallet}',
+  chooseWallet: 'Elige una billetera',
+  lastUsed: 'Usada por última vez',
+  connecting: 'Conectando...',
+  connected: 'Conectado',
+  disconnect: 'Desconectar',
+  payAmount: 'Pagar {amount} {symbol}',
+
+  // Payment options and balances
+  paymentOption: 'Opción de pago',
+  balance: 'Saldo',
+  checkingBalances: 'Consultando saldos...',
+  noPaymentMethods: 'No hay métodos de pago disponibles',
+  failedToLoadBalances: 'No se pudieron cargar los saldos',
+  failedToFetchBalance: 'No se pudo obtener el saldo',
+  balanceFailed: 'Error',
+  insufficientBalance: 'No tienes suficiente {symbol} en {chain}',
+  balanceShortfall: 'Necesitas {amount} {symbol} más para pagar.',
+  payOnChainInstead: 'Pagar en {chain}',
+  buyToken: 'Comprar {symbol}',
+  bridgeToken: 'Transferir {symbol} desde otra red',
+  testnetFaucet: 'Obtener {symbol} de testnet',
+
+  // Processing state
+  processingPayment: 'Procesando pago...',
+  confirmInWallet: 'Confirma en tu billetera',
+  preparingPayment: 'Preparando pago...',
+  switchingNetwork: 'Cambiando de red...',
+  signInWallet: 'Firma en tu billetera...',
+  approveInWallet: 'Aprueba en tu billetera...',
+  submittingPayment: 'Enviando pago...',
+  checkingAccess: 'Comprobando tu acceso...',
+
+  // Success state
+  paymentSuccessful: '¡Pago completado!',
+  processingResponse: 'Procesando respuesta...',
+  resourceAccessed: '¡Acceso al recurso completado!',
+  responseReceived: '¡Pago completado! Respuesta recibida.',
+  response: 'Respuesta',
+  copy: 'Copiar',
+  copied: '¡Copiado!',
+  download: 'Descargar',
+  downloadStarted: 'Descarga iniciada: {filename}',
+  accessToken: 'Token de acceso',
+  accessTokenHint:
+    'Usa este token para acceder al recurso sin volver a pagar.',
+  forgetAccess: 'Olvidar mi acceso en este dispositivo',
+  accessForgotten: 'Acceso olvidado en este dispositivo',
+  paymentReceipt: 'Recibo de pago',
+  receiptAmount: 'Importe',
+  receiptFrom: 'De',
+  receiptTo: 'Para',
+  receiptNetwork: 'Red',
+  receiptTransaction: 'Transacción',
+  receiptTime: 'Fecha',
+  downloadReceiptAs: 'Descargar recibo como {format}',
+  redirectNow: 'Redirigir ahora',
+  redirectingIn: 'Redirigiendo en {seconds} s...',
+
+  // Error state
+  paymentFailed: 'Pago fallido',
+  tryAgain: 'Intentar de nuevo',
+  noWalletDetected:
+    'No se detectó ninguna billetera. Instala MetaMask u otra billetera Web3.',
+  walletNotDetected: 'No se detectó {wallet}. Instala la billetera {wallet}.',
+  walletNotConnected: 'Billetera no conectada',
+  noPaymentOptions: 'El servidor no ofrece opciones de pago',
+  unsupportedNetwork: 'Red no compatible: {network}',
+  smartWalletNotDeployed:
+    'Tu billetera inteligente aún no está desplegada y no envió datos de despliegue. Haz una transacción con ella y vuelve a intentarlo.',
+  signatureNotVerified:
+    'No se pudo verificar la firma del pago para esta billetera.',
+  connectionRejected: 'El usuario rechazó la conexión',
+  connectFailed: 'No se pudo conectar la billetera',
+  walletConnectLoading:
+    'WalletConnect todavía se está cargando. Espera un momento e inténtalo de nuevo.',
+  walletConnectLoadFailed:
+    'No se pudo cargar WalletConnect. Prueba con MetaMask.',
+  walletConnectFailed: 'No se pudo conectar mediante WalletConnect',
+  walletConnectNotConfigured:
+    'WalletConnect no está configurado. Indica un Project ID de WalletConnect.',
+  libraryLoading:
+    'La biblioteca de pagos todavía se está cargando. Espera un momento e inténtalo de nuevo.',
+  transactionRejected: 'El usuario rechazó la transacción',
+  paymentFailedRetry: 'El pago falló. Inténtalo de nuevo.',
+  paymentVerificationFailed: 'No se pudo verificar el pago',
+
+  // Footer
+  poweredBy: 'Con la tecnología de {link}',
+};
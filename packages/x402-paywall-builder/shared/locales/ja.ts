@@ -0,0 +1,109 @@
+/**
+ * Japanese message pack
+ */
+
+import type { PaywallMessages } from './en';
+
+export const JA_MESSAGES: PaywallMessages = {
+  // Header and price display
+  paymentRequired: 'お支払いが必要です',
+  accessResource: 'このリソースにアクセス',
+  totalAmount: '合計金額',
+  chainTestnet: '{chain}（テストネット）',
+  priceValidFor: '価格の有効期限まで {time}',
+  updatingPrice: '価格を更新しています...',
+  priceUpdateFailed: '価格を更新できませんでした。まもなく再試行します...',
+  toggleColorScheme: 'ライト/ダークモードを切り替え',
+
+  // Connect state
+  connectWallet: 'ウォレットを接続',
+  openInWallet: '{wallet} で開く',
+  chooseWallet: 'ウォレットを選択',
+  lastUsed: '前回使用',
+  connecting: '接続中...',
+  connected: '接続済み',
+  disconnect: '接続を解除',
+  payAmount: '{amount} {symbol} を支払う',
+
+  // Payment options and balances
+  paymentOption: '支払い方法',
+  balance: '残高',
+  checkingBalances: '残高を確認中...',
+  noPaymentMethods: '利用できる支払い方法がありません',
+  failedToLoadBalances: '残高を読み込めませんでした',
+  failedToFetchBalance: '残高を取得できませんでした',
+  balanceFailed: '失敗',
+  insufficientBalance: '{chain} の {symbol} が不足しています',
+  balanceShortfall: '支払いにはあと {amount} {symbol} 必要です。',
+  payOnChainInstead: '{chain} で支払う',
+  buyToken: '{symbol} を購入',
+  bridgeToken: '{symbol} をブリッジ',
+  testnetFaucet: 'テストネット {symbol} を入手',
+
+  // Processing state
+  processingPayment: 'お支払いを処理中...',
+  confirmInWallet: 'ウォレットで確認してください',
+  preparingPayment: 'お支払いを準備中...',
+  switchingNetwork: 'ネットワークを切り替え中...',
+  signInWallet: 'ウォレットで署名してください...',
+  approveInWallet: 'ウォレットで承認してください...',
+  submittingPayment: 'お支払いを送信中...',
+  checkingAccess: 'アクセスを確認しています...',
+
+  // Success state
+  paymentSuccessful: 'お支払いが完了しました！',
+  processingResponse: 'レスポンスを処理中...',
+  resourceAccessed: 'リソースにアクセスしました！',
+  responseReceived: 'お支払いが完了しました！レスポンスを受信しました。',
+  response: 'レスポンス',
+  copy: 'コピー',
+  copied: 'コピーしました！',
+  download: 'ダウンロード',
+  downloadStarted: 'ダウンロードを開始しました: {filename}',
+  accessToken: 'アクセストークン',
+  accessTokenHint:
+    'このトークンを使うと、再度支払うことなくリソースにアクセスできます。',
+  forgetAccess: 'このデバイスのアクセス情報を削除',
+  accessForgotten: 'このデバイスのアクセス情報を削除しました',
+  paymentReceipt: '支払い領収書',
+  receiptAmount: '金額',
+  receiptFrom: '支払元',
+  receiptTo: '支払先',
+  receiptNetwork: 'ネットワーク',
+  receiptTransaction: 'トランザクション',
+  receiptTime: '日時',
+  downloadReceiptAs: '領収書を {format} でダウンロード',
+  redirectNow: '今すぐ移動',
+  redirectingIn: '{seconds} 秒後に移動します...',
+
+  // Error state
+  paymentFailed: 'お支払いに失敗しました',
+  tryAgain: '再試行',
+  noWalletDetected:
+    'ウォレットが見つかりません。MetaMask などの Web3 ウォレットをインストールしてください。',
+  walletNotDetected:
+    '{wallet} が見つかりません。{wallet} ウォレットをインストールしてください。',
+  walletNotConnected: 'ウォレットが接続されていません',
+  noPaymentOptions: 'サーバーから利用可能な支払い方法がありません',
+  unsupportedNetwork: 'サポートされていないネットワーク: {network}',
+  smartWalletNotDeployed:
+    'スマートウォレットがまだデプロイされておらず、デプロイ情報も送信されませんでした。一度取引を行ってから再度お試しください。',
+  signatureNotVerified: 'このウォレットの支払い署名を検証できませんでした。',
+  connectionRejected: 'ユーザーが接続を拒否しました',
+  connectFailed: 'ウォレットに接続できませんでした',
+  walletConnectLoading:
+    'WalletConnect を読み込み中です。しばらくしてから再試行してください。',
+  walletConnectLoadFailed:
+    'WalletConnect を読み込めませんでした。MetaMask をお試しください。',
+  walletConnectFailed: 'WalletConnect で接続できませんでした',
+  walletConnectNotConfigured:
+    'WalletConnect が設定されていません。WalletConnect の Project ID を指定してください。',
+  libraryLoading:
+    '決済ライブラリを読み込み中です。しばらくしてから再試行してください。',
+  transactionRejected: 'ユーザーがトランザクションを拒否しました',
+  paymentFailedRetry: 'お支払いに失敗しました。もう一度お試しください。',
+  paymentVerificationFailed: 'お支払いを検証できませんでした',
+
+  // Footer
+  poweredBy: 'Powered by {link}',
+};
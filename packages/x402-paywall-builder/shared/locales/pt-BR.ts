@@ -0,0 +1,109 @@
+/**
+ * Portuguese (Brazil) message pack
+ */
+
+import type { PaywallMessages } from './en';
+
+export const PT_BR_MESSAGES: PaywallMessages = {
+  // Header and price display
+  paymentRequired: 'Pagamento necessário',
+  accessResource: 'Acesse este recurso',
+  totalAmount: 'Valor total',
+  chainTestnet: '{chain} (Testnet)',
+  priceValidFor: 'Preço válido por {time}',
+  updatingPrice: 'Atualizando preço...',
+  priceUpdateFailed: 'Não foi possível atualizar o preço. Tentando novamente em breve...',
+  toggleColorScheme: 'Alternar modo claro/escuro',
+
+  // Connect state
+  connectWallet: 'Conectar carteira',
+  openInWallet: 'Abrir no {wallet}',
+  chooseWallet: 'Escolha uma carteira',
+  lastUsed: 'Usada por último',
+  connecting: 'Conectando...',
+  connected: 'Conectado',
+  disconnect: 'Desconectar',
+  payAmount: 'Pagar {amount} {symbol}',
+
+  // Payment options and balances
+  paymentOption: 'Opção de pagamento',
+  balance: 'Saldo',
+  checkingBalances: 'Verificando saldos...',
+  noPaymentMethods: 'Nenhuma forma de pagamento disponível',
+  failedToLoadBalances: 'Não foi possível carregar os saldos',
+  failedToFetchBalance: 'Não foi possível obter o saldo',
+  balanceFailed: 'Falhou',
+  insufficientBalance: 'Saldo de {symbol} insuficiente na {chain}',
+  balanceShortfall: 'Faltam {amount} {symbol} para pagar.',
+  payOnChainInstead: 'Pagar na {chain}',
+  buyToken: 'Comprar {symbol}',
+  bridgeToken: 'Fazer bridge de {symbol}',
+  testnetFaucet: 'Obter {symbol} de testnet',
+
+  // Processing state
+  processingPayment: 'Processando pagamento...',
+  confirmInWallet: 'Confirme na sua carteira',
+  preparingPayment: 'Preparando pagamento...',
+  switchingNetwork: 'Trocando de rede...',
+  signInWallet: 'Assine na sua carteira...',
+  approveInWallet: 'Aprove na sua carteira...',
+  submittingPayment: 'Enviando pagamento...',
+  checkingAccess: 'Verificando seu acesso...',
+
+  // Success state
+  paymentSuccessful: 'Pagamento concluído!',
+  processingResponse: 'Processando resposta...',
+  resourceAccessed: 'Recurso acessado com sucesso!',
+  responseReceived: 'Pagamento concluído! Resposta recebida.',
+  response: 'Resposta',
+  copy: 'Copiar',
+  copied: 'Copiado!',
+  download: 'Baixar',
+  downloadStarted: 'Download iniciado: {filename}',
+  accessToken: 'Token de acesso',
+  accessTokenHint:
+    'Use este token para acessar o recurso sem pagar novamente.',
+  forgetAccess: 'Esquecer meu acesso neste dispositivo',
+  accessForgotten: 'Acesso esquecido neste dispositivo',
+  paymentReceipt: 'Recibo de pagamento',
+  receiptAmount: 'Valor',
+  receiptFrom: 'De',
+  receiptTo: 'Para',
+  receiptNetwork: 'Rede',
+  receiptTransaction: 'Transação',
+  receiptTime: 'Data',
+  downloadReceiptAs: 'Baixar recibo como {format}',
+  redirectNow: 'Redirecionar agora',
+  redirectingIn: 'Redirecionando em {seconds} s...',
+
+  // Error state
+  paymentFailed: 'Falha no pagamento',
+  tryAgain: 'Tentar novamente',
+  noWalletDetected:
+    'Nenhuma carteira detectada. Instale a MetaMask ou outra carteira Web3.',
+  walletNotDetected: '{wallet} não detectada. Instale a carteira {wallet}.',
+  walletNotConnected: 'Carteira não conectada',
+  noPaymentOptions: 'O servidor não ofereceu opções de pagamento',
+  unsupportedNetwork: 'Rede não suportada: {network}',
+  smartWalletNotDeployed:
+    'Sua carteira inteligente ainda não foi implantada e não enviou dados de implantação. Faça uma transação com ela e tente novamente.',
+  signatureNotVerified:
+    'Não foi possível verificar a assinatura do pagamento para esta carteira.',
+  connectionRejected: 'Conexão recusada pelo usuário',
+  connectFailed: 'Não foi possível conectar a carteira',
+  walletConnectLoading:
+    'O WalletConnect ainda está carregando. Aguarde um momento e tente novamente.',
+  walletConnectLoadFailed:
+    'Não foi possível carregar o WalletConnect. Tente a MetaMask.',
+  walletConnectFailed: 'Não foi possível conectar via WalletConnect',
+  walletConnectNotConfigured:
+    'WalletConnect não configurado. Informe um Project ID do WalletConnect.',
+  libraryLoading:
+    'A biblioteca de pagamento ainda está carregando. Aguarde um momento e tente novamente.',
+  transactionRejected: 'Transação recusada pelo usuário',
+  paymentFailedRetry: 'O pagamento falhou. Tente novamente.',
+  paymentVerificationFailed: 'Falha na verificação do pagamento',
+
+  // Footer
+  poweredBy: 'Desenvolvido com {link}',
+};
@@ -0,0 +1,102 @@
+/**
+ * Chinese (Simplified) message pack
+ */
+
+import type { PaywallMessages } from './en';
+
+export const ZH_MESSAGES: PaywallMessages = {
+  // Header and price display
+  paymentRequired: '需要付款',
+  accessResource: '访问此资源',
+  totalAmount: '总金额',
+  chainTestnet: '{chain}（测试网）',
+  priceValidFor: '价格有效期剩余 {time}',
+  updatingPrice: '正在更新价格...',
+  priceUpdateFailed: '无法更新价格，即将重试...',
+  toggleColorScheme: '切换浅色/深色模式',
+
+  // Connect state
+  connectWallet: '连接钱包',
+  openInWallet: '在 {wallet} 中打开',
+  chooseWallet: '选择钱包',
+  lastUsed: '上次使用',
+  connecting: '正在连接...',
+  connected: '已连接',
+  disconnect: '断开连接',
+  payAmount: '支付 {amount} {symbol}',
+
+  // Payment options and balances
+  paymentOption: '支付方式',
+  balance: '余额',
+  checkingBalances: '正在查询余额...',
+  noPaymentMethods: '没有可用的支付方式',
+  failedToLoadBalances: '余额加载失败',
+  failedToFetchBalance: '获取余额失败',
+  balanceFailed: '失败',
+  insufficientBalance: '{chain} 上的 {symbol} 余额不足',
+  balanceShortfall: '还需要 {amount} {symbol} 才能支付。',
+  payOnChainInstead: '改用 {chain} 支付',
+  buyToken: '购买 {symbol}',
+  bridgeToken: '跨链转入 {symbol}',
+  testnetFaucet: '领取测试网 {symbol}',
+
+  // Processing state
+  processingPayment: '正在处理付款...',
+  confirmInWallet: '请在钱包中确认',
+  preparingPayment: '正在准备付款...',
+  switchingNetwork: '正在切换网络...',
+  signInWallet: '请在钱包中签名...',
+  approveInWallet: '请在钱包中批准...',
+  submittingPayment: '正在提交付款...',
+  checkingAccess: '正在检查您的访问权限...',
+
+  // Success state
+  paymentSuccessful: '付款成功！',
+  processingResponse: '正在处理响应...',
+  resourceAccessed: '已成功访问资源！',
+  responseReceived: '付款成功！已收到响应。',
+  response: '响应',
+  copy: '复制',
+  copied: '已复制！',
+  download: '下载',
+  downloadStarted: '已开始下载：{filename}',
+  accessToken: '访问令牌',
+  accessTokenHint: '使用此令牌可再次访问该资源，无需重复付款。',
+  forgetAccess: '在此设备上忘记我的访问权限',
+  accessForgotten: '已在此设备上忘记访问权限',
+  paymentReceipt: '付款收据',
+  receiptAmount: '金额',
+  receiptFrom: '付款方',
+  receiptTo: '收款方',
+  receiptNetwork: '网络',
+  receiptTransaction: '交易',
+  receiptTime: '时间',
+  downloadReceiptAs: '将收据下载为 {format}',
+  redirectNow: '立即跳转',
+  redirectingIn: '{seconds} 秒后跳转...',
+
+  // Error state
+  paymentFailed: '付款失败',
+  tryAgain: '重试',
+  noWalletDetected: '未检测到钱包。请安装 MetaMask 或其他 Web3 钱包。',
+  walletNotDetected: '未检测到 {wallet}。请安装 {wallet} 钱包。',
+  walletNotConnected: '钱包未连接',
+  noPaymentOptions: '服务器未提供付款方式',
+  unsupportedNetwork: '不支持的网络：{network}',
+  smartWalletNotDeployed: '你的智能钱包尚未部署，且未提供部署数据。请先用它完成一笔交易，然后重试。',
+  signatureNotVerified: '无法验证此钱包的支付签名。',
+  connectionRejected: '用户拒绝了连接请求',
+  connectFailed: '连接钱包失败',
+  walletConnectLoading: 'WalletConnect 仍在加载中，请稍后重试。',
+  walletConnectLoadFailed: 'WalletConnect 加载失败，请改用 MetaMask。',
+  walletConnectFailed: '通过 WalletConnect 连接失败',
+  walletConnectNotConfigured:
+    '未配置 WalletConnect。请提供 WalletConnect Project ID。',
+  libraryLoading: '支付组件仍在加载中，请稍后重试。',
+  transactionRejected: '用户拒绝了交易',
+  paymentFailedRetry: '付款失败，请重试。',
+  paymentVerificationFailed: '付款验证失败',
+
+  // Footer
+  poweredBy: '由 {link} 提供支持',
+};
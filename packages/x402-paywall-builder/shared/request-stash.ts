@@ -0,0 +1,280 @@
+/**
+ * Request replay for browser payments
+ *
+ * A form or fetch POST that gets the 402 page can only complete if the paid
+ * retry carries the same method and body. capturePaywallRequest keeps the
+ * body server-side under a short-lived ID and returns what the page needs to
+ * replay the request (pass it as `replayRequest`); restorePaywallRequest puts
+ * the body back on the paid retry, and releasePaywallRequest drops it once
+ * the upstream call succeeded.
+ *
+ * Bodies are held in memory by default, so the paid retry must reach the
+ * same server instance. Serverless and multi-instance deployments pass a
+ * shared `store` (database, KV) instead.
+ */
+
+import {
+  DEFAULT_REQUEST_STASH_MAX_BODY_BYTES,
+  DEFAULT_REQUEST_STASH_TTL_SECONDS,
+  PAYWALL_REQUEST_ID_HEADER,
+} from './constants';
+import type { PaywallReplayRequest } from './types';
+
+/**
+ * Options for capturing a request
+ */
+export interface CapturePaywallRequestOptions {
+  /** Largest body to stash, in bytes. Default: 64 KiB */
+  maxBodyBytes?: number;
+  /** Stash lifetime in seconds. Default: 10 minutes */
+  ttlSeconds?: number;
+  /**
+   * Extra header names to replay. They are written into the page, so never
+   * list credentials (Authorization, Cookie)
+   */
+  headers?: string[];
+  /** Where the body is stashed. Default: in memory (see createMemoryRequestStore) */
+  store?: PaywallRequestStore;
+}
+
+/**
+ * Options for restoring or releasing a stashed request
+ */
+export interface RestorePaywallRequestOptions {
+  /** Store the body was stashed in. Default: in memory */
+  store?: PaywallRequestStore;
+}
+
+/**
+ * A stashed request body and the request it belongs to
+ */
+export interface StashedPaywallRequest {
+  method: string;
+  /** Path and query of the original request */
+  path: string;
+  body: ArrayBuffer;
+  /** Expiry in milliseconds since the epoch */
+  expiresAt: number;
+}
+
+/**
+ * Storage for stashed bodies, keyed by stash ID. Stores may drop entries
+ * after `expiresAt`; expired entries they still return are ignored.
+ */
+export interface PaywallRequestStore {
+  get(id: string): Promise<StashedPaywallRequest | null>;
+  put(id: string, entry: StashedPaywallRequest): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * Headers that describe the body or the wanted response language
+ */
+const REPLAY_HEADERS = ['content-type', 'content-language', 'accept-language'];
+
+/**
+ * Oldest entries are dropped beyond this many stashed bodies
+ */
+const MAX_STASHED_REQUESTS = 1000;
+
+function getRequestPath(url: string): string {
+  const { pathname, search } = new URL(url);
+  return pathname + search;
+}
+
+/**
+ * In-memory store, for a single long-running server. Expired entries are
+ * dropped on each put, then the oldest ones beyond `maxEntries`.
+ */
+export function createMemoryRequestStore(
+  maxEntries = MAX_STASHED_REQUESTS,
+): PaywallRequestStore {
+  const entries = new Map<string, StashedPaywallRequest>();
+
+  return {
+    async get(id) {
+      return entries.get(id) ?? null;
+    },
+    async put(id, entry) {
+      const now = Date.now();
+      for (const [key, stashed] of entries) {
+        if (stashed.expiresAt <= now) entries.delete(key);
+      }
+      for (const key of entries.keys()) {
+        if (entries.size < maxEntries) break;
+        entries.delete(key);
+      }
+      entries.set(id, entry);
+    },
+    async delete(id) {
+      entries.delete(id);
+    },
+  };
+}
+
+const defaultRequestStore = createMemoryRequestStore();
+
+/**
+ * Whether a stash entry is unexpired and was made for the method and URL
+ */
+function isStashFor(
+  entry: StashedPaywallRequest | null,
+  method: string,
+  url: string,
+): entry is StashedPaywallRequest {
+  return (
+    !!entry &&
+    entry.expiresAt > Date.now() &&
+    entry.method === method &&
+    entry.path === getRequestPath(url)
+  );
+}
+
+/**
+ * Capture the request that hit the paywall for the page to replay once paid.
+ * The body (if any) is stashed; its ID travels in the page. Returns null if
+ * the body is larger than `maxBodyBytes`.
+ *
+ * @example
+ * ```typescript
+ * const replayRequest = await capturePaywallRequest(request);
+ * const html = genericEvmPaywall.generateHtml(requirement, paymentRequired, {
+ *   ...config,
+ *   replayRequest: replayRequest ?? undefined,
+ * });
+ * ```
+ */
+export async function capturePaywallRequest(
+  request: Request,
+  options: CapturePaywallRequestOptions = {},
+): Promise<PaywallReplayRequest | null> {
+  const {
+    maxBodyBytes = DEFAULT_REQUEST_STASH_MAX_BODY_BYTES,
+    ttlSeconds = DEFAULT_REQUEST_STASH_TTL_SECONDS,
+    store = defaultRequestStore,
+  } = options;
+
+  const headers: Record<string, string> = {};
+  for (const name of [...REPLAY_HEADERS, ...(options.headers ?? [])]) {
+    const value = request.headers.get(name);
+    if (value !== null) headers[name.toLowerCase()] = value;
+  }
+  const replay: PaywallReplayRequest = { method: request.method, headers };
+  if (request.method === 'GET' || request.method === 'HEAD' || !request.body) {
+    return replay;
+  }
+
+  // Skip reading bodies that announce themselves as too large
+  const contentLength = Number(request.headers.get('content-length'));
+  if (contentLength > maxBodyBytes) return null;
+
+  const body = await request.clone().arrayBuffer();
+  if (body.byteLength > maxBodyBytes) return null;
+  if (body.byteLength === 0) return replay;
+
+  const requestId = crypto.randomUUID();
+  await store.put(requestId, {
+    method: request.method,
+    path: getRequestPath(request.url),
+    body,
+    expiresAt: Date.now() + ttlSeconds * 1000,
+  });
+  return { ...replay, requestId, ttlSeconds };
+}
+
+/**
+ * Restore the stashed body on a paid retry, once payment is verified.
+ *
+ * Returns the request unchanged if it carries no stash ID, the request with
+ * its original body, or null if the stash expired or belongs to another
+ * method or URL (respond with an error rather than settle the payment).
+ * The body stays stashed, so a retry after a failed upstream call can use
+ * it again; call releasePaywallRequest once the call succeeded.
+ *
+ * @example
+ * ```typescript
+ * const original = await restorePaywallRequest(request, { store });
+ * if (!original) {
+ *   return Response.json({ error: 'Request expired, reload the page' }, { status: 410 });
+ * }
+ * const response = await fetch(upstreamUrl, original);
+ * if (response.ok) await releasePaywallRequest(request, { store });
+ * ```
+ */
+export async function restorePaywallRequest(
+  request: Request,
+  options: RestorePaywallRequestOptions = {},
+): Promise<Request | null> {
+  const { store = defaultRequestStore } = options;
+  const requestId = request.headers.get(PAYWALL_REQUEST_ID_HEADER);
+  if (!requestId) return request;
+
+  const entry = await store.get(requestId);
+  if (!isStashFor(entry, request.method, request.url)) return null;
+
+  const headers = new Headers(request.headers);
+  headers.delete(PAYWALL_REQUEST_ID_HEADER);
+  headers.delete('content-length');
+  return new Request(request.url, {
+    method: request.method,
+    headers,
+    body: entry.body,
+  });
+}
+
+/**
+ * Drop the body stashed for a paid retry once the upstream call succeeded.
+ * Does nothing for requests without a stash ID.
+ */
+export async function releasePaywallRequest(
+  request: Request,
+  options: RestorePaywallRequestOptions = {},
+): Promise<void> {
+  const { store = defaultRequestStore } = options;
+  const requestId = request.headers.get(PAYWALL_REQUEST_ID_HEADER);
+  if (requestId) await store.delete(requestId);
+}
+
+/**
+ * Renew the stash of a request the page sends to refresh its payment
+ * requirements: a GET (or HEAD) to the same URL carrying the stash ID, so
+ * the original method is never re-sent without its body. The body is
+ * stashed again under a new ID for another `ttlSeconds`; send that ID back
+ * in the X-PAYWALL-REQUEST-ID response header so the page replays with it.
+ * Answer the refresh with the 402 alone; never forward it upstream.
+ *
+ * Returns the new ID, or null if the request is not a GET or HEAD, carries
+ * no stash ID, or the stash expired or belongs to another URL.
+ *
+ * @example
+ * ```typescript
+ * const requestId = await renewPaywallRequest(request);
+ * return Response.json(paymentRequired, {
+ *   status: 402,
+ *   headers: requestId ? { [PAYWALL_REQUEST_ID_HEADER]: requestId } : {},
+ * });
+ * ```
+ */
+export async function renewPaywallRequest(
+  request: Request,
+  options: Pick<CapturePaywallRequestOptions, 'store' | 'ttlSeconds'> = {},
+): Promise<string | null> {
+  const {
+    store = defaultRequestStore,
+    ttlSeconds = DEFAULT_REQUEST_STASH_TTL_SECONDS,
+  } = options;
+  const requestId = request.headers.get(PAYWALL_REQUEST_ID_HEADER);
+  if (!requestId) return null;
+  if (request.method !== 'GET' && request.method !== 'HEAD') return null;
+
+  const entry = await store.get(requestId);
+  if (!entry || !isStashFor(entry, entry.method, request.url)) return null;
+
+  const renewedId = crypto.randomUUID();
+  await store.put(renewedId, {
+    ...entry,
+    expiresAt: Date.now() + ttlSeconds * 1000,
+  });
+  await store.delete(requestId);
+  return renewedId;
+}
@@ -5,6 +5,13 @@
  * EIP-712 signing, and payment submission.
  */
 
+import type { PaywallFamily } from './types';
+import {
+  DEFAULT_ACCESS_TOKEN_HEADER,
+  DEFAULT_ACCESS_TOKEN_TTL_SECONDS,
+  PAYWALL_REQUEST_ID_HEADER,
+} from './constants';
+
 /**
  * Debug logging functions
  */
@@ -26,7 +33,7 @@ export function getDebugLoggingScript(): string {
 }
 
 /**
- * Balance checking functions for USDC
+ * Balance checking functions for the payment token (USDC by default)
  */
 export function getBalanceCheckingScript(): string {
   return `
@@ -53,8 +60,9 @@ export function getBalanceCheckingScript(): string {
       'function decimals() external view returns (uint8)',
     ];
 
-    // Fetch USDC balance for a specific chain
-    async function fetchUsdcBalance(address, chainConfig) {
+    // Fetch token balance for a specific chain
+    // tokenAddress defaults to the chain's USDC contract
+    async function fetchTokenBalance(address, chainConfig, tokenAddress) {
       try {
         log('Fetching balance for address:', address, 'on chain:', chainConfig.name);
 
@@ -66,25 +74,8 @@ export function getBalanceCheckingScript(): string {
         }
 
         // Create a public client for the specific chain
-        // Try to use predefined chain if available, otherwise create custom
-        let chainDefinition;
-        if (chainConfig.chainId === 8453) {
-          chainDefinition = window.viemChains.base;
-        } else if (chainConfig.chainId === 84532) {
-          chainDefinition = window.viemChains.baseSepolia;
-        } else {
-          // Fallback to custom chain definition
-          chainDefinition = {
-            id: chainConfig.chainId,
-            name: chainConfig.name,
-            nativeCurrency: { name: 'ETH', symbol: 'ETH', decimals: 18 },
-            rpcUrls: { default: { http: [chainConfig.rpcUrl] } },
-            blockExplorers: { default: { name: 'Explorer', url: chainConfig.blockExplorer } }
-          };
-        }
-
         const publicClient = createPublicClient({
-          chain: chainDefinition,
+          chain: getViemChain(chainConfig),
           transport: http()
         });
 
@@ -94,25 +85,25 @@ export function getBalanceCheckingScript(): string {
         // Fetch balance and decimals using direct contract calls
         const [balance, decimals] = await Promise.all([
           publicClient.readContract({
-            address: chainConfig.usdcAddress,
+            address: tokenAddress || chainConfig.usdcAddress,
             abi,
             functionName: 'balanceOf',
             args: [address]
           }),
           publicClient.readContract({
-            address: chainConfig.usdcAddress,
+            address: tokenAddress || chainConfig.usdcAddress,
             abi,
             functionName: 'decimals'
           })
         ]);
 
         // Convert to human readable format
-        const balanceInUsdc = Number(formatUnits(balance, decimals));
-        log('Raw balance:', balance.toString(), 'Decimals:', decimals, 'Formatted:', balanceInUsdc);
+        const formattedBalance = Number(formatUnits(balance, decimals));
+        log('Raw balance:', balance.toString(), 'Decimals:', decimals, 'Formatted:', formattedBalance);
 
-        return balanceInUsdc;
+        return formattedBalance;
       } catch (error) {
-        log('Error fetching USDC balance for chain', chainConfig.name, ':', error);
+        log('Error fetching token balance for chain', chainConfig.name, ':', error);
         return null;
       }
     }
@@ -132,23 +123,27 @@ export function getBalanceCheckingScript(): string {
 
       log('Processing accepts array:', accepts);
 
-      for (const requirement of accepts) {
-        const chainConfig = window.x402Config.chainConfigs[requirement.network];
+      accepts.forEach((requirement, index) => {
+        const chainConfig = getChainConfigForNetwork(requirement.network);
         log('Looking for chain config for network:', requirement.network, 'found:', !!chainConfig);
 
         if (chainConfig) {
           balancePromises.push(
-            fetchUsdcBalance(address, chainConfig)
+            fetchTokenBalance(address, chainConfig, requirement.asset)
               .then(balance => ({
+                index,
+                requirement,
                 network: requirement.network,
                 chainName: chainConfig.name,
                 chainId: chainConfig.chainId,
                 balance: balance,
-                error: balance === null ? 'Failed to fetch balance' : null
+                error: balance === null ? t('failedToFetchBalance') : null
               }))
           );
         } else {
           balancePromises.push(Promise.resolve({
+            index,
+            requirement,
             network: requirement.network,
             chainName: 'Unknown Chain',
             chainId: null,
@@ -156,11 +151,13 @@ export function getBalanceCheckingScript(): string {
             error: 'Chain config not found'
           }));
         }
-      }
+      });
 
       const results = await Promise.allSettled(balancePromises);
-      const settledResults = results.map(result =>
+      const settledResults = results.map((result, index) =>
         result.status === 'fulfilled' ? result.value : {
+          index,
+          requirement: accepts[index],
           network: result.reason.network || 'unknown',
           chainName: result.reason.chainName || 'Unknown Chain',
           chainId: result.reason.chainId || null,
@@ -183,11 +180,15 @@ export function getBalanceCheckingScript(): string {
       log('Updating balance display for address:', address);
       log('Balance container found, classes:', balanceContainer.className);
 
+      // Balances of a previous wallet must not block this one
+      paymentOptionBalances = [];
+      updateBalanceCheck();
+
       // Show loading state
       balanceContainer.innerHTML = \`
         <div class="text-center py-2">
           <div class="inline-block w-4 h-4 border-2 border-brand-primary border-t-transparent rounded-full animate-spin"></div>
-          <span class="text-xs text-muted ml-2">Checking balances...</span>
+          <span class="text-xs text-muted ml-2">\${tHtml('checkingBalances')}</span>
         </div>
       \`;
 
@@ -195,49 +196,211 @@ export function getBalanceCheckingScript(): string {
         const balances = await fetchAllBalances(address);
 
         if (balances.length === 0) {
-          balanceContainer.innerHTML = '<p class="text-xs text-muted text-center">No payment methods available</p>';
+          balanceContainer.innerHTML = '<p class="text-xs text-muted text-center">' + tHtml('noPaymentMethods') + '</p>';
           return;
         }
 
-        // Build balance display HTML
-        let balanceHtml = '<div class="space-y-2">';
-
-        for (const balanceInfo of balances) {
-          if (balanceInfo.error) {
-            balanceHtml += \`
-              <div class="flex items-center justify-between text-xs">
-                <span class="text-muted">\${balanceInfo.chainName}</span>
-                <span class="text-destructive" title="\${escape(balanceInfo.error)}">Failed</span>
-              </div>
-            \`;
-          } else {
-            const formattedBalance = balanceInfo.balance >= 0.01
-              ? balanceInfo.balance.toFixed(2)
-              : balanceInfo.balance.toFixed(6).replace(/.?0+$/, '');
-
-            balanceHtml += \`
-              <div class="flex items-center justify-between text-xs">
-                <span class="text-muted">\${(balanceInfo.chainName)}</span>
-                <span class="text-foreground font-medium">\${formattedBalance} USDC</span>
-              </div>
-            \`;
-          }
-        }
-
-        balanceHtml += '</div>';
-        log('Setting balance HTML:', balanceHtml);
-        balanceContainer.innerHTML = balanceHtml;
+        // Cache balances so selecting an option re-renders without refetching
+        paymentOptionBalances = balances;
+        renderPaymentOptions();
         log('Balance container updated successfully');
 
       } catch (error) {
         log('Error updating balance display:', error);
-        balanceContainer.innerHTML = '<p class="text-xs text-destructive text-center">Failed to load balances</p>';
+        balanceContainer.innerHTML = '<p class="text-xs text-destructive text-center">' + tHtml('failedToLoadBalances') + '</p>';
         log('Error state applied to balance container');
       }
     }
   `;
 }
 
+/**
+ * Pre-flight balance check: disables Pay when the wallet cannot cover the
+ * selected option, suggesting a funded option and "get USDC" links instead.
+ * Needs the family's payment options script; preview mode only uses
+ * renderInsufficientBalance.
+ */
+export function getBalanceCheckScript(family: PaywallFamily): string {
+  const getNetworkConfig =
+    family === 'svm' ? 'getClusterConfigForNetwork' : 'getChainConfigForNetwork';
+
+  return `
+    // ===== Balance check =====
+    // Circle's faucet covers USDC on the EVM testnets and Solana devnet
+    const DEFAULT_FAUCET_URL = 'https://faucet.circle.com/';
+
+    // How much an option is short in token units. Unknown balances (still
+    // loading or failed to fetch) never block payment.
+    function getBalanceShortfall(index) {
+      const requirement = getAcceptedRequirements()[index];
+      const balanceInfo = paymentOptionBalances.find(b => b.index === index);
+      if (!requirement || !balanceInfo || typeof balanceInfo.balance !== 'number') return 0;
+
+      const { decimals } = getRequirementToken(requirement);
+      const shortfall = Number(requirement.amount || 0) / Math.pow(10, decimals) - balanceInfo.balance;
+      // Balances are floats; ignore differences below the token's precision
+      return shortfall >= Math.pow(10, -decimals) / 2 ? shortfall : 0;
+    }
+
+    // Configured onramp and bridge links, plus a faucet for testnet options.
+    // {address} and {network} in a URL are filled in.
+    function getFundingLinks(requirement) {
+      const config = window.x402Config;
+      const links = config.fundingLinks || {};
+      const networkConfig = ${getNetworkConfig}(requirement.network);
+      const testnet = networkConfig?.testnet
+        ?? (requirement.network === config.network && !!config.testnet);
+      const { symbol } = getRequirementToken(requirement);
+      const fill = url => url
+        .split('{address}').join(encodeURIComponent(connectedAddress || ''))
+        .split('{network}').join(encodeURIComponent(requirement.network));
+
+      const result = [];
+      if (links.onramp) result.push({ label: t('buyToken', { symbol }), href: fill(links.onramp) });
+      if (links.bridge) result.push({ label: t('bridgeToken', { symbol }), href: fill(links.bridge) });
+      const faucet = links.faucet === false
+        ? null
+        : links.faucet || (symbol === 'USDC' ? DEFAULT_FAUCET_URL : null);
+      if (testnet && faucet) result.push({ label: t('testnetFaucet', { symbol }), href: fill(faucet) });
+      return result;
+    }
+
+    // Show the shortfall notice and disable Pay, or clear both (details null).
+    // details: { symbol, chainName, shortfall, alternative: { index, chainName } | null, links }
+    function renderInsufficientBalance(details) {
+      const payButton = document.getElementById('btn-pay');
+      if (payButton) payButton.disabled = !!details;
+
+      const notice = document.getElementById('insufficient-balance');
+      if (!notice) return;
+      if (!details) {
+        notice.replaceChildren();
+        notice.classList.add('hidden');
+        return;
+      }
+
+      const title = document.createElement('p');
+      title.className = 'text-sm font-medium text-destructive';
+      title.textContent = t('insufficientBalance', { symbol: details.symbol, chain: details.chainName });
+      const hint = document.createElement('p');
+      hint.className = 'text-xs text-muted';
+      hint.textContent = t('balanceShortfall', { amount: details.shortfall, symbol: details.symbol });
+      const children = [title, hint];
+
+      if (details.alternative) {
+        const switchButton = document.createElement('button');
+        switchButton.type = 'button';
+        switchButton.setAttribute('data-x402-action', 'selectPaymentOption');
+        switchButton.setAttribute('data-x402-arg', String(details.alternative.index));
+        switchButton.className = 'btn-secondary-animate w-full bg-background hover:bg-border text-foreground text-sm font-medium py-2 px-3 rounded-lg border border-brand-primary';
+        switchButton.textContent = t('payOnChainInstead', { chain: details.alternative.chainName });
+        children.push(switchButton);
+      }
+
+      if (details.links.length > 0) {
+        const links = document.createElement('div');
+        links.className = 'flex flex-wrap gap-x-4 gap-y-1';
+        details.links.forEach(link => {
+          const anchor = document.createElement('a');
+          anchor.href = link.href;
+          anchor.target = '_blank';
+          anchor.rel = 'noopener noreferrer';
+          anchor.className = 'text-xs font-medium text-brand-primary underline';
+          anchor.textContent = link.label;
+          links.appendChild(anchor);
+        });
+        children.push(links);
+      }
+
+      notice.replaceChildren(...children);
+      notice.classList.remove('hidden');
+    }
+
+    // Compare the selected option's amount with the fetched balance
+    function updateBalanceCheck() {
+      const requirement = getSelectedRequirement();
+      const shortfall = getBalanceShortfall(selectedRequirementIndex);
+      if (!requirement || shortfall === 0) {
+        renderInsufficientBalance(null);
+        return;
+      }
+
+      const token = getRequirementToken(requirement);
+      const networkConfig = ${getNetworkConfig}(requirement.network);
+      // First other option the wallet can pay in full
+      const alternativeIndex = getAcceptedRequirements().findIndex((candidate, index) =>
+        index !== selectedRequirementIndex
+        && paymentOptionBalances.some(b => b.index === index && typeof b.balance === 'number')
+        && getBalanceShortfall(index) === 0
+      );
+      const alternativeConfig = alternativeIndex >= 0
+        && ${getNetworkConfig}(getAcceptedRequirements()[alternativeIndex].network);
+
+      renderInsufficientBalance({
+        symbol: token.symbol,
+        chainName: networkConfig ? networkConfig.name : requirement.network,
+        shortfall: formatDisplayAmount(shortfall, token.decimals),
+        alternative: alternativeIndex >= 0
+          ? {
+              index: alternativeIndex,
+              chainName: alternativeConfig
+                ? alternativeConfig.name
+                : getAcceptedRequirements()[alternativeIndex].network,
+            }
+          : null,
+        links: getFundingLinks(requirement),
+      });
+    }`;
+}
+
+/**
+ * Payment receipt built after settlement from the selected option and the
+ * decoded PAYMENT-RESPONSE header. Needs the family's payment options script;
+ * preview mode only uses getExplorerTxUrl.
+ */
+export function getPaymentReceiptScript(family: PaywallFamily): string {
+  const getNetworkConfig =
+    family === 'svm' ? 'getClusterConfigForNetwork' : 'getChainConfigForNetwork';
+
+  return `
+    // ===== Payment receipt =====
+    // Transaction link that keeps the explorer's query (e.g. ?cluster=devnet)
+    function getExplorerTxUrl(blockExplorer, txHash) {
+      if (!blockExplorer || !txHash) return null;
+      try {
+        const url = new URL(blockExplorer);
+        url.pathname = url.pathname.replace(/\\/$/, '') + '/tx/' + txHash;
+        return url.toString();
+      } catch (e) {
+        return null;
+      }
+    }
+
+    // Proof of payment: what was paid, by whom, to whom, on which network and when.
+    // The settlement's payer and network win over the page's view of them.
+    function buildPaymentReceipt(requirement, payer, settlement) {
+      const token = getRequirementToken(requirement);
+      const network = settlement?.network || requirement.network;
+      const networkConfig = ${getNetworkConfig}(network);
+      const txHash = settlement?.transaction || settlement?.txHash || null;
+      return {
+        amount: formatAtomicAmount(requirement),
+        atomicAmount: String(requirement.amount),
+        symbol: token.symbol,
+        asset: token.address,
+        payer: settlement?.payer || payer,
+        payee: requirement.payTo,
+        network,
+        networkName: networkConfig ? networkConfig.name : network,
+        txHash,
+        explorerUrl: getExplorerTxUrl(networkConfig?.blockExplorer, txHash),
+        resource: window.x402Config.currentUrl || window.location.href,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  `;
+}
+
 /**
  * Viem helper functions (address checksumming)
  */
@@ -263,6 +426,18 @@ export function getViemHelpersScript(): string {
       }
     }
 
+    // Build a viem chain definition from a registered chain config
+    function getViemChain(chainConfig) {
+      return {
+        id: chainConfig.chainId,
+        name: chainConfig.name,
+        nativeCurrency: chainConfig.nativeCurrency || { name: 'Ether', symbol: 'ETH', decimals: 18 },
+        rpcUrls: { default: { http: [chainConfig.rpcUrl] } },
+        blockExplorers: { default: { name: 'Explorer', url: chainConfig.blockExplorer } },
+        testnet: !!chainConfig.testnet,
+      };
+    }
+
     // Wait for viem to load before enabling payment button
     let viemLoaded = !!window.viemGetAddress && !!window.viemToHex && !!window.viemCreateWalletClient;
     window.addEventListener('viem-loaded', () => {
@@ -271,8 +446,7 @@ export function getViemHelpersScript(): string {
         getAddress: !!window.viemGetAddress,
         toHex: !!window.viemToHex,
         createWalletClient: !!window.viemCreateWalletClient,
-        custom: !!window.viemCustom,
-        chains: !!window.viemChains
+        custom: !!window.viemCustom
       });
     });`;
 }
@@ -289,15 +463,20 @@ export function getWalletStateScript(): string {
 
     // UI state helpers
     function showState(stateId) {
-      ['connect', 'connected', 'processing', 'success', 'error'].forEach(s => {
+      const states = ['connect', 'connected', 'processing', 'success', 'error'];
+      const previous = states.find(s => !document.getElementById('state-' + s).classList.contains('hidden'));
+      states.forEach(s => {
         document.getElementById('state-' + s).classList.add('hidden');
       });
       document.getElementById('state-' + stateId).classList.remove('hidden');
+      if (previous !== stateId) announceStateChange(stateId);
     }
 
-    function showError(message) {
+    // cancelled: the buyer rejected the request in their wallet
+    function showError(message, cancelled) {
       document.getElementById('error-message').textContent = message;
       showState('error');
+      emitPaywallEvent(cancelled ? 'cancelled' : 'error', { message });
     }
 
     function resetState() {
@@ -313,11 +492,12 @@ export function getWalletStateScript(): string {
       const btnText = document.getElementById('btn-metamask-text');
       if (btnText) {
         if (!hasInjectedWallet() && isMobile()) {
-          btnText.textContent = 'Open in MetaMask';
+          btnText.textContent = t('openInWallet', { wallet: 'MetaMask' });
         } else {
-          btnText.textContent = 'Connect Wallet';
+          btnText.textContent = t('connectWallet');
         }
       }
+      updateWalletPicker();
 
       showState('connect');
     }
@@ -340,7 +520,7 @@ export function getWalletStateScript(): string {
       const wcBtn = document.getElementById('btn-walletconnect');
       if (wcBtn) {
         wcBtn.innerHTML = \`
-          <svg class="w-5 h-5" viewBox="0 0 24 24" fill="currentColor">
+          <svg class="w-5 h-5" viewBox="0 0 24 24" fill="currentColor" aria-hidden="true" focusable="false">
             <path d="M6.09 10.26c3.26-3.19 8.54-3.19 11.8 0l.39.38c.16.16.16.42 0 .58l-1.34 1.31c-.08.08-.21.08-.29 0l-.54-.53c-2.27-2.22-5.96-2.22-8.24 0l-.58.56c-.08.08-.21.08-.29 0L5.66 11.2c-.16-.16-.16-.42 0-.58l.43-.36zm14.58 2.71l1.19 1.17c.16.16.16.42 0 .58l-5.37 5.26c-.16.16-.42.16-.58 0l-3.81-3.73c-.04-.04-.11-.04-.15 0l-3.81 3.73c-.16.16-.42.16-.58 0L2.19 14.72c-.16-.16-.16-.42 0-.58l1.19-1.17c.16-.16.42-.16.58 0l3.81 3.73c.04.04.11.04.15 0l3.81-3.73c.16-.16.42-.16.58 0l3.81 3.73c.04.04.11.04.15 0l3.81-3.73c.16-.16.42-.16.58 0z"/>
           </svg>
           WalletConnect
@@ -366,26 +546,186 @@ export function getWalletStateScript(): string {
 }
 
 /**
- * MetaMask connection function
+ * EIP-6963 wallet discovery and the wallet picker
+ *
+ * Wallets announce themselves (name, icon, reverse-DNS id) instead of racing
+ * for `window.ethereum`. Used by the page runtime and by preview mode.
+ */
+export function getWalletPickerScript(): string {
+  return `
+    // ===== Wallet picker (EIP-6963) =====
+    // Announced wallets by rdns: { info: { rdns, name, icon }, provider }
+    const discoveredWallets = new Map();
+    const LAST_WALLET_KEY = 'x402-paywall:last-wallet';
+    const WALLET_ICON_SVG = '<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true" focusable="false"><path d="M19 7V4a1 1 0 0 0-1-1H5a2 2 0 0 0 0 4h15a1 1 0 0 1 1 1v4h-3a2 2 0 0 0 0 4h3a1 1 0 0 0 1-1v-2a1 1 0 0 0-1-1"/><path d="M3 5v14a2 2 0 0 0 2 2h15a1 1 0 0 0 1-1v-4"/></svg>';
+
+    // Storage can be blocked (private mode, sandboxed frames)
+    function getLastWallet() {
+      try {
+        return localStorage.getItem(LAST_WALLET_KEY);
+      } catch (e) {
+        return null;
+      }
+    }
+
+    function rememberWallet(id) {
+      try {
+        if (id) localStorage.setItem(LAST_WALLET_KEY, id);
+      } catch (e) {
+        // Not remembered; the picker keeps its default order
+      }
+    }
+
+    function getDiscoveredWallets() {
+      return Array.from(discoveredWallets.values()).map(({ info }) => ({
+        id: info.rdns,
+        name: info.name,
+        icon: info.icon,
+      }));
+    }
+
+    // Wallets may announce before or after this runs, so listen, then ask
+    function discoverWallets(onChange) {
+      window.addEventListener('eip6963:announceProvider', (event) => {
+        const detail = event.detail;
+        if (!detail || !detail.info || !detail.info.rdns || !detail.provider) return;
+        discoveredWallets.set(detail.info.rdns, detail);
+        onChange();
+      });
+      window.dispatchEvent(new Event('eip6963:requestProvider'));
+    }
+
+    // Deep links that open this page in a mobile wallet's in-app browser
+    function getMobileWalletLinks() {
+      const url = encodeURIComponent(window.location.href);
+      return [
+        { id: 'io.metamask', name: 'MetaMask', href: 'https://metamask.app.link/dapp/' + window.location.host + window.location.pathname + window.location.search },
+        { id: 'com.coinbase.wallet', name: 'Coinbase Wallet', href: 'https://go.cb-w.com/dapp?cb_url=' + url },
+        { id: 'me.rainbow', name: 'Rainbow', href: 'https://rnbwapp.com/dapp?url=' + url },
+        { id: 'com.trustwallet.app', name: 'Trust Wallet', href: 'https://link.trustwallet.com/open_url?coin_id=60&url=' + url },
+      ];
+    }
+
+    // Render { id, name, icon?, href? } entries into #wallet-picker: buttons
+    // connect an announced wallet, links open a wallet app. The last-used
+    // wallet comes first as the primary action. No entries shows #btn-metamask.
+    function renderWalletPicker(entries) {
+      const picker = document.getElementById('wallet-picker');
+      if (!picker) return;
+      const defaultButton = document.getElementById('btn-metamask');
+      if (entries.length === 0) {
+        picker.replaceChildren();
+        picker.classList.add('hidden');
+        if (defaultButton) defaultButton.classList.remove('hidden');
+        return;
+      }
+
+      const lastWallet = getLastWallet();
+      const sorted = entries
+        .slice()
+        .sort((a, b) => (b.id === lastWallet) - (a.id === lastWallet));
+      const hadFocus = picker.contains(document.activeElement);
+
+      picker.replaceChildren(...sorted.map((entry, index) => {
+        const item = document.createElement(entry.href ? 'a' : 'button');
+        if (entry.href) {
+          item.href = entry.href;
+          item.rel = 'noopener';
+          item.setAttribute('data-x402-action', 'rememberWallet');
+        } else {
+          item.type = 'button';
+          item.setAttribute('data-x402-action', 'connectInjectedWallet');
+        }
+        item.setAttribute('data-x402-arg', entry.id);
+        if (index === 0) {
+          item.setAttribute('data-x402-primary', '');
+          item.className = 'btn-animate w-full bg-brand-primary hover:bg-brand-primary-hover text-white font-semibold py-3 px-4 rounded-lg shadow-lg flex items-center justify-center gap-2';
+        } else {
+          item.className = 'btn-secondary-animate w-full bg-background hover:bg-border text-foreground font-semibold py-3 px-4 rounded-lg border border-border flex items-center justify-center gap-2';
+        }
+
+        // EIP-6963 icons are data URIs; anything else gets the generic icon
+        if (entry.icon && /^data:image\\//.test(entry.icon)) {
+          const icon = document.createElement('img');
+          icon.src = entry.icon;
+          icon.alt = '';
+          icon.width = 20;
+          icon.height = 20;
+          icon.className = 'w-5 h-5 rounded';
+          item.appendChild(icon);
+        } else {
+          item.insertAdjacentHTML('beforeend', WALLET_ICON_SVG);
+        }
+
+        const name = document.createElement('span');
+        name.className = 'wallet-picker-name';
+        name.textContent = entry.href ? t('openInWallet', { wallet: entry.name }) : entry.name;
+        item.appendChild(name);
+
+        if (entry.id === lastWallet) {
+          const badge = document.createElement('span');
+          badge.className = 'text-xs font-normal opacity-75';
+          badge.textContent = t('lastUsed');
+          item.appendChild(badge);
+        }
+        return item;
+      }));
+
+      picker.classList.remove('hidden');
+      if (defaultButton) defaultButton.classList.add('hidden');
+      if (hadFocus && picker.firstElementChild) picker.firstElementChild.focus();
+    }`;
+}
+
+/**
+ * Injected wallet connection (EIP-6963 wallets, else `window.ethereum`)
  */
 export function getConnectMetaMaskScript(): string {
   return `
-    // Connect via MetaMask / injected wallet
-    async function connectMetaMask() {
-      if (!hasInjectedWallet()) {
+    // Announced wallets, else mobile deep links when there is no injected wallet
+    function getWalletPickerEntries() {
+      const wallets = getDiscoveredWallets();
+      if (wallets.length === 0 && !hasInjectedWallet() && isMobile()) {
+        return getMobileWalletLinks();
+      }
+      return wallets;
+    }
+
+    function updateWalletPicker() {
+      renderWalletPicker(getWalletPickerEntries());
+    }
+
+    discoverWallets(updateWalletPicker);
+
+    // Show progress on the button that was clicked
+    function setConnectingLabel(rdns) {
+      if (!rdns) {
+        document.getElementById('btn-metamask-text').textContent = t('connecting');
+        return;
+      }
+      const item = Array.from(document.querySelectorAll('#wallet-picker [data-x402-arg]'))
+        .find(el => el.getAttribute('data-x402-arg') === rdns);
+      const name = item && item.querySelector('.wallet-picker-name');
+      if (name) name.textContent = t('connecting');
+    }
+
+    // Connect an announced wallet by its rdns, or window.ethereum without one
+    async function connectInjectedWallet(rdns) {
+      const announced = rdns ? discoveredWallets.get(rdns) : null;
+      const injected = announced ? announced.provider : window.ethereum;
+      if (!injected) {
         // On mobile, redirect to MetaMask deep link
         if (isMobile()) {
-          const currentUrl = encodeURIComponent(window.location.href);
           window.location.href = 'https://metamask.app.link/dapp/' + window.location.host + window.location.pathname + window.location.search;
           return;
         }
-        showError('No wallet detected. Please install MetaMask or another Web3 wallet.');
+        showError(t('noWalletDetected'));
         return;
       }
 
       try {
-        document.getElementById('btn-metamask-text').textContent = 'Connecting...';
-        provider = window.ethereum;
+        setConnectingLabel(announced ? rdns : null);
+        provider = injected;
 
         // Request accounts
         const accounts = await provider.request({ method: 'eth_requestAccounts' });
@@ -394,35 +734,10 @@ export function getConnectMetaMaskScript(): string {
         }
 
         connectedAddress = accounts[0];
+        if (announced) rememberWallet(rdns);
 
-        // Check and switch chain if needed
-        const chainIdHex = await provider.request({ method: 'eth_chainId' });
-        const targetChainHex = window.x402Config.chainIdHex;
-
-        if (chainIdHex.toLowerCase() !== targetChainHex.toLowerCase()) {
-          try {
-            await provider.request({
-              method: 'wallet_switchEthereumChain',
-              params: [{ chainId: targetChainHex }],
-            });
-          } catch (switchError) {
-            // Chain not added, try to add it
-            if (switchError.code === 4902) {
-              await provider.request({
-                method: 'wallet_addEthereumChain',
-                params: [{
-                  chainId: targetChainHex,
-                  chainName: window.x402Config.chainName,
-                  nativeCurrency: { name: 'ETH', symbol: 'ETH', decimals: 18 },
-                  rpcUrls: [window.x402Config.rpcUrl],
-                  blockExplorerUrls: [window.x402Config.blockExplorer],
-                }],
-              });
-            } else {
-              throw switchError;
-            }
-          }
-        }
+        // Switch to the chain of the selected payment option if needed
+        await switchToChain(provider, getSelectedChainConfig());
 
         // Update UI
         document.getElementById('connected-address').textContent = shortenAddress(connectedAddress);
@@ -435,16 +750,25 @@ export function getConnectMetaMaskScript(): string {
         }
 
         showState('connected');
+        const detail = { address: connectedAddress, wallet: 'injected', family: 'evm' };
+        if (announced) detail.rdns = rdns;
+        emitPaywallEvent('wallet-connected', detail);
 
       } catch (error) {
         console.error('Connection error:', error);
-        document.getElementById('btn-metamask-text').textContent = 'Connect Wallet';
+        document.getElementById('btn-metamask-text').textContent = t('connectWallet');
+        updateWalletPicker();
         if (error.code === 4001) {
-          showError('Connection rejected by user');
+          showError(t('connectionRejected'), true);
         } else {
-          showError(error.message || 'Failed to connect wallet');
+          showError(error.message || t('connectFailed'));
         }
       }
+    }
+
+    // Connect via MetaMask / injected wallet (#btn-metamask)
+    async function connectMetaMask() {
+      return connectInjectedWallet();
     }`;
 }
 
@@ -472,27 +796,33 @@ export function getConnectWalletConnectScript(hasProjectId: boolean): string {
         // Check if WalletConnect is loaded
         if (!window.WalletConnectEthereumProvider) {
           if (!walletConnectLoaded) {
-            showError('WalletConnect is still loading. Please wait a moment and try again.');
+            showError(t('walletConnectLoading'));
             return;
           }
-          showError('WalletConnect failed to load. Please try MetaMask instead.');
+          showError(t('walletConnectLoadFailed'));
           return;
         }
 
         const config = window.x402Config;
+        const selectedChainConfig = getSelectedChainConfig();
+        const acceptedChainConfigs = getAcceptedChainConfigs();
         log('Initializing WalletConnect with projectId:', config.walletConnectProjectId);
 
         // Update button text
         const wcBtn = document.getElementById('btn-walletconnect');
         if (wcBtn) {
-          wcBtn.querySelector('span') ? wcBtn.querySelector('span').textContent = 'Connecting...' : null;
+          wcBtn.querySelector('span') ? wcBtn.querySelector('span').textContent = t('connecting') : null;
         }
 
         // Initialize WalletConnect EthereumProvider
         // See: https://docs.walletconnect.com/advanced/providers/ethereum
         walletConnectProviderInstance = await window.WalletConnectEthereumProvider.init({
           projectId: config.walletConnectProjectId,
-          chains: [config.chainId],
+          chains: [selectedChainConfig.chainId],
+          // Other accepted chains, so the buyer can switch payment option later
+          optionalChains: acceptedChainConfigs
+            .map(c => c.chainId)
+            .filter(id => id !== selectedChainConfig.chainId),
           showQrModal: true,
           // Optional: customize the modal
           qrModalOptions: {
@@ -503,10 +833,10 @@ export function getConnectWalletConnectScript(hasProjectId: boolean): string {
               "eth_signTypedData_v4",
               "eth_sign",
           ],
-          // RPC mapping for the chain
-          rpcMap: {
-            [config.chainId]: config.rpcUrl,
-          },
+          // RPC mapping for every accepted chain
+          rpcMap: Object.fromEntries(
+            acceptedChainConfigs.map(c => [c.chainId, c.rpcUrl])
+          ),
           // Metadata for the dApp
           metadata: {
             name: config.appName || 'x402 Paywall',
@@ -534,35 +864,11 @@ export function getConnectWalletConnectScript(hasProjectId: boolean): string {
         provider = walletConnectProviderInstance;
 
         // Check if we're on the correct chain
-        const chainIdHex = await walletConnectProviderInstance.request({ method: 'eth_chainId' });
-        const currentChainId = parseInt(chainIdHex, 16);
-        log('WalletConnect chainId:', currentChainId, 'target:', config.chainId);
-
-        if (currentChainId !== config.chainId) {
-          log('Chain mismatch, attempting to switch...');
-          try {
-            await walletConnectProviderInstance.request({
-              method: 'wallet_switchEthereumChain',
-              params: [{ chainId: config.chainIdHex }],
-            });
-          } catch (switchError) {
-            // Chain not added, try to add it
-            if (switchError.code === 4902) {
-              await walletConnectProviderInstance.request({
-                method: 'wallet_addEthereumChain',
-                params: [{
-                  chainId: config.chainIdHex,
-                  chainName: config.chainName,
-                  nativeCurrency: { name: 'ETH', symbol: 'ETH', decimals: 18 },
-                  rpcUrls: [config.rpcUrl],
-                  blockExplorerUrls: [config.blockExplorer],
-                }],
-              });
-            } else {
-              console.warn('Failed to switch chain:', switchError);
-              // Continue anyway, user may have approved on correct chain
-            }
-          }
+        try {
+          await switchToChain(walletConnectProviderInstance, selectedChainConfig);
+        } catch (switchError) {
+          console.warn('Failed to switch chain:', switchError);
+          // Continue anyway, user may have approved on correct chain
         }
 
         // Update UI
@@ -577,6 +883,7 @@ export function getConnectWalletConnectScript(hasProjectId: boolean): string {
 
         showState('connected');
         log('WalletConnect connection successful');
+        emitPaywallEvent('wallet-connected', { address: connectedAddress, wallet: 'walletconnect', family: 'evm' });
 
         // Subscribe to account changes
         walletConnectProviderInstance.on('accountsChanged', (accs) => {
@@ -612,7 +919,7 @@ export function getConnectWalletConnectScript(hasProjectId: boolean): string {
         const wcBtn = document.getElementById('btn-walletconnect');
         if (wcBtn) {
           wcBtn.innerHTML = \`
-            <svg class="w-5 h-5" viewBox="0 0 24 24" fill="currentColor">
+            <svg class="w-5 h-5" viewBox="0 0 24 24" fill="currentColor" aria-hidden="true" focusable="false">
               <path d="M6.09 10.26c3.26-3.19 8.54-3.19 11.8 0l.39.38c.16.16.16.42 0 .58l-1.34 1.31c-.08.08-.21.08-.29 0l-.54-.53c-2.27-2.22-5.96-2.22-8.24 0l-.58.56c-.08.08-.21.08-.29 0L5.66 11.2c-.16-.16-.16-.42 0-.58l.43-.36zm14.58 2.71l1.19 1.17c.16.16.16.42 0 .58l-5.37 5.26c-.16.16-.42.16-.58 0l-3.81-3.73c-.04-.04-.11-.04-.15 0l-3.81 3.73c-.16.16-.42.16-.58 0L2.19 14.72c-.16-.16-.16-.42 0-.58l1.19-1.17c.16-.16.42-.16.58 0l3.81 3.73c.04.04.11.04.15 0l3.81-3.73c.16-.16.42-.16.58 0l3.81 3.73c.04.04.11.04.15 0l3.81-3.73c.16-.16.42-.16.58 0z"/>
             </svg>
             WalletConnect
@@ -620,12 +927,13 @@ export function getConnectWalletConnectScript(hasProjectId: boolean): string {
         }
 
         if (error.message?.includes('User rejected') || error.message?.includes('rejected')) {
-          showError('Connection rejected by user');
+          showError(t('connectionRejected'), true);
         } else if (error.message?.includes('Modal closed')) {
           // User just closed the modal, don't show error
           log('User closed WalletConnect modal');
+          emitPaywallEvent('cancelled', { message: t('connectionRejected') });
         } else {
-          showError(error.message || 'Failed to connect via WalletConnect');
+          showError(error.message || t('walletConnectFailed'));
         }
       }
     }`;
@@ -634,248 +942,734 @@ export function getConnectWalletConnectScript(hasProjectId: boolean): string {
   return `
     // Connect via WalletConnect (not configured)
     async function connectWalletConnect() {
-      showError('WalletConnect not configured. Please provide a WalletConnect Project ID.');
+      showError(t('walletConnectNotConfigured'));
+    }`;
+}
+
+/**
+ * Payment option selection across all `accepts` entries
+ */
+export function getPaymentOptionsScript(): string {
+  return `
+    // Index into paymentRequired.accepts of the option the buyer selected
+    let selectedRequirementIndex = 0;
+    // Balances from the last fetch, one entry per accepted requirement
+    let paymentOptionBalances = [];
+
+    // USDC has 6 decimals; other tokens declare theirs in extra.decimals
+    const USDC_DECIMALS = 6;
+
+    // Format amount for display, handling sub-cent values
+    function formatDisplayAmount(amount, decimals) {
+      return formatLocalizedAmount(amount, decimals ?? USDC_DECIMALS);
+    }
+
+    // Escape text interpolated into option markup
+    function escapeHtmlText(text) {
+      return String(text)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+    }
+
+    // Resolve the token a requirement is paid in (mirrors resolveRequirementToken)
+    function getRequirementToken(requirement) {
+      const config = window.x402Config;
+      const chainConfig = requirement && getChainConfigForNetwork(requirement.network);
+      const address = requirement?.asset || chainConfig?.usdcAddress || config.usdcAddress;
+      const configToken = config.token
+        && address
+        && config.token.address.toLowerCase() === address.toLowerCase()
+        ? config.token
+        : null;
+      const isUsdc = !!chainConfig?.usdcAddress
+        && !!address
+        && chainConfig.usdcAddress.toLowerCase() === address.toLowerCase();
+      const extra = requirement?.extra || {};
+
+      return {
+        address,
+        symbol: extra.symbol || configToken?.symbol || (isUsdc ? 'USDC' : extra.name || 'tokens'),
+        decimals: extra.decimals ?? configToken?.decimals ?? USDC_DECIMALS,
+        eip712Name: extra.name || configToken?.eip712Name,
+        eip712Version: extra.version || configToken?.eip712Version,
+      };
+    }
+
+    // Convert a requirement's atomic amount to a display string using its token decimals
+    function formatAtomicAmount(requirement) {
+      const { decimals } = getRequirementToken(requirement);
+      return formatDisplayAmount(Number(requirement?.amount || 0) / Math.pow(10, decimals), decimals);
+    }
+
+    function getAcceptedRequirements() {
+      return window.x402Config.paymentRequired?.accepts || [];
+    }
+
+    function getSelectedRequirement() {
+      const accepts = getAcceptedRequirements();
+      return accepts[selectedRequirementIndex] || accepts[0];
+    }
+
+    // Look up chain config for a network, falling back to the top-level config
+    function getChainConfigForNetwork(network) {
+      const config = window.x402Config;
+      const chainConfig = config.chainConfigs?.[network];
+      if (chainConfig) return chainConfig;
+      if (network === config.network) {
+        return {
+          chainId: config.chainId,
+          name: config.chainName,
+          usdcAddress: config.usdcAddress,
+          rpcUrl: config.rpcUrl,
+          blockExplorer: config.blockExplorer,
+          testnet: config.testnet,
+        };
+      }
+      return null;
+    }
+
+    function getSelectedChainConfig() {
+      const requirement = getSelectedRequirement();
+      return (requirement && getChainConfigForNetwork(requirement.network))
+        || getChainConfigForNetwork(window.x402Config.network);
+    }
+
+    // Unique chain configs across all accepted requirements
+    function getAcceptedChainConfigs() {
+      const seen = {};
+      const chainConfigs = [];
+      getAcceptedRequirements().forEach(requirement => {
+        const chainConfig = getChainConfigForNetwork(requirement.network);
+        if (chainConfig && !seen[chainConfig.chainId]) {
+          seen[chainConfig.chainId] = true;
+          chainConfigs.push(chainConfig);
+        }
+      });
+      if (chainConfigs.length === 0) {
+        chainConfigs.push(getChainConfigForNetwork(window.x402Config.network));
+      }
+      return chainConfigs;
+    }
+
+    // Switch the wallet to the given chain, adding it first if unknown
+    async function switchToChain(targetProvider, chainConfig) {
+      const switched = await window.x402Payment.switchEvmChain(targetProvider, chainConfig);
+      if (!switched) return;
+      log('Switched chain:', chainConfig.chainId);
+      emitPaywallEvent('chain-switched', {
+        chainId: chainConfig.chainId,
+        chainName: chainConfig.name,
+        network: 'eip155:' + chainConfig.chainId,
+      });
+    }
+
+    // Render each accepted payment option with the wallet's balance for it
+    function renderPaymentOptions() {
+      const balanceContainer = document.getElementById('balance-container');
+      if (!balanceContainer) return;
+
+      const accepts = getAcceptedRequirements();
+      let optionsHtml = '<div class="space-y-2" role="radiogroup" aria-label="' + tHtml('paymentOption') + '">';
+
+      accepts.forEach((requirement, index) => {
+        const chainConfig = getChainConfigForNetwork(requirement.network);
+        const balanceInfo = paymentOptionBalances.find(b => b.index === index);
+        const isSelected = index === selectedRequirementIndex;
+
+        const token = getRequirementToken(requirement);
+
+        let balanceHtml = '<span class="text-muted">...</span>';
+        if (balanceInfo && balanceInfo.error) {
+          balanceHtml = '<span class="text-destructive" title="' + escapeHtmlText(balanceInfo.error) + '">' + tHtml('balanceFailed') + '</span>';
+        } else if (balanceInfo) {
+          balanceHtml = '<span class="text-foreground font-medium">' + formatDisplayAmount(balanceInfo.balance, token.decimals) + ' ' + escapeHtmlText(token.symbol) + '</span>';
+        }
+
+        optionsHtml += \`
+          <button
+            type="button"
+            role="radio"
+            aria-checked="\${isSelected}"
+            tabindex="\${isSelected ? 0 : -1}"
+            data-requirement-index="\${index}"
+            data-x402-action="selectPaymentOption"
+            data-x402-arg="\${index}"
+            class="payment-option w-full flex items-center justify-between text-xs p-2 rounded-lg border \${isSelected ? 'border-brand-primary' : 'border-border'}"
+          >
+            <span class="flex flex-col items-start text-left">
+              <span class="text-foreground font-medium">\${chainConfig ? chainConfig.name : requirement.network}</span>
+              <span class="text-muted">\${tHtml('payAmount', { amount: formatAtomicAmount(requirement), symbol: escapeHtmlText(token.symbol) })}</span>
+            </span>
+            <span class="text-right">
+              <span class="block text-muted">\${tHtml('balance')}</span>
+              \${balanceHtml}
+            </span>
+          </button>
+        \`;
+      });
+
+      optionsHtml += '</div>';
+      // Re-rendering replaces the focused option; keep focus on the selection
+      const hadFocus = balanceContainer.contains(document.activeElement);
+      balanceContainer.innerHTML = optionsHtml;
+      if (hadFocus) {
+        balanceContainer.querySelector('[role="radio"][aria-checked="true"]')?.focus();
+      }
+      updateBalanceCheck();
+    }
+
+    // Reflect the selected option in the price display and pay button
+    function updateSelectedRequirementDisplay() {
+      const requirement = getSelectedRequirement();
+      const chainConfig = getSelectedChainConfig();
+      if (!requirement || !chainConfig) return;
+
+      const formattedAmount = formatAtomicAmount(requirement);
+      const { symbol } = getRequirementToken(requirement);
+      // Chain configs without a testnet flag inherit it only for the page's primary network
+      const testnet = chainConfig.testnet
+        ?? (requirement.network === window.x402Config.network && !!window.x402Config.testnet);
+
+      const priceEl = document.getElementById('price-display-amount');
+      if (priceEl) priceEl.textContent = formattedAmount;
+
+      const btnAmountEl = document.getElementById('btn-pay-amount');
+      if (btnAmountEl) btnAmountEl.textContent = formattedAmount;
+
+      document.querySelectorAll('#price-display-symbol, #btn-pay-symbol').forEach(el => {
+        el.textContent = symbol;
+      });
+
+      const chainNameEl = document.getElementById('chain-name-display');
+      if (chainNameEl) chainNameEl.textContent = testnet ? t('chainTestnet', { chain: chainConfig.name }) : chainConfig.name;
+
+      const chainIndicatorEl = document.getElementById('chain-indicator');
+      if (chainIndicatorEl) {
+        chainIndicatorEl.classList.remove('bg-yellow-500', 'bg-brand-primary');
+        chainIndicatorEl.classList.add(testnet ? 'bg-yellow-500' : 'bg-brand-primary');
+      }
+    }
+
+    // Select a payment option and switch the wallet to its chain
+    async function selectPaymentOption(index) {
+      // Clicks pass the option index as a data-x402-arg string
+      index = Number(index);
+      if (!getAcceptedRequirements()[index]) return;
+
+      selectedRequirementIndex = index;
+      log('Selected payment option:', index, getSelectedRequirement());
+      renderPaymentOptions();
+      updateSelectedRequirementDisplay();
+
+      if (provider) {
+        try {
+          await switchToChain(provider, getSelectedChainConfig());
+        } catch (error) {
+          // Signing switches again and surfaces the error if still on the wrong chain
+          log('Chain switch after selection failed:', error);
+        }
+      }
+    }
+
+    // Change a payment option's amount in atomic units (host set-amount command)
+    function setPaymentAmount(amount, index) {
+      const requirement = getAcceptedRequirements()[index == null ? selectedRequirementIndex : Number(index)];
+      if (!requirement || !/^\\d+$/.test(String(amount))) return;
+
+      requirement.amount = String(amount);
+      log('Payment amount set:', index, requirement);
+      renderPaymentOptions();
+      updateSelectedRequirementDisplay();
+    }`;
+}
+
+/**
+ * Payment submission (shared by EVM and Solana sign flows)
+ */
+export function getSubmitPaymentScript(): string {
+  return `
+    // Page shape of a paid response: the parsed JSON body (result) or, for
+    // other content types, { blob, contentType, filename } (content), plus
+    // the redirect options header and the settlement details
+    function toPaidResponse(submission) {
+      const { result, contentType, filename, settlement, redirectOptionsHeader } = submission;
+      if (redirectOptionsHeader) {
+        log('Redirect options header found:', redirectOptionsHeader);
+      }
+      if (result instanceof Blob) {
+        log('Success response:', contentType || '(no content type)', result.size, 'bytes');
+        // Untyped bodies that are not JSON come back as text
+        const content = { blob: result, contentType: contentType || 'text/plain', filename };
+        return { result: null, content, redirectOptionsHeader, settlement };
+      }
+      logObj('Success response', result);
+      return { result, content: null, redirectOptionsHeader, settlement };
+    }
+
+    // Send the x402 payment payload to the protected resource, replaying the
+    // request that hit the paywall: its method, safe headers and the ID of
+    // its stashed body, which the server restores
+    async function submitPayment(paymentPayload) {
+      const config = window.x402Config;
+      const replay = config.replayRequest || { method: 'GET', headers: {} };
+      log('Submitting to:', replay.method, config.currentUrl);
+      const submission = await window.x402Payment.submitX402Payment(config.currentUrl, paymentPayload, {
+        replay,
+        messages: x402Messages,
+      });
+      return toPaidResponse(submission);
+    }
+
+    // Read a successful resource response (see toPaidResponse)
+    async function readPaidResponse(response) {
+      const submission = await window.x402Payment.readPaymentResponse(response, window.x402Config.currentUrl);
+      return toPaidResponse(submission);
     }`;
 }
 
 /**
- * Sign payment function options
+ * Success handler options
  */
-export interface SignPaymentScriptOptions {
-  /** JavaScript to execute on successful payment (has access to 'result' and 'config' vars) */
+export interface PaidResponseScriptOptions {
+  /** JavaScript to execute on successful payment (has access to 'result', 'content' and 'config' vars) */
   onSuccessScript: string;
 }
 
 /**
- * EIP-712 signing and payment submission
+ * Success state content for a paid response, shared by the payment flows and
+ * the access token retry. Stores an issued access token (see
+ * getAccessTokenScript) before running the page's success handler.
  */
-export function getSignPaymentScript(
-  options: SignPaymentScriptOptions,
+export function getPaidResponseScript(
+  options: PaidResponseScriptOptions,
 ): string {
   return `
-    // Sign payment using EIP-3009 TransferWithAuthorization
-    async function signPayment() {
-      log('signPayment called');
+    // Show a paid response in the success state. receipt is null when access
+    // came from a stored token rather than a payment
+    function showPaidResponse(result, content, redirectOptionsHeader, receipt) {
+      const config = window.x402Config;
+      storeAccessToken(result?.accessToken);
+      updateForgetAccessControl();
+
+      // Custom success handler (has access to: result, content, config, redirectOptionsHeader, receipt)
+      ${options.onSuccessScript}
+    }`;
+}
 
-      if (!connectedAddress || !provider) {
-        showError('Wallet not connected');
-        return;
+/**
+ * Payment requirement expiry: counts down the selected option's
+ * `maxTimeoutSeconds` from when the page received its requirements, and
+ * refetches them from `currentUrl` (as JSON) when the window lapses or the
+ * tab regains focus. Needs the family's payment options script and the
+ * config resolution script (updateUIFromConfig).
+ */
+export function getRequirementsRefreshScript(): string {
+  return `
+    // ===== Payment requirement refresh =====
+    // Wait before retrying a failed refresh, and skip focus refreshes of fresh requirements
+    const REQUIREMENTS_RETRY_MS = 30000;
+    const REQUIREMENTS_FOCUS_MIN_AGE_MS = 30000;
+
+    // Counted from the server's issuedAt, so a page shown again from the
+    // HTTP cache starts out stale. issuedAt is on the server clock: a client
+    // clock running behind would put it in the future, so the earlier of the
+    // two is used and clock skew can only end the window early, never late.
+    let requirementsReceivedAt = Math.min(Date.now(), window.x402Config.issuedAt || Infinity);
+    let requirementsRefreshing = false;
+    let requirementsRetryAt = 0;
+
+    // A stashed request body (replayRequest) expires with its own TTL
+    function getRequirementsDeadline() {
+      const requirement = getSelectedRequirement();
+      const replay = window.x402Config.replayRequest;
+      let windowSeconds = requirement?.maxTimeoutSeconds || 3600;
+      if (replay?.requestId && replay.ttlSeconds) {
+        windowSeconds = Math.min(windowSeconds, replay.ttlSeconds);
       }
+      return requirementsReceivedAt + windowSeconds * 1000;
+    }
 
-      // Check viem is loaded for address checksumming, nonce generation, and signing
-      if (!window.viemGetAddress || !window.viemToHex || !window.viemCreateWalletClient) {
-        showError('Payment library still loading. Please wait a moment and try again.');
-        log('viem not loaded yet:', {
-          viemGetAddress: !!window.viemGetAddress,
-          viemToHex: !!window.viemToHex,
-          viemCreateWalletClient: !!window.viemCreateWalletClient
-        });
-        return;
+    // m:ss, or h:mm:ss for windows of an hour or more
+    function formatCountdown(ms) {
+      const total = Math.max(0, Math.ceil(ms / 1000));
+      const hours = Math.floor(total / 3600);
+      const minutes = Math.floor((total % 3600) / 60);
+      const seconds = String(total % 60).padStart(2, '0');
+      return hours
+        ? hours + ':' + String(minutes).padStart(2, '0') + ':' + seconds
+        : minutes + ':' + seconds;
+    }
+
+    // Requirements can change while the buyer is choosing, not once signing starts
+    function canRefreshRequirements() {
+      const state = getCurrentPaywallState();
+      return state === 'connect' || state === 'connected';
+    }
+
+    // Fresh requirements from the resource's 402 response: the x402 v2
+    // PAYMENT-REQUIRED header, else the JSON body. Always a GET, so an
+    // unpaid POST is never re-sent; a stashed body's ID is sent along so the
+    // server can renew the stash (renewPaywallRequest) and answer with its
+    // new ID.
+    async function fetchPaymentRequirements() {
+      const config = window.x402Config;
+      const replay = config.replayRequest || { method: 'GET', headers: {} };
+      const headers = { 'Accept': 'application/json' };
+      if (replay.headers['accept-language']) {
+        headers['Accept-Language'] = replay.headers['accept-language'];
+      }
+      if (replay.requestId) headers['${PAYWALL_REQUEST_ID_HEADER}'] = replay.requestId;
+      const response = await fetch(config.currentUrl, { method: 'GET', headers });
+      if (response.status !== 402) {
+        throw new Error('Expected a 402 response, got ' + response.status);
+      }
+      const header = response.headers.get('PAYMENT-REQUIRED');
+      const paymentRequired = header ? JSON.parse(atob(header)) : await response.json();
+      if (!Array.isArray(paymentRequired?.accepts) || paymentRequired.accepts.length === 0) {
+        throw new Error('No payment options in the 402 response');
+      }
+      const renewedRequestId = response.headers.get('${PAYWALL_REQUEST_ID_HEADER}');
+      if (replay.requestId && renewedRequestId) {
+        config.replayRequest = { ...replay, requestId: renewedRequestId };
+      } else if (replay.requestId) {
+        log('Stashed request was not renewed; the paid retry may find it expired');
       }
+      return paymentRequired;
+    }
+
+    // Swap in fresh requirements, keeping the buyer's option if still offered
+    function applyPaymentRequirements(paymentRequired) {
+      const config = window.x402Config;
+      const previous = getSelectedRequirement();
+      const changed = JSON.stringify(paymentRequired.accepts) !== JSON.stringify(getAcceptedRequirements());
+      config.paymentRequired = paymentRequired;
+      requirementsReceivedAt = Date.now();
+      if (!changed) return;
+
+      const accepts = paymentRequired.accepts;
+      const sameIndex = previous
+        ? accepts.findIndex(r => r.network === previous.network && r.asset === previous.asset)
+        : -1;
+      const primaryIndex = Math.max(accepts.findIndex(r => r.network === config.network), 0);
+      selectedRequirementIndex = sameIndex >= 0 ? sameIndex : primaryIndex;
+      log('Payment requirements changed:', paymentRequired);
+
+      // Top-level price fields follow the primary option, as on the server
+      const primary = accepts[primaryIndex];
+      const { decimals } = getRequirementToken(primary);
+      config.amountInAtomicUnits = String(primary.amount || 0);
+      config.amount = Number(primary.amount || 0) / Math.pow(10, decimals);
+      config.formattedAmount = formatAtomicAmount(primary);
+      if (primary.payTo) config.payTo = primary.payTo;
+      updateUIFromConfig(config);
+      updateSelectedRequirementDisplay();
+      if (connectedAddress) updateBalanceDisplay(connectedAddress);
+    }
 
+    async function refreshPaymentRequirements() {
+      if (requirementsRefreshing || Date.now() < requirementsRetryAt || !canRefreshRequirements()) return;
+      requirementsRefreshing = true;
+      updateRequirementsCountdown();
       try {
-        showState('processing');
-        document.getElementById('processing-text').textContent = 'Preparing payment...';
+        const paymentRequired = await fetchPaymentRequirements();
+        // The buyer may have started paying meanwhile
+        if (canRefreshRequirements()) applyPaymentRequirements(paymentRequired);
+      } catch (error) {
+        log('Failed to refresh payment requirements:', error);
+        requirementsRetryAt = Date.now() + REQUIREMENTS_RETRY_MS;
+      } finally {
+        requirementsRefreshing = false;
+        updateRequirementsCountdown();
+      }
+    }
 
-        const config = window.x402Config;
-        log('Config loaded');
-        logObj('Full config', config);
+    // Countdown under the price (#price-expiry); refreshes once the window lapses
+    function updateRequirementsCountdown() {
+      const remaining = getRequirementsDeadline() - Date.now();
+      if (remaining <= 0 && !requirementsRefreshing) refreshPaymentRequirements();
 
-        // Get payment requirements from server response
-        const paymentReq = config.paymentRequired;
-        logObj('Payment requirements', paymentReq);
+      const expiryEl = document.getElementById('price-expiry');
+      if (!expiryEl) return;
+      if (!canRefreshRequirements()) {
+        expiryEl.classList.add('hidden');
+        return;
+      }
+      expiryEl.textContent = requirementsRefreshing
+        ? t('updatingPrice')
+        : remaining > 0
+          ? t('priceValidFor', { time: formatCountdown(remaining) })
+          : t('priceUpdateFailed');
+      expiryEl.classList.remove('hidden');
+    }
 
-        const accepts = paymentReq?.accepts || [];
-        log('Accepts array length:', accepts.length);
-        logObj('Accepts array', accepts);
+    function handleRequirementsFocus() {
+      if (document.visibilityState === 'hidden') return;
+      if (Date.now() - requirementsReceivedAt >= REQUIREMENTS_FOCUS_MIN_AGE_MS) {
+        refreshPaymentRequirements();
+      }
+    }
 
-        if (accepts.length === 0) {
-          throw new Error('No payment options available from server');
-        }
+    document.addEventListener('DOMContentLoaded', () => {
+      updateRequirementsCountdown();
+      setInterval(updateRequirementsCountdown, 1000);
+    });
+    window.addEventListener('focus', handleRequirementsFocus);
+    document.addEventListener('visibilitychange', handleRequirementsFocus);`;
+}
 
-        const firstAccept = accepts[0];
-        logObj('First accept (selected requirement)', firstAccept);
+/**
+ * Access tokens kept in the browser: tokens from paid responses are stored per
+ * resource URL until they expire, and the next visit retries the resource
+ * with the stored token before showing the paywall. Storage and header come
+ * from `accessTokenStorage` in the page config.
+ */
+export function getAccessTokenScript(): string {
+  return `
+    // ===== Access tokens =====
+    const ACCESS_TOKEN_KEY_PREFIX = 'x402-paywall:access-token:';
+
+    function getAccessTokenPolicy() {
+      const policy = window.x402Config.accessTokenStorage || {};
+      return {
+        // Web storage is readable by every page on the origin
+        storage: policy.sharedOrigin ? 'none' : policy.storage || 'session',
+        header: policy.header || ${JSON.stringify(DEFAULT_ACCESS_TOKEN_HEADER)},
+        maxAgeSeconds: policy.maxAgeSeconds,
+      };
+    }
 
-        // Validate required fields from the payment requirement
-        if (!firstAccept.payTo) {
-          throw new Error('Payment requirement missing payTo address');
-        }
-        if (!firstAccept.amount) {
-          throw new Error('Payment requirement missing amount');
-        }
-        if (!firstAccept.asset) {
-          throw new Error('Payment requirement missing asset (USDC contract address)');
-        }
-        if (!firstAccept.extra?.name || !firstAccept.extra?.version) {
-          throw new Error('Payment requirement missing extra.name or extra.version for EIP-712 domain');
-        }
+    // Web storage for the policy, or null when disabled, on a shared origin
+    // or blocked (private browsing, sandboxed frames)
+    function getAccessTokenStore() {
+      const { storage } = getAccessTokenPolicy();
+      if (storage === 'none') return null;
+      try {
+        return storage === 'session' ? window.sessionStorage : window.localStorage;
+      } catch (e) {
+        return null;
+      }
+    }
 
-        // Extract values from the server's payment requirement
-        // Apply EIP-55 checksumming to all addresses for consistent signature verification
-        const from = toChecksumAddress(connectedAddress);
-        const to = toChecksumAddress(firstAccept.payTo);
-        const value = firstAccept.amount;
-        const asset = toChecksumAddress(firstAccept.asset);
-        const maxTimeoutSeconds = firstAccept.maxTimeoutSeconds || 3600;
-
-        log('Extracted from firstAccept (checksummed):', { from, to, value, asset, maxTimeoutSeconds });
-
-        const now = Math.floor(Date.now() / 1000);
-
-        // EIP-3009: validAfter/validBefore timing (matches official @x402/evm implementation)
-        // validAfter = now - 600 (10 minutes ago, for clock skew tolerance)
-        // validBefore = now + maxTimeoutSeconds (authorization expiry)
-        const validAfter = String(now - 600); // 10 minutes ago (matches official implementation)
-        const validBefore = String(now + maxTimeoutSeconds);
-
-        log('Time values:', {
-          now,
-          nowDate: new Date(now * 1000).toISOString(),
-          validAfter,
-          validAfterDate: new Date(parseInt(validAfter) * 1000).toISOString(),
-          validBefore,
-          validBeforeDate: new Date(parseInt(validBefore) * 1000).toISOString(),
-          maxTimeoutSeconds,
-        });
+    function getAccessTokenKey() {
+      return ACCESS_TOKEN_KEY_PREFIX + new URL(window.x402Config.currentUrl, window.location.href).href;
+    }
 
-        // Generate random nonce (32 bytes as hex) using viem's toHex
-        const toHex = window.viemToHex;
-        const nonce = toHex(crypto.getRandomValues(new Uint8Array(32)));
-        log('Generated nonce:', nonce);
+    // exp claim of a JWT in milliseconds, or null for other tokens
+    function getTokenExpiry(token) {
+      try {
+        const segment = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+        const claims = JSON.parse(atob(segment.padEnd(Math.ceil(segment.length / 4) * 4, '=')));
+        return typeof claims.exp === 'number' ? claims.exp * 1000 : null;
+      } catch (e) {
+        return null;
+      }
+    }
 
-        // EIP-712 domain from payment requirement's extra field
-        const domain = {
-          name: firstAccept.extra.name,
-          version: firstAccept.extra.version,
-          chainId: config.chainId,
-          verifyingContract: asset,
-        };
-        logObj('EIP-712 domain', domain);
-
-        // EIP-3009 TransferWithAuthorization types
-        const types = {
-          TransferWithAuthorization: [
-            { name: 'from', type: 'address' },
-            { name: 'to', type: 'address' },
-            { name: 'value', type: 'uint256' },
-            { name: 'validAfter', type: 'uint256' },
-            { name: 'validBefore', type: 'uint256' },
-            { name: 'nonce', type: 'bytes32' },
-          ],
-        };
+    // Keep a token until its exp (or ${DEFAULT_ACCESS_TOKEN_TTL_SECONDS / 3600} hours), capped by maxAgeSeconds
+    function storeAccessToken(token) {
+      const store = getAccessTokenStore();
+      if (!store || typeof token !== 'string' || !token) return;
 
-        // EIP-712 message with proper types for viem
-        // viem's signTypedData handles BigInt conversion internally
-        const message = {
-          from,
-          to,
-          value: BigInt(value),
-          validAfter: BigInt(validAfter),
-          validBefore: BigInt(validBefore),
-          nonce,
-        };
-        logObj('EIP-712 message', {
-          from,
-          to,
-          value,
-          validAfter,
-          validBefore,
-          nonce,
-        });
+      const { maxAgeSeconds } = getAccessTokenPolicy();
+      const now = Date.now();
+      let expiresAt = getTokenExpiry(token) ?? now + ${DEFAULT_ACCESS_TOKEN_TTL_SECONDS} * 1000;
+      if (maxAgeSeconds) expiresAt = Math.min(expiresAt, now + maxAgeSeconds * 1000);
+      try {
+        store.setItem(getAccessTokenKey(), JSON.stringify({ token, expiresAt }));
+      } catch (e) {
+        log('Failed to store access token:', e);
+      }
+    }
 
-        logObj('EIP-712 domain', domain);
-        log('EIP-712 types:', types);
+    // Unexpired stored token for this resource; expired ones are removed
+    function getStoredAccessToken() {
+      const store = getAccessTokenStore();
+      if (!store) return null;
+      try {
+        const entry = JSON.parse(store.getItem(getAccessTokenKey()) || 'null');
+        if (entry && typeof entry.token === 'string' && entry.expiresAt > Date.now()) {
+          return entry.token;
+        }
+        store.removeItem(getAccessTokenKey());
+      } catch (e) {
+        log('Failed to read stored access token:', e);
+      }
+      return null;
+    }
 
-        document.getElementById('processing-text').textContent = 'Please sign in your wallet...';
+    function clearAccessToken() {
+      try {
+        getAccessTokenStore()?.removeItem(getAccessTokenKey());
+      } catch (e) {
+        log('Failed to clear access token:', e);
+      }
+    }
 
-        // Create viem wallet client from injected provider
-        const chain = config.chainId === 8453 ? window.viemChains.base : window.viemChains.baseSepolia;
-        const walletClient = window.viemCreateWalletClient({
-          account: from,
-          chain,
-          transport: window.viemCustom(provider),
-        });
-        log('Created wallet client for chain:', chain.name);
-
-        // Sign using viem's signTypedData
-        log('Requesting signature via viem signTypedData...');
-        const signature = await walletClient.signTypedData({
-          account: from,
-          domain,
-          types,
-          primaryType: 'TransferWithAuthorization',
-          message,
-        });
-        log('Signature received:', signature);
-
-        document.getElementById('processing-text').textContent = 'Submitting payment...';
-
-        // Build x402 v2 payment payload
-        // Use the exact requirement from server as 'accepted' (not reconstructed)
-        const paymentPayload = {
-          x402Version: 2,
-          payload: {
-            signature,
-            authorization: {
-              from,
-              to,
-              value,
-              validAfter,
-              validBefore,
-              nonce,
-            },
-          },
-          // Use the exact requirement from the server
-          accepted: firstAccept,
-          // Use resource directly from payment requirements
-          resource: paymentReq?.resource,
-        };
-        logObj('Payment payload (before b64)', paymentPayload);
+    // The "forget my access" control shows while a token is stored
+    function updateForgetAccessControl() {
+      const container = document.getElementById('forget-access-container');
+      const btn = document.getElementById('btn-forget-access');
+      if (!container) return;
+      container.classList.toggle('hidden', !getStoredAccessToken());
+      if (btn) {
+        btn.disabled = false;
+        btn.textContent = t('forgetAccess');
+      }
+    }
 
-        // Encode as base64 for header
-        const paymentHeader = btoa(JSON.stringify(paymentPayload));
-        log('Payment header (b64):', paymentHeader);
-        log('Payment header decoded for verification:', JSON.parse(atob(paymentHeader)));
+    // Drop the stored token; the next visit shows the paywall again
+    function forgetAccess() {
+      clearAccessToken();
+      const btn = document.getElementById('btn-forget-access');
+      if (btn) {
+        btn.disabled = true;
+        btn.textContent = t('accessForgotten');
+      }
+    }
 
-        // Submit to the same URL with payment header
-        log('Submitting to:', config.currentUrl);
+    // Retry the resource with the stored token and show it instead of the
+    // paywall if accepted. A rejected token is dropped. Requests with a
+    // stashed body are not retried: the stash is kept for the paid retry.
+    async function retryWithStoredAccessToken() {
+      const config = window.x402Config;
+      const replay = config.replayRequest || { method: 'GET', headers: {} };
+      const token = getStoredAccessToken();
+      if (!token || replay.requestId) return;
+
+      const { header } = getAccessTokenPolicy();
+      document.getElementById('processing-text').textContent = t('checkingAccess');
+      showState('processing');
+      try {
+        log('Retrying with stored access token:', replay.method, config.currentUrl);
         const response = await fetch(config.currentUrl, {
-          method: 'GET',
+          method: replay.method,
           headers: {
-            'X-PAYMENT-SIGNATURE': paymentHeader,
-            'PAYMENT-SIGNATURE': paymentHeader,
+            ...replay.headers,
+            [header]: header.toLowerCase() === 'authorization' ? 'Bearer ' + token : token,
             'Accept': 'application/json',
           },
         });
-        log('Response status:', response.status);
-
         if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          logObj('Error response', errorData);
-          throw new Error(errorData.message || 'Payment verification failed');
+          log('Stored access token not accepted:', response.status);
+          if (response.status === 401 || response.status === 402 || response.status === 403) {
+            clearAccessToken();
+          }
+          resetState();
+          return;
         }
 
-        // Capture redirect options header before consuming response body
-        const redirectOptionsHeader = response.headers.get('X-PAYWALL-REDIRECT-OPTIONS');
-        if (redirectOptionsHeader) {
-          log('Redirect options header found:', redirectOptionsHeader);
+        const { result, content, redirectOptionsHeader } = await readPaidResponse(response);
+        showState('success');
+        showPaidResponse(result, content, redirectOptionsHeader, null);
+      } catch (error) {
+        log('Access token retry failed:', error);
+        resetState();
+      }
+    }
+
+    document.addEventListener('DOMContentLoaded', retryWithStoredAccessToken);`;
+}
+
+/**
+ * EIP-712 signing and payment submission
+ */
+export function getSignPaymentScript(): string {
+  return `
+    // Sign an EIP-3009 TransferWithAuthorization for the selected option and
+    // submit it (see x402Payment.signEvmPayment)
+    async function signPayment() {
+      log('signPayment called');
+
+      if (!connectedAddress || !provider) {
+        showError(t('walletNotConnected'));
+        return;
+      }
+
+      // Pay is disabled on a shortfall; commands and custom buttons stop here too
+      if (getBalanceShortfall(selectedRequirementIndex) > 0) {
+        updateBalanceCheck();
+        return;
+      }
+
+      // Check viem is loaded for address checksumming
+      if (!window.viemGetAddress) {
+        showError(t('libraryLoading'));
+        log('viem not loaded yet');
+        return;
+      }
+
+      try {
+        showState('processing');
+        document.getElementById('processing-text').textContent = t('preparingPayment');
+
+        const config = window.x402Config;
+        const paymentReq = config.paymentRequired;
+        logObj('Payment requirements', paymentReq);
+
+        if ((paymentReq?.accepts || []).length === 0) {
+          throw new Error(t('noPaymentOptions'));
         }
 
-        const result = await response.json();
-        logObj('Success response', result);
+        const selectedAccept = getSelectedRequirement();
+        const chainConfig = getSelectedChainConfig();
+        logObj('Selected requirement', selectedAccept);
+        logObj('Selected chain config', chainConfig);
+
+        // EIP-55 checksummed, as wallets may return lowercase accounts
+        const from = toChecksumAddress(connectedAddress);
+
+        // Make sure the wallet is on the chain of the selected payment option
+        document.getElementById('processing-text').textContent = t('switchingNetwork');
+        await switchToChain(provider, chainConfig);
+
+        document.getElementById('processing-text').textContent = t('signInWallet');
+        emitPaywallEvent('signing', {
+          network: selectedAccept.network,
+          amount: selectedAccept.amount,
+          asset: selectedAccept.asset,
+          payTo: selectedAccept.payTo,
+        });
+        const paymentPayload = await window.x402Payment.signEvmPayment(provider, from, selectedAccept, {
+          paymentRequired: paymentReq,
+          chain: chainConfig,
+          // Token metadata (EIP-712 domain) from extra, falling back to config.token
+          token: getRequirementToken(selectedAccept),
+          // Already checked against the displayed balances above
+          checkBalance: false,
+          // Deployment data for a bare ERC-1271 signature from an undeployed smart wallet
+          resolveDeployment: config.smartWalletDeploymentUrl
+            ? function(account) {
+                return window.x402Payment.fetchSmartWalletDeployment(
+                  config.smartWalletDeploymentUrl, account, selectedAccept.network
+                );
+              }
+            : undefined,
+          messages: x402Messages,
+        });
+        logObj('Payment payload (before b64)', paymentPayload);
+
+        document.getElementById('processing-text').textContent = t('submittingPayment');
+        const { result, content, redirectOptionsHeader, settlement } = await submitPayment(paymentPayload);
+        const receipt = buildPaymentReceipt(selectedAccept, from, settlement);
 
         // Success! Show success state and handle redirect
         showState('success');
-
-        // Custom success handler (has access to: result, config, redirectOptionsHeader)
-        ${options.onSuccessScript}
+        emitPaywallEvent('paid', {
+          network: selectedAccept.network,
+          payer: from,
+          txHash: receipt.txHash,
+          settlement,
+        });
+        showPaidResponse(result, content, redirectOptionsHeader, receipt);
 
       } catch (error) {
         console.error('Payment error:', error);
         if (error.code === 4001) {
-          showError('Transaction rejected by user');
+          showError(t('transactionRejected'), true);
         } else {
-          showError(error.message || 'Payment failed. Please try again.');
+          showError(error.message || t('paymentFailedRetry'));
         }
       }
     }`;
@@ -902,10 +1696,18 @@ export function getDOMContentLoadedScript(): string {
 
       logObj('Initial x402Config', window.x402Config);
 
+      // Preselect the payment option matching the page's primary network
+      const primaryIndex = getAcceptedRequirements()
+        .findIndex(requirement => requirement.network === window.x402Config.network);
+      if (primaryIndex > 0) {
+        selectedRequirementIndex = primaryIndex;
+      }
+
       // Update button text based on wallet availability
       if (!hasInjectedWallet() && isMobile()) {
-        document.getElementById('btn-metamask-text').textContent = 'Open in MetaMask';
+        document.getElementById('btn-metamask-text').textContent = t('openInWallet', { wallet: 'MetaMask' });
       }
+      updateWalletPicker();
 
       log('hasInjectedWallet:', hasInjectedWallet());
       log('isMobile:', isMobile());
@@ -914,6 +1716,12 @@ export function getDOMContentLoadedScript(): string {
       if (window.x402Config.testnet) {
         console.log('x402 Payment Config:', window.x402Config);
       }
+
+      emitPaywallEvent('ready', {
+        family: 'evm',
+        network: window.x402Config.network,
+        resource: window.x402Config.currentUrl,
+      });
     });`;
 }
 
@@ -935,6 +1743,9 @@ export function getDOMContentLoadedScript(): string {
  * - #btn-pay-amount: The amount shown in the pay button
  * - #chain-name-display: The chain name display
  * - #chain-indicator: The testnet/mainnet indicator dot
+ *
+ * Uses `t()` and `formatLocalizedAmount()`, so it must run after the
+ * localization script (see getLocalizationScript).
  */
 export function getConfigResolutionScript(): string {
   return `
@@ -943,7 +1754,11 @@ export function getConfigResolutionScript(): string {
         var meta = document.querySelector('meta[name="x-paywall-config"]');
         if (meta && meta.content && meta.content !== '{{payment-config}}') {
           try {
-            return JSON.parse(atob(meta.content));
+            // Base64 of UTF-8 JSON
+            var binary = atob(meta.content);
+            var bytes = new Uint8Array(binary.length);
+            for (var i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+            return JSON.parse(new TextDecoder().decode(bytes));
           } catch (e) {
             console.warn('[x402-paywall] Failed to parse config from meta tag:', e);
           }
@@ -956,20 +1771,18 @@ export function getConfigResolutionScript(): string {
       }
 
       // Format amount for display, handling sub-cent values
-      function formatAmount(amount) {
-        if (amount >= 0.01) {
-          return amount.toFixed(2);
-        }
-        // For sub-cent amounts, show up to 6 decimals but trim trailing zeros
-        var formatted = amount.toFixed(6);
-        return formatted.replace(/\\.?0+$/, '');
+      function formatAmount(amount, decimals) {
+        // Sub-cent amounts show up to the token's decimals (max 8), in the page's locale
+        return formatLocalizedAmount(amount, decimals == null ? 6 : decimals);
       }
 
       // Update UI elements based on resolved config
       function updateUIFromConfig(config) {
         if (!config) return;
 
-        var formattedAmount = config.formattedAmount || formatAmount(config.amount || 0);
+        var formattedAmount = config.formattedAmount
+          || formatAmount(config.amount || 0, config.token && config.token.decimals);
+        var tokenSymbol = (config.token && config.token.symbol) || 'USDC';
 
         // Update price display amount
         var priceEl = document.getElementById('price-display-amount');
@@ -983,10 +1796,18 @@ export function getConfigResolutionScript(): string {
           btnAmountEl.textContent = formattedAmount;
         }
 
+        // Update token symbol next to price and pay button
+        var symbolEls = document.querySelectorAll('#price-display-symbol, #btn-pay-symbol');
+        for (var i = 0; i < symbolEls.length; i++) {
+          symbolEls[i].textContent = tokenSymbol;
+        }
+
         // Update chain name display
         var chainNameEl = document.getElementById('chain-name-display');
         if (chainNameEl && config.chainName) {
-          chainNameEl.textContent = config.chainName + (config.testnet ? ' (Testnet)' : '');
+          chainNameEl.textContent = config.testnet
+            ? t('chainTestnet', { chain: config.chainName })
+            : config.chainName;
         }
 
         // Update chain indicator (testnet = yellow, mainnet = brand primary)
@@ -997,6 +1818,9 @@ export function getConfigResolutionScript(): string {
         }
       }
 
+      // Also applies refreshed payment requirements (see getRequirementsRefreshScript)
+      window.updateUIFromConfig = updateUIFromConfig;
+
       var headerConfig = getConfigFromHeader();
       var fallbackConfig = getConfigFromWindowGlobal();
       
@@ -1016,3 +1840,179 @@ export function getConfigResolutionScript(): string {
     })();
   `;
 }
+
+/**
+ * Click action listener
+ *
+ * Buttons declare their handler as `data-x402-action="fnName"` (plus an
+ * optional `data-x402-arg`) instead of inline `onclick`, which a nonce-based
+ * CSP blocks. One delegated listener calls the matching global function, so
+ * buttons rendered later (e.g. payment options) work too.
+ */
+export function getActionListenerScript(): string {
+  return `
+    (function() {
+      document.addEventListener('click', function(event) {
+        var target = event.target instanceof Element
+          ? event.target.closest('[data-x402-action]')
+          : null;
+        if (!target) return;
+
+        var handler = window[target.getAttribute('data-x402-action')];
+        if (typeof handler !== 'function') return;
+
+        var arg = target.getAttribute('data-x402-arg');
+        handler(arg === null ? undefined : arg);
+      });
+    })();
+  `;
+}
+
+/**
+ * Screen reader announcements, focus management and radio keyboard support
+ *
+ * `showState` calls `announceStateChange` whenever the visible state changes:
+ * the new state is read out through the `#x402-status` / `#x402-alert` live
+ * regions and focus moves to its `data-x402-primary` control. Requires the
+ * localization script.
+ */
+export function getAccessibilityScript(): string {
+  return `
+    // ===== Accessibility =====
+    // Live regions only announce changes, so clear first and set on the next tick
+    function announce(message, assertive) {
+      const region = document.getElementById(assertive ? 'x402-alert' : 'x402-status');
+      if (!region || !message) return;
+      region.textContent = '';
+      setTimeout(() => { region.textContent = message; }, 50);
+    }
+
+    function getStateAnnouncement(stateId) {
+      if (stateId === 'connected') {
+        const address = document.getElementById('connected-address')?.textContent;
+        return address ? t('connected') + ': ' + address : t('connected');
+      }
+      if (stateId === 'success') return t('paymentSuccessful');
+      // The processing state has its own status region for progress text
+      return '';
+    }
+
+    function isVisible(el) {
+      return !el.closest('.hidden');
+    }
+
+    // Focus the state's primary action, else its first control, else the state itself
+    function focusStatePrimary(stateEl) {
+      const target =
+        Array.from(stateEl.querySelectorAll('[data-x402-primary]:not([disabled])')).find(isVisible) ||
+        Array.from(stateEl.querySelectorAll('button:not([disabled]), a[href]')).find(isVisible);
+      if (target) {
+        target.focus();
+        return;
+      }
+      stateEl.setAttribute('tabindex', '-1');
+      stateEl.focus();
+    }
+
+    function announceStateChange(stateId) {
+      if (stateId === 'error') {
+        const error = document.getElementById('error-message')?.textContent?.trim();
+        announce(error ? t('paymentFailed') + ': ' + error : t('paymentFailed'), true);
+      } else {
+        announce(getStateAnnouncement(stateId), false);
+      }
+
+      // Don't steal focus from controls outside the paywall states
+      const stateEl = document.getElementById('state-' + stateId);
+      const active = document.activeElement;
+      const container = document.getElementById('status-container');
+      if (
+        stateEl &&
+        (!active || active === document.body || (container && container.contains(active)))
+      ) {
+        focusStatePrimary(stateEl);
+      }
+    }
+
+    // Arrow keys move between options of a radio group (roving tabindex)
+    document.addEventListener('keydown', (event) => {
+      const radio = event.target instanceof Element
+        ? event.target.closest('[role="radio"]')
+        : null;
+      const group = radio?.closest('[role="radiogroup"]');
+      if (!radio || !group) return;
+
+      const radios = Array.from(group.querySelectorAll('[role="radio"]'));
+      const index = radios.indexOf(radio);
+      let next;
+      switch (event.key) {
+        case 'ArrowDown':
+        case 'ArrowRight':
+          next = radios[(index + 1) % radios.length];
+          break;
+        case 'ArrowUp':
+        case 'ArrowLeft':
+          next = radios[(index - 1 + radios.length) % radios.length];
+          break;
+        case 'Home':
+          next = radios[0];
+          break;
+        case 'End':
+          next = radios[radios.length - 1];
+          break;
+        default:
+          return;
+      }
+      event.preventDefault();
+      next.focus();
+      next.click();
+    });
+  `;
+}
+
+/**
+ * Light/dark toggle for themes with variants
+ *
+ * Rendered in <head> so a saved choice is applied before first paint. The
+ * choice is stored as the root's `data-x402-color-scheme` attribute, which
+ * overrides `prefers-color-scheme` in the theme CSS.
+ */
+export function getColorSchemeScript(
+  colorScheme: 'light' | 'dark' | 'auto' = 'auto',
+): string {
+  return `
+    // ===== Color Scheme =====
+    const X402_COLOR_SCHEME_KEY = 'x402-color-scheme';
+    const x402DefaultColorScheme = ${JSON.stringify(colorScheme)};
+
+    (function() {
+      try {
+        const saved = localStorage.getItem(X402_COLOR_SCHEME_KEY);
+        if (saved === 'light' || saved === 'dark') {
+          document.documentElement.setAttribute('data-x402-color-scheme', saved);
+        }
+      } catch (e) {
+        // Storage unavailable (sandboxed iframe); follow the default
+      }
+    })();
+
+    function getActiveColorScheme() {
+      const chosen = document.documentElement.getAttribute('data-x402-color-scheme');
+      if (chosen) return chosen;
+      if (x402DefaultColorScheme !== 'auto') return x402DefaultColorScheme;
+      return window.matchMedia && window.matchMedia('(prefers-color-scheme: dark)').matches
+        ? 'dark'
+        : 'light';
+    }
+
+    function toggleColorScheme() {
+      const next = getActiveColorScheme() === 'dark' ? 'light' : 'dark';
+      document.documentElement.setAttribute('data-x402-color-scheme', next);
+      try {
+        localStorage.setItem(X402_COLOR_SCHEME_KEY, next);
+      } catch (e) {
+        // Not persisted; the choice lasts for this page view
+      }
+    }
+  `;
+}
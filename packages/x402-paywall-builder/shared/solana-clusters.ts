@@ -0,0 +1,59 @@
+/**
+ * Solana cluster registry for x402 paywall system
+ *
+ * Counterpart of the EVM chain registry (./chains) for `solana:` networks:
+ * maps a CAIP-2 network ID to its USDC mint, RPC endpoint and explorer.
+ */
+
+import type { SolanaClusterConfig } from './types';
+import { SOLANA_CLUSTER_CONFIG } from './constants';
+
+/**
+ * Register (or replace) a Solana cluster under its CAIP-2 network ID.
+ *
+ * @example
+ * ```typescript
+ * registerSolanaCluster(SOLANA_MAINNET, {
+ *   name: 'Solana',
+ *   usdcMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+ *   rpcUrl: 'https://my-rpc.example.com',
+ *   blockExplorer: 'https://explorer.solana.com',
+ * });
+ * ```
+ */
+export function registerSolanaCluster(
+  network: string,
+  config: SolanaClusterConfig,
+): void {
+  if (!isSolanaNetwork(network)) {
+    throw new Error(`Network ${network} is not a solana: network ID`);
+  }
+  SOLANA_CLUSTER_CONFIG[network] = config;
+}
+
+/**
+ * Get the cluster config for a CAIP-2 network ID (e.g. `solana:5eykt4Us...`)
+ */
+export function getSolanaClusterConfig(
+  network: string,
+): SolanaClusterConfig | undefined {
+  return SOLANA_CLUSTER_CONFIG[network];
+}
+
+/**
+ * Snapshot of all registered clusters, keyed by network ID.
+ * Suitable for `solanaClusters` in paywall configs.
+ */
+export function getRegisteredSolanaClusters(): Record<
+  string,
+  SolanaClusterConfig
+> {
+  return { ...SOLANA_CLUSTER_CONFIG };
+}
+
+/**
+ * Check whether a network ID belongs to the Solana namespace
+ */
+export function isSolanaNetwork(network: string): boolean {
+  return network.startsWith('solana:');
+}
@@ -0,0 +1,694 @@
+/**
+ * Solana JavaScript for x402 paywall system
+ *
+ * Browser-side counterpart of ./scripts for `solana:` networks: Phantom and
+ * Solflare connection, SPL token balances, and building the partially signed
+ * transfer transaction for the SVM exact scheme. Logging and payment
+ * submission are shared with the EVM flow (see ./scripts).
+ */
+
+import {
+  SOLANA_COMPUTE_UNIT_LIMIT,
+  SOLANA_COMPUTE_UNIT_PRICE,
+} from './constants';
+
+/**
+ * Wallet state management and wallet detection
+ */
+export function getSolanaWalletStateScript(): string {
+  return `
+    // State management
+    let connectedAddress = null;
+    let solanaWallet = null;
+
+    const SOLANA_WALLET_LABELS = { phantom: 'Phantom', solflare: 'Solflare' };
+
+    // UI state helpers
+    function showState(stateId) {
+      const states = ['connect', 'connected', 'processing', 'success', 'error'];
+      const previous = states.find(s => !document.getElementById('state-' + s).classList.contains('hidden'));
+      states.forEach(s => {
+        document.getElementById('state-' + s).classList.add('hidden');
+      });
+      document.getElementById('state-' + stateId).classList.remove('hidden');
+      if (previous !== stateId) announceStateChange(stateId);
+    }
+
+    // cancelled: the buyer rejected the request in their wallet
+    function showError(message, cancelled) {
+      document.getElementById('error-message').textContent = message;
+      showState('error');
+      emitPaywallEvent(cancelled ? 'cancelled' : 'error', { message });
+    }
+
+    function resetState() {
+      connectedAddress = null;
+
+      // Hide balance container
+      const balanceContainer = document.getElementById('balance-container');
+      if (balanceContainer) {
+        balanceContainer.classList.add('hidden');
+      }
+
+      // Reset button text based on wallet availability
+      Object.keys(SOLANA_WALLET_LABELS).forEach(name => {
+        const btnText = document.getElementById('btn-' + name + '-text');
+        if (btnText) btnText.textContent = getConnectLabel(name);
+      });
+
+      showState('connect');
+    }
+
+    async function disconnect() {
+      if (solanaWallet) {
+        try {
+          await solanaWallet.disconnect();
+        } catch (e) {
+          console.warn('[x402-paywall] Error disconnecting Solana wallet:', e);
+        }
+        solanaWallet = null;
+      }
+
+      resetState();
+    }
+
+    function shortenAddress(addr) {
+      return addr.slice(0, 4) + '...' + addr.slice(-4);
+    }
+
+    // Check if we're on mobile
+    function isMobile() {
+      return /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent);
+    }
+
+    // Injected Solana provider for a wallet, or null if not installed
+    function getSolanaWallet(name) {
+      if (name === 'phantom') {
+        const phantom = window.phantom?.solana;
+        return phantom && phantom.isPhantom ? phantom : null;
+      }
+      if (name === 'solflare') {
+        const solflare = window.solflare;
+        return solflare && solflare.isSolflare ? solflare : null;
+      }
+      return null;
+    }
+
+    // Deep link that opens this page in the wallet's in-app browser
+    function getWalletBrowseUrl(name) {
+      const url = encodeURIComponent(window.location.href);
+      const ref = encodeURIComponent(window.location.origin);
+      if (name === 'phantom') {
+        return 'https://phantom.app/ul/browse/' + url + '?ref=' + ref;
+      }
+      return 'https://solflare.com/ul/v1/browse/' + url + '?ref=' + ref;
+    }
+
+    function getConnectLabel(name) {
+      const label = SOLANA_WALLET_LABELS[name];
+      return !getSolanaWallet(name) && isMobile() ? t('openInWallet', { wallet: label }) : label;
+    }`;
+}
+
+/**
+ * Accepted Solana payment options, token resolution and SPL balances
+ */
+export function getSolanaPaymentOptionsScript(): string {
+  return `
+    // Index into the Solana requirements of the option the buyer selected
+    let selectedRequirementIndex = 0;
+    // Balances from the last fetch, one entry per accepted requirement
+    let paymentOptionBalances = [];
+
+    // USDC has 6 decimals; other tokens declare theirs in extra.decimals
+    const USDC_DECIMALS = 6;
+
+    // Format amount for display, handling sub-cent values
+    function formatDisplayAmount(amount, decimals) {
+      return formatLocalizedAmount(amount, decimals ?? USDC_DECIMALS);
+    }
+
+    // Escape text interpolated into option markup
+    function escapeHtmlText(text) {
+      return String(text)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+    }
+
+    // Only solana: requirements can be paid from this page
+    function getAcceptedRequirements() {
+      const accepts = window.x402Config.paymentRequired?.accepts || [];
+      return accepts.filter(requirement => requirement.network?.startsWith('solana:'));
+    }
+
+    function getSelectedRequirement() {
+      const accepts = getAcceptedRequirements();
+      return accepts[selectedRequirementIndex] || accepts[0];
+    }
+
+    // Look up cluster config for a network, falling back to the top-level config
+    function getClusterConfigForNetwork(network) {
+      const config = window.x402Config;
+      const clusterConfig = config.solanaClusters?.[network];
+      if (clusterConfig) return clusterConfig;
+      if (network === config.network) {
+        return {
+          name: config.chainName,
+          usdcMint: config.usdcAddress,
+          rpcUrl: config.rpcUrl,
+          blockExplorer: config.blockExplorer,
+          testnet: config.testnet,
+        };
+      }
+      return null;
+    }
+
+    function getSelectedClusterConfig() {
+      const requirement = getSelectedRequirement();
+      return (requirement && getClusterConfigForNetwork(requirement.network))
+        || getClusterConfigForNetwork(window.x402Config.network);
+    }
+
+    // Resolve the token a requirement is paid in (mirrors resolveRequirementToken)
+    function getRequirementToken(requirement) {
+      const config = window.x402Config;
+      const clusterConfig = requirement && getClusterConfigForNetwork(requirement.network);
+      const mint = requirement?.asset || clusterConfig?.usdcMint || config.usdcAddress;
+      const configToken = config.token && config.token.address === mint ? config.token : null;
+      const isUsdc = !!clusterConfig?.usdcMint && clusterConfig.usdcMint === mint;
+      const extra = requirement?.extra || {};
+
+      return {
+        address: mint,
+        symbol: extra.symbol || configToken?.symbol || (isUsdc ? 'USDC' : extra.name || 'tokens'),
+        decimals: extra.decimals ?? configToken?.decimals ?? USDC_DECIMALS,
+      };
+    }
+
+    // Convert a requirement's atomic amount to a display string using its token decimals
+    function formatAtomicAmount(requirement) {
+      const { decimals } = getRequirementToken(requirement);
+      return formatDisplayAmount(Number(requirement?.amount || 0) / Math.pow(10, decimals), decimals);
+    }
+
+    function getConnection(clusterConfig) {
+      return new window.solanaWeb3.Connection(clusterConfig.rpcUrl, 'confirmed');
+    }
+
+    // Mints are owned by either the Token or the Token-2022 program
+    async function getTokenProgramId(connection, mint) {
+      const { TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID } = window.splToken;
+      const mintAccount = await connection.getAccountInfo(mint);
+      if (!mintAccount) {
+        throw new Error('Token mint not found: ' + mint.toBase58());
+      }
+      if (!mintAccount.owner.equals(TOKEN_PROGRAM_ID) && !mintAccount.owner.equals(TOKEN_2022_PROGRAM_ID)) {
+        throw new Error('Asset is not an SPL token mint: ' + mint.toBase58());
+      }
+      return mintAccount.owner;
+    }
+
+    // Fetch SPL token balance of the owner's associated token account
+    // A missing token account means a zero balance
+    async function fetchTokenBalance(owner, clusterConfig, mintAddress) {
+      try {
+        const { PublicKey } = window.solanaWeb3;
+        const connection = getConnection(clusterConfig);
+        const mint = new PublicKey(mintAddress);
+        const tokenProgramId = await getTokenProgramId(connection, mint);
+        const tokenAccount = window.splToken.getAssociatedTokenAddressSync(
+          mint,
+          new PublicKey(owner),
+          false,
+          tokenProgramId,
+        );
+
+        if (!(await connection.getAccountInfo(tokenAccount))) {
+          log('No token account for', owner, 'on', clusterConfig.name);
+          return 0;
+        }
+
+        const { value } = await connection.getTokenAccountBalance(tokenAccount);
+        const formattedBalance = Number(value.uiAmountString || 0);
+        log('Raw balance:', value.amount, 'Decimals:', value.decimals, 'Formatted:', formattedBalance);
+        return formattedBalance;
+      } catch (error) {
+        log('Error fetching token balance for cluster', clusterConfig.name, ':', error);
+        return null;
+      }
+    }
+
+    // Fetch balances for all accepted Solana payment options
+    async function fetchAllBalances(address) {
+      const accepts = getAcceptedRequirements();
+      if (!address || accepts.length === 0) {
+        log('No address or Solana accepts found, returning empty array');
+        return [];
+      }
+
+      // web3.js loads async via ESM; wait for it before querying RPC
+      if (!window.solanaWeb3 || !window.splToken) {
+        await new Promise(resolve => window.addEventListener('solana-loaded', resolve, { once: true }));
+      }
+
+      return Promise.all(accepts.map(async (requirement, index) => {
+        const clusterConfig = getClusterConfigForNetwork(requirement.network);
+        if (!clusterConfig) {
+          return { index, requirement, network: requirement.network, balance: null, error: 'Cluster config not found' };
+        }
+        const balance = await fetchTokenBalance(address, clusterConfig, getRequirementToken(requirement).address);
+        return {
+          index,
+          requirement,
+          network: requirement.network,
+          chainName: clusterConfig.name,
+          balance,
+          error: balance === null ? t('failedToFetchBalance') : null,
+        };
+      }));
+    }
+
+    // Update balance display in UI
+    async function updateBalanceDisplay(address) {
+      const balanceContainer = document.getElementById('balance-container');
+      if (!balanceContainer) {
+        log('Balance container not found!');
+        return;
+      }
+
+      // Balances of a previous wallet must not block this one
+      paymentOptionBalances = [];
+      updateBalanceCheck();
+
+      // Show loading state
+      balanceContainer.innerHTML = \`
+        <div class="text-center py-2">
+          <div class="inline-block w-4 h-4 border-2 border-brand-primary border-t-transparent rounded-full animate-spin"></div>
+          <span class="text-xs text-muted ml-2">\${tHtml('checkingBalances')}</span>
+        </div>
+      \`;
+
+      try {
+        const balances = await fetchAllBalances(address);
+
+        if (balances.length === 0) {
+          balanceContainer.innerHTML = '<p class="text-xs text-muted text-center">' + tHtml('noPaymentMethods') + '</p>';
+          return;
+        }
+
+        // Cache balances so selecting an option re-renders without refetching
+        paymentOptionBalances = balances;
+        renderPaymentOptions();
+      } catch (error) {
+        log('Error updating balance display:', error);
+        balanceContainer.innerHTML = '<p class="text-xs text-destructive text-center">' + tHtml('failedToLoadBalances') + '</p>';
+      }
+    }
+
+    // Render each accepted payment option with the wallet's balance for it
+    function renderPaymentOptions() {
+      const balanceContainer = document.getElementById('balance-container');
+      if (!balanceContainer) return;
+
+      const accepts = getAcceptedRequirements();
+      let optionsHtml = '<div class="space-y-2" role="radiogroup" aria-label="' + tHtml('paymentOption') + '">';
+
+      accepts.forEach((requirement, index) => {
+        const clusterConfig = getClusterConfigForNetwork(requirement.network);
+        const balanceInfo = paymentOptionBalances.find(b => b.index === index);
+        const isSelected = index === selectedRequirementIndex;
+        const token = getRequirementToken(requirement);
+
+        let balanceHtml = '<span class="text-muted">...</span>';
+        if (balanceInfo && balanceInfo.error) {
+          balanceHtml = '<span class="text-destructive" title="' + escapeHtmlText(balanceInfo.error) + '">' + tHtml('balanceFailed') + '</span>';
+        } else if (balanceInfo) {
+          balanceHtml = '<span class="text-foreground font-medium">' + formatDisplayAmount(balanceInfo.balance, token.decimals) + ' ' + escapeHtmlText(token.symbol) + '</span>';
+        }
+
+        optionsHtml += \`
+          <button
+            type="button"
+            role="radio"
+            aria-checked="\${isSelected}"
+            tabindex="\${isSelected ? 0 : -1}"
+            data-requirement-index="\${index}"
+            data-x402-action="selectPaymentOption"
+            data-x402-arg="\${index}"
+            class="payment-option w-full flex items-center justify-between text-xs p-2 rounded-lg border \${isSelected ? 'border-brand-primary' : 'border-border'}"
+          >
+            <span class="flex flex-col items-start text-left">
+              <span class="text-foreground font-medium">\${clusterConfig ? clusterConfig.name : requirement.network}</span>
+              <span class="text-muted">\${tHtml('payAmount', { amount: formatAtomicAmount(requirement), symbol: escapeHtmlText(token.symbol) })}</span>
+            </span>
+            <span class="text-right">
+              <span class="block text-muted">\${tHtml('balance')}</span>
+              \${balanceHtml}
+            </span>
+          </button>
+        \`;
+      });
+
+      optionsHtml += '</div>';
+      // Re-rendering replaces the focused option; keep focus on the selection
+      const hadFocus = balanceContainer.contains(document.activeElement);
+      balanceContainer.innerHTML = optionsHtml;
+      if (hadFocus) {
+        balanceContainer.querySelector('[role="radio"][aria-checked="true"]')?.focus();
+      }
+      updateBalanceCheck();
+    }
+
+    // Reflect the selected option in the price display and pay button
+    function updateSelectedRequirementDisplay() {
+      const requirement = getSelectedRequirement();
+      const clusterConfig = getSelectedClusterConfig();
+      if (!requirement || !clusterConfig) return;
+
+      const formattedAmount = formatAtomicAmount(requirement);
+      const { symbol } = getRequirementToken(requirement);
+      // Cluster configs without a testnet flag inherit it only for the page's primary network
+      const testnet = clusterConfig.testnet
+        ?? (requirement.network === window.x402Config.network && !!window.x402Config.testnet);
+
+      const priceEl = document.getElementById('price-display-amount');
+      if (priceEl) priceEl.textContent = formattedAmount;
+
+      const btnAmountEl = document.getElementById('btn-pay-amount');
+      if (btnAmountEl) btnAmountEl.textContent = formattedAmount;
+
+      document.querySelectorAll('#price-display-symbol, #btn-pay-symbol').forEach(el => {
+        el.textContent = symbol;
+      });
+
+      const chainNameEl = document.getElementById('chain-name-display');
+      if (chainNameEl) chainNameEl.textContent = testnet ? t('chainTestnet', { chain: clusterConfig.name }) : clusterConfig.name;
+
+      const chainIndicatorEl = document.getElementById('chain-indicator');
+      if (chainIndicatorEl) {
+        chainIndicatorEl.classList.remove('bg-yellow-500', 'bg-brand-primary');
+        chainIndicatorEl.classList.add(testnet ? 'bg-yellow-500' : 'bg-brand-primary');
+      }
+    }
+
+    // Select a payment option (Solana wallets sign for any cluster, no switch needed)
+    function selectPaymentOption(index) {
+      // Clicks pass the option index as a data-x402-arg string
+      index = Number(index);
+      if (!getAcceptedRequirements()[index]) return;
+
+      selectedRequirementIndex = index;
+      log('Selected payment option:', index, getSelectedRequirement());
+      renderPaymentOptions();
+      updateSelectedRequirementDisplay();
+    }
+
+    // Change a payment option's amount in atomic units (host set-amount command)
+    function setPaymentAmount(amount, index) {
+      const requirement = getAcceptedRequirements()[index == null ? selectedRequirementIndex : Number(index)];
+      if (!requirement || !/^\\d+$/.test(String(amount))) return;
+
+      requirement.amount = String(amount);
+      log('Payment amount set:', index, requirement);
+      renderPaymentOptions();
+      updateSelectedRequirementDisplay();
+    }`;
+}
+
+/**
+ * Phantom and Solflare connection functions
+ */
+export function getConnectSolanaWalletScript(): string {
+  return `
+    // Connect via an injected Solana wallet ('phantom' or 'solflare')
+    async function connectSolanaWallet(name) {
+      const wallet = getSolanaWallet(name);
+      const label = SOLANA_WALLET_LABELS[name];
+      const btnText = document.getElementById('btn-' + name + '-text');
+
+      if (!wallet) {
+        // On mobile, reopen this page in the wallet's in-app browser
+        if (isMobile()) {
+          window.location.href = getWalletBrowseUrl(name);
+          return;
+        }
+        showError(t('walletNotDetected', { wallet: label }));
+        return;
+      }
+
+      try {
+        if (btnText) btnText.textContent = t('connecting');
+
+        // Phantom resolves with { publicKey }; Solflare sets wallet.publicKey
+        const response = await wallet.connect();
+        const publicKey = response?.publicKey || wallet.publicKey;
+        if (!publicKey) {
+          throw new Error('No account returned');
+        }
+
+        solanaWallet = wallet;
+        connectedAddress = publicKey.toString();
+        log('Connected', label, connectedAddress);
+
+        // Update UI
+        document.getElementById('connected-address').textContent = shortenAddress(connectedAddress);
+
+        // Show balance container and fetch balances
+        const balanceContainer = document.getElementById('balance-container');
+        if (balanceContainer) {
+          balanceContainer.classList.remove('hidden');
+          updateBalanceDisplay(connectedAddress);
+        }
+
+        showState('connected');
+        emitPaywallEvent('wallet-connected', { address: connectedAddress, wallet: name, family: 'svm' });
+
+      } catch (error) {
+        console.error('Connection error:', error);
+        if (btnText) btnText.textContent = label;
+        if (error.code === 4001) {
+          showError(t('connectionRejected'), true);
+        } else {
+          showError(error.message || t('connectFailed'));
+        }
+      }
+    }
+
+    function connectPhantom() {
+      return connectSolanaWallet('phantom');
+    }
+
+    function connectSolflare() {
+      return connectSolanaWallet('solflare');
+    }`;
+}
+
+/**
+ * SVM exact-scheme transaction building and payment submission
+ */
+export function getSolanaSignPaymentScript(): string {
+  return `
+    // Encode bytes as base64 for the x402 payload
+    function bytesToBase64(bytes) {
+      let binary = '';
+      for (let i = 0; i < bytes.length; i++) {
+        binary += String.fromCharCode(bytes[i]);
+      }
+      return btoa(binary);
+    }
+
+    // Sign payment as a partially signed SPL TransferChecked transaction
+    // The facilitator (extra.feePayer) adds the fee payer signature and submits it
+    async function signPayment() {
+      log('signPayment called');
+
+      if (!connectedAddress || !solanaWallet) {
+        showError(t('walletNotConnected'));
+        return;
+      }
+
+      // Pay is disabled on a shortfall; commands and custom buttons stop here too
+      if (getBalanceShortfall(selectedRequirementIndex) > 0) {
+        updateBalanceCheck();
+        return;
+      }
+
+      if (!window.solanaWeb3 || !window.splToken) {
+        showError(t('libraryLoading'));
+        log('Solana libraries not loaded yet:', {
+          solanaWeb3: !!window.solanaWeb3,
+          splToken: !!window.splToken
+        });
+        return;
+      }
+
+      try {
+        showState('processing');
+        document.getElementById('processing-text').textContent = t('preparingPayment');
+
+        const config = window.x402Config;
+        const paymentReq = config.paymentRequired;
+        logObj('Payment requirements', paymentReq);
+
+        if (getAcceptedRequirements().length === 0) {
+          throw new Error('No Solana payment options available from server');
+        }
+
+        const selectedAccept = getSelectedRequirement();
+        const clusterConfig = getSelectedClusterConfig();
+        logObj('Selected requirement', selectedAccept);
+        logObj('Selected cluster config', clusterConfig);
+
+        // Validate required fields from the payment requirement
+        if (!selectedAccept.payTo) {
+          throw new Error('Payment requirement missing payTo address');
+        }
+        if (!selectedAccept.amount) {
+          throw new Error('Payment requirement missing amount');
+        }
+        if (!selectedAccept.asset) {
+          throw new Error('Payment requirement missing asset (token mint address)');
+        }
+        if (!selectedAccept.extra?.feePayer) {
+          throw new Error('Payment requirement missing extra.feePayer for Solana transaction');
+        }
+
+        const { PublicKey, ComputeBudgetProgram, TransactionMessage, VersionedTransaction } = window.solanaWeb3;
+        const { getAssociatedTokenAddressSync, createTransferCheckedInstruction, getMint } = window.splToken;
+
+        const connection = getConnection(clusterConfig);
+        const owner = new PublicKey(connectedAddress);
+        const mint = new PublicKey(selectedAccept.asset);
+        const payTo = new PublicKey(selectedAccept.payTo);
+        const feePayer = new PublicKey(selectedAccept.extra.feePayer);
+
+        // Decimals come from the mint itself; TransferChecked rejects a mismatch
+        const tokenProgramId = await getTokenProgramId(connection, mint);
+        const mintInfo = await getMint(connection, mint, 'confirmed', tokenProgramId);
+
+        const sourceTokenAccount = getAssociatedTokenAddressSync(mint, owner, false, tokenProgramId);
+        const destinationTokenAccount = getAssociatedTokenAddressSync(mint, payTo, true, tokenProgramId);
+        log('Token accounts:', {
+          source: sourceTokenAccount.toBase58(),
+          destination: destinationTokenAccount.toBase58(),
+          tokenProgram: tokenProgramId.toBase58(),
+        });
+
+        // The exact scheme only transfers; the recipient's token account must already exist
+        if (!(await connection.getAccountInfo(destinationTokenAccount))) {
+          throw new Error('Recipient has no token account for this asset');
+        }
+
+        const instructions = [
+          ComputeBudgetProgram.setComputeUnitLimit({ units: ${SOLANA_COMPUTE_UNIT_LIMIT} }),
+          ComputeBudgetProgram.setComputeUnitPrice({ microLamports: ${SOLANA_COMPUTE_UNIT_PRICE} }),
+          createTransferCheckedInstruction(
+            sourceTokenAccount,
+            mint,
+            destinationTokenAccount,
+            owner,
+            BigInt(selectedAccept.amount),
+            mintInfo.decimals,
+            [],
+            tokenProgramId,
+          ),
+        ];
+
+        const { blockhash } = await connection.getLatestBlockhash('confirmed');
+        const message = new TransactionMessage({
+          payerKey: feePayer,
+          recentBlockhash: blockhash,
+          instructions,
+        }).compileToV0Message();
+        const transaction = new VersionedTransaction(message);
+        log('Built transaction:', { feePayer: feePayer.toBase58(), blockhash, amount: selectedAccept.amount });
+
+        document.getElementById('processing-text').textContent = t('approveInWallet');
+
+        // Buyer signs as token owner only; the transaction is not sent from the wallet
+        emitPaywallEvent('signing', {
+          network: selectedAccept.network,
+          amount: selectedAccept.amount,
+          asset: selectedAccept.asset,
+          payTo: selectedAccept.payTo,
+        });
+        const signedTransaction = await solanaWallet.signTransaction(transaction);
+        const serializedTransaction = bytesToBase64(signedTransaction.serialize());
+        log('Signed transaction (b64):', serializedTransaction);
+
+        document.getElementById('processing-text').textContent = t('submittingPayment');
+
+        // Build x402 v2 payment payload for the SVM exact scheme
+        const paymentPayload = {
+          x402Version: 2,
+          payload: {
+            transaction: serializedTransaction,
+          },
+          // Use the exact requirement from the server
+          accepted: selectedAccept,
+          resource: paymentReq?.resource,
+        };
+        logObj('Payment payload (before b64)', paymentPayload);
+
+        const { result, content, redirectOptionsHeader, settlement } = await submitPayment(paymentPayload);
+        const receipt = buildPaymentReceipt(selectedAccept, connectedAddress, settlement);
+
+        // Success! Show success state and handle redirect
+        showState('success');
+        emitPaywallEvent('paid', {
+          network: selectedAccept.network,
+          payer: connectedAddress,
+          txHash: receipt.txHash,
+          settlement,
+        });
+        showPaidResponse(result, content, redirectOptionsHeader, receipt);
+
+      } catch (error) {
+        console.error('Payment error:', error);
+        if (error.code === 4001) {
+          showError(t('transactionRejected'), true);
+        } else {
+          showError(error.message || t('paymentFailedRetry'));
+        }
+      }
+    }`;
+}
+
+/**
+ * DOMContentLoaded initialization script
+ */
+export function getSolanaDOMContentLoadedScript(): string {
+  return `
+    // Initialize on load
+    document.addEventListener('DOMContentLoaded', function() {
+      log('DOM loaded, initializing Solana paywall...');
+      logObj('Initial x402Config', window.x402Config);
+
+      // Preselect the payment option matching the page's primary network
+      const primaryIndex = getAcceptedRequirements()
+        .findIndex(requirement => requirement.network === window.x402Config.network);
+      if (primaryIndex > 0) {
+        selectedRequirementIndex = primaryIndex;
+      }
+
+      // Update button text based on wallet availability
+      Object.keys(SOLANA_WALLET_LABELS).forEach(name => {
+        const btnText = document.getElementById('btn-' + name + '-text');
+        if (btnText) btnText.textContent = getConnectLabel(name);
+      });
+
+      log('Solana wallets:', {
+        phantom: !!getSolanaWallet('phantom'),
+        solflare: !!getSolanaWallet('solflare'),
+        isMobile: isMobile(),
+      });
+
+      emitPaywallEvent('ready', {
+        family: 'svm',
+        network: window.x402Config.network,
+        resource: window.x402Config.currentUrl,
+      });
+    });`;
+}
@@ -2,8 +2,20 @@
  * Shared styles for x402 paywall system
  */
 
-import type { ThemeConfig } from './types';
+import type {
+  BrandThemeOptions,
+  ColorScheme,
+  ThemeConfig,
+  ThemeVariants,
+} from './types';
 import { NAMEFI_THEME } from './constants';
+import { getNonceAttribute } from './csp';
+import {
+  formatOklch,
+  parseCssColor,
+  rgbToOklch,
+  suggestAccessibleTheme,
+} from './theme-analysis';
 
 /**
  * Check if a background value contains a gradient
@@ -16,47 +28,160 @@ export function hasGradientBackground(background: string): boolean {
 }
 
 /**
- * Generates the Tailwind CDN script with custom theme configuration
+ * Check if a theme is a pair of light and dark variants
  */
-export function getTailwindScript(theme: ThemeConfig = NAMEFI_THEME): string {
+export function isThemeVariants(
+  theme: ThemeConfig | ThemeVariants,
+): theme is ThemeVariants {
+  return 'light' in theme && 'dark' in theme;
+}
+
+/**
+ * Theme colors as references to the page's `--x402-*` custom properties, for
+ * markup and styles that should follow the active palette
+ */
+export const THEME_VARIABLES: ThemeConfig = {
+  background: 'var(--x402-background)',
+  card: 'var(--x402-card)',
+  foreground: 'var(--x402-foreground)',
+  muted: 'var(--x402-muted)',
+  brandPrimary: 'var(--x402-brand-primary)',
+  brandPrimaryHover: 'var(--x402-brand-primary-hover)',
+  destructive: 'var(--x402-destructive)',
+  border: 'var(--x402-border)',
+  borderRadius: 'var(--x402-radius)',
+};
+
+/**
+ * A color at reduced opacity. Works with any CSS color, including var() references
+ */
+export function withAlpha(color: string, alpha: number): string {
+  return `color-mix(in oklab, ${color} ${Math.round(alpha * 100)}%, transparent)`;
+}
+
+/**
+ * Custom property declarations for one palette
+ */
+function getThemeDeclarations(theme: ThemeConfig): string {
+  return `
+      --x402-background: ${theme.background};
+      --x402-card: ${theme.card};
+      --x402-foreground: ${theme.foreground};
+      --x402-muted: ${theme.muted};
+      --x402-brand-primary: ${theme.brandPrimary};
+      --x402-brand-primary-hover: ${theme.brandPrimaryHover};
+      --x402-destructive: ${theme.destructive};
+      --x402-border: ${theme.border};
+      --x402-radius: ${theme.borderRadius || '1.25rem'};`;
+}
+
+/**
+ * CSS defining the `--x402-*` custom properties the page is styled with.
+ *
+ * With light and dark variants, `colorScheme` picks the palette: 'auto'
+ * switches on `prefers-color-scheme`. A `data-x402-color-scheme` attribute on
+ * the root element (set by the color scheme toggle) overrides it.
+ */
+export function getThemeVariablesCss(
+  theme: ThemeConfig | ThemeVariants = NAMEFI_THEME,
+  colorScheme: ColorScheme = 'auto',
+): string {
+  if (!isThemeVariants(theme)) {
+    return `
+    :root {${getThemeDeclarations(theme)}
+    }`;
+  }
+
+  const initial = colorScheme === 'dark' ? 'dark' : 'light';
   return `
-  <script src="https://cdn.tailwindcss.com"></script>
-  <script>
-    tailwind.config = {
-      theme: {
-        extend: {
-          colors: {
-            background: '${theme.background}',
-            card: '${theme.card}',
-            foreground: '${theme.foreground}',
-            muted: '${theme.muted}',
-            'brand-primary': '${theme.brandPrimary}',
-            'brand-primary-hover': '${theme.brandPrimaryHover}',
-            destructive: '${theme.destructive}',
-            border: '${theme.border}',
-          },
-          borderRadius: {
-            DEFAULT: '${theme.borderRadius || '1.25rem'}',
-          }
-        }
+    :root {
+      color-scheme: ${initial};${getThemeDeclarations(theme[initial])}
+    }${
+      colorScheme === 'auto'
+        ? `
+    @media (prefers-color-scheme: dark) {
+      :root:not([data-x402-color-scheme="light"]) {
+        color-scheme: dark;${getThemeDeclarations(theme.dark)}
       }
+    }`
+        : ''
+    }
+    :root[data-x402-color-scheme="light"] {
+      color-scheme: light;${getThemeDeclarations(theme.light)}
     }
-  </script>`;
+    :root[data-x402-color-scheme="dark"] {
+      color-scheme: dark;${getThemeDeclarations(theme.dark)}
+    }`;
+}
+
+/**
+ * Derive a complete theme from one brand color.
+ *
+ * Surfaces, text and border are neutrals tinted with the brand hue, in oklch.
+ * The result goes through suggestAccessibleTheme, so every text pair meets
+ * WCAG AA; a very light brand color is darkened until white button labels
+ * are readable on it.
+ *
+ * @example
+ * ```typescript
+ * const theme = createThemeFromBrand({ primary: '#ff6b00', mode: 'dark' });
+ * const midnight = createThemeFromBrand(THEME_PRESET_BRANDS.Midnight);
+ * ```
+ */
+export function createThemeFromBrand(options: BrandThemeOptions): ThemeConfig {
+  const brand = parseCssColor(options.primary);
+  if (!brand) {
+    throw new Error(`Invalid brand color: ${options.primary}`);
+  }
+  const { l, c, h } = rgbToOklch(brand);
+  const dark = options.mode === 'dark';
+
+  // Neutrals carry a hint of the brand hue (none for grey brands)
+  const tint = Math.min(c, 0.1) * 0.2;
+  const neutral = (lightness: number, alpha = 1) =>
+    formatOklch(lightness, tint, h, alpha);
+
+  return suggestAccessibleTheme(
+    {
+      background: options.background ?? neutral(dark ? 0.16 : 0.965),
+      card: neutral(dark ? 0.21 : 0.995),
+      foreground: neutral(dark ? 0.97 : 0.18),
+      muted: neutral(dark ? 0.72 : 0.48),
+      brandPrimary: formatOklch(l, c, h),
+      brandPrimaryHover: formatOklch(Math.max(0, l - 0.08), c, h),
+      destructive: dark ? 'oklch(0.7 0.19 25)' : 'oklch(0.55 0.21 27)',
+      border: neutral(dark ? 0.97 : 0.18, 0.12),
+      borderRadius: options.radius ?? '1.25rem',
+    },
+    'AA',
+  );
 }
 
 /**
- * Generates the base CSS styles (fonts, animations, visual effects)
+ * Generates the base CSS styles (fonts, animations, visual effects, focus
+ * rings and reduced-motion overrides)
+ *
+ * Self-contained pages skip the Google Fonts import and fall back to the
+ * system font stack.
  */
-export function getBaseStyles(theme: ThemeConfig = NAMEFI_THEME): string {
-  const isGradient = hasGradientBackground(theme.background);
+export function getBaseStyles(
+  theme: ThemeConfig | ThemeVariants = NAMEFI_THEME,
+  selfContained = false,
+  nonce?: string,
+): string {
+  const palettes = isThemeVariants(theme) ? [theme.light, theme.dark] : [theme];
+  const isGradient = palettes.some((palette) =>
+    hasGradientBackground(palette.background),
+  );
+  const colors = THEME_VARIABLES;
 
   return `
-  <style>
-    @import url('https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700&display=swap');
+  <style${getNonceAttribute(nonce)}>
+    ${selfContained ? '' : "@import url('https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700&display=swap');"}
     
     body { 
       font-family: 'Inter', system-ui, -apple-system, sans-serif;
-      ${isGradient ? `background: ${theme.background};` : ''}
+      ${isGradient ? `background: ${colors.background};` : ''}
     }
     
     /* ===== Card Entrance Animation ===== */
@@ -80,25 +205,25 @@ export function getBaseStyles(theme: ThemeConfig = NAMEFI_THEME): string {
       position: relative;
       overflow: hidden;
       box-shadow: 
-        0 0 20px 0 ${theme.brandPrimary}50,
-        0 0 40px 0 ${theme.brandPrimary}30,
-        0 4px 14px -3px ${theme.brandPrimary}60,
+        0 0 20px 0 ${withAlpha(colors.brandPrimary, 0.31)},
+        0 0 40px 0 ${withAlpha(colors.brandPrimary, 0.19)},
+        0 4px 14px -3px ${withAlpha(colors.brandPrimary, 0.38)},
         inset 0 1px 0 rgba(255,255,255,0.1);
     }
     .btn-animate:hover {
       transform: scale(1.02) translateY(-2px);
       box-shadow: 
-        0 0 30px 4px ${theme.brandPrimary}60,
-        0 0 60px 8px ${theme.brandPrimary}35,
-        0 12px 28px -6px ${theme.brandPrimary}70,
+        0 0 30px 4px ${withAlpha(colors.brandPrimary, 0.38)},
+        0 0 60px 8px ${withAlpha(colors.brandPrimary, 0.21)},
+        0 12px 28px -6px ${withAlpha(colors.brandPrimary, 0.44)},
         inset 0 1px 0 rgba(255,255,255,0.15);
     }
     .btn-animate:active {
       transform: scale(0.98) translateY(0);
       box-shadow: 
-        0 0 15px 0 ${theme.brandPrimary}40,
-        0 0 30px 0 ${theme.brandPrimary}20,
-        0 2px 8px -2px ${theme.brandPrimary}50,
+        0 0 15px 0 ${withAlpha(colors.brandPrimary, 0.25)},
+        0 0 30px 0 ${withAlpha(colors.brandPrimary, 0.13)},
+        0 2px 8px -2px ${withAlpha(colors.brandPrimary, 0.31)},
         inset 0 1px 2px rgba(0,0,0,0.1);
     }
     
@@ -109,17 +234,17 @@ export function getBaseStyles(theme: ThemeConfig = NAMEFI_THEME): string {
     }
     .btn-secondary-animate:hover {
       transform: scale(1.01) translateY(-1px);
-      border-color: ${theme.brandPrimary} !important;
+      border-color: ${colors.brandPrimary} !important;
       box-shadow: 
-        0 0 20px 0 ${theme.brandPrimary}30,
-        0 0 40px 0 ${theme.brandPrimary}15,
-        0 6px 20px -4px ${theme.brandPrimary}35;
+        0 0 20px 0 ${withAlpha(colors.brandPrimary, 0.19)},
+        0 0 40px 0 ${withAlpha(colors.brandPrimary, 0.08)},
+        0 6px 20px -4px ${withAlpha(colors.brandPrimary, 0.21)};
     }
     .btn-secondary-animate:active {
       transform: scale(0.99);
       box-shadow: 
-        0 0 12px 0 ${theme.brandPrimary}25,
-        0 2px 6px -2px ${theme.brandPrimary}30;
+        0 0 12px 0 ${withAlpha(colors.brandPrimary, 0.15)},
+        0 2px 6px -2px ${withAlpha(colors.brandPrimary, 0.19)};
     }
     
     /* ===== Success Checkmark Animation ===== */
@@ -201,7 +326,7 @@ export function getBaseStyles(theme: ThemeConfig = NAMEFI_THEME): string {
     
     /* Enhanced spinner with glow */
     .spinner-glow {
-      box-shadow: 0 0 20px ${theme.brandPrimary}40;
+      box-shadow: 0 0 20px ${withAlpha(colors.brandPrimary, 0.25)};
     }
     
     /* ===== Shimmer Effect ===== */
@@ -232,9 +357,9 @@ export function getBaseStyles(theme: ThemeConfig = NAMEFI_THEME): string {
       padding: 1px;
       background: linear-gradient(
         135deg, 
-        ${theme.brandPrimary}, 
-        ${theme.brandPrimaryHover}, 
-        ${theme.brandPrimary}
+        ${colors.brandPrimary}, 
+        ${colors.brandPrimaryHover}, 
+        ${colors.brandPrimary}
       );
       -webkit-mask: linear-gradient(#fff 0 0) content-box, linear-gradient(#fff 0 0);
       -webkit-mask-composite: xor;
@@ -264,14 +389,14 @@ export function getBaseStyles(theme: ThemeConfig = NAMEFI_THEME): string {
       box-shadow: 
         0 4px 6px -1px rgba(0, 0, 0, 0.1),
         0 2px 4px -1px rgba(0, 0, 0, 0.06),
-        0 0 40px -10px ${theme.brandPrimary}30;
+        0 0 40px -10px ${withAlpha(colors.brandPrimary, 0.19)};
     }
     
     .shadow-glow-lg {
       box-shadow: 
         0 10px 15px -3px rgba(0, 0, 0, 0.1),
         0 4px 6px -2px rgba(0, 0, 0, 0.05),
-        0 0 60px -15px ${theme.brandPrimary}40;
+        0 0 60px -15px ${withAlpha(colors.brandPrimary, 0.25)};
     }
     
     /* ===== Pulse Animation for Processing ===== */
@@ -283,12 +408,65 @@ export function getBaseStyles(theme: ThemeConfig = NAMEFI_THEME): string {
       50% { opacity: 0.7; }
     }
     
+    /* ===== Color Scheme Toggle ===== */
+    .color-scheme-toggle {
+      position: absolute;
+      top: 12px;
+      right: 12px;
+      z-index: 1;
+      background: transparent;
+      border: none;
+      cursor: pointer;
+    }
+    .color-scheme-toggle:hover {
+      color: ${colors.foreground};
+    }
+    
     /* ===== Balance Card Hover ===== */
     .balance-card {
       transition: all 0.2s ease;
     }
     .balance-card:hover {
-      background: ${theme.background}AA !important;
+      background: ${withAlpha(colors.background, 0.67)} !important;
+    }
+    
+    /* ===== Accessibility ===== */
+    .sr-only {
+      position: absolute;
+      width: 1px;
+      height: 1px;
+      padding: 0;
+      margin: -1px;
+      overflow: hidden;
+      clip: rect(0, 0, 0, 0);
+      white-space: nowrap;
+      border-width: 0;
+    }
+    :focus-visible {
+      outline: 2px solid ${colors.brandPrimary};
+      outline-offset: 2px;
+    }
+    
+    /* Entrance, hover and shimmer effects are decorative; the spinner keeps
+       turning so progress stays visible */
+    @media (prefers-reduced-motion: reduce) {
+      *, *::before, *::after {
+        animation-duration: 0.01ms !important;
+        animation-delay: 0s !important;
+        animation-iteration-count: 1 !important;
+        transition-duration: 0.01ms !important;
+        scroll-behavior: auto !important;
+      }
+      .btn-animate:hover,
+      .btn-animate:active,
+      .btn-secondary-animate:hover,
+      .btn-secondary-animate:active {
+        transform: none;
+      }
+      .spinner {
+        animation-duration: 1.5s !important;
+        animation-iteration-count: infinite !important;
+      }
     }
   </style>`;
 }
@@ -0,0 +1,283 @@
+/**
+ * Validation for custom paywall HTML templates
+ *
+ * Custom templates (e.g. the proxy's `customHtml`) are served as-is after
+ * `populateMetaTagPaywallConfig`, so a missing placeholder or element ID only
+ * shows up as a broken page for buyers. This checks a template statically,
+ * without a DOM, before it is saved.
+ */
+
+import type { PaywallFamily } from './types';
+import {
+  PAYWALL_CONFIG_META_NAME,
+  PAYWALL_CONFIG_PLACEHOLDER,
+} from './constants';
+
+/**
+ * Kinds of template problems
+ */
+export type TemplateIssueCode =
+  | 'missing-config-placeholder'
+  | 'missing-element'
+  | 'duplicate-id'
+  | 'external-script'
+  | 'undefined-handler';
+
+/**
+ * A single template problem
+ */
+export interface TemplateIssue {
+  code: TemplateIssueCode;
+  message: string;
+  /** 1-based line in the template, when the issue points at markup */
+  line?: number;
+  /** Element ID the issue is about (missing-element, duplicate-id) */
+  elementId?: string;
+}
+
+/**
+ * Result of validatePaywallTemplate. Errors break the page; warnings degrade it.
+ */
+export interface TemplateValidationResult {
+  valid: boolean;
+  errors: TemplateIssue[];
+  warnings: TemplateIssue[];
+}
+
+/**
+ * Options for validatePaywallTemplate
+ */
+export interface TemplateValidationOptions {
+  /** Wallet family the template's runtime is built for. Default: 'evm' */
+  family?: PaywallFamily;
+}
+
+/**
+ * Element IDs the runtime writes to without null checks
+ */
+const REQUIRED_ELEMENT_IDS: Record<PaywallFamily, string[]> = {
+  evm: [
+    'state-connect',
+    'state-connected',
+    'state-processing',
+    'state-success',
+    'state-error',
+    'btn-pay',
+    'btn-metamask-text',
+    'connected-address',
+    'processing-text',
+    'error-message',
+  ],
+  svm: [
+    'state-connect',
+    'state-connected',
+    'state-processing',
+    'state-success',
+    'state-error',
+    'btn-pay',
+    'connected-address',
+    'processing-text',
+    'error-message',
+  ],
+};
+
+/**
+ * Element IDs the runtime updates when present (amounts, network, balances,
+ * screen reader announcements)
+ */
+const RECOMMENDED_ELEMENT_IDS = [
+  'price-display-amount',
+  'btn-pay-amount',
+  'chain-name-display',
+  'chain-indicator',
+  'balance-container',
+  'success-message',
+  'x402-status',
+  'x402-alert',
+];
+
+/**
+ * Browser globals handlers may call without the template defining them
+ */
+const BROWSER_GLOBALS = new Set([
+  'alert',
+  'confirm',
+  'prompt',
+  'open',
+  'close',
+  'print',
+  'fetch',
+  'setTimeout',
+  'clearTimeout',
+  'setInterval',
+  'clearInterval',
+  'encodeURIComponent',
+  'decodeURIComponent',
+  'parseInt',
+  'parseFloat',
+  'Number',
+  'String',
+  'Boolean',
+  'if',
+  'return',
+  'function',
+  'typeof',
+  'void',
+]);
+
+/**
+ * 1-based line number of a character offset
+ */
+function lineAt(html: string, index: number): number {
+  return html.slice(0, index).split('\n').length;
+}
+
+/**
+ * Blank out a matched region, keeping its newlines so line numbers still line up
+ */
+function blank(match: string): string {
+  return match.replace(/[^\n]/g, ' ');
+}
+
+/**
+ * Top-level names the template's inline scripts define (function
+ * declarations, variables and window properties)
+ */
+function getDefinedNames(scripts: string[]): Set<string> {
+  const names = new Set<string>();
+  const patterns = [
+    /\bfunction\s+([A-Za-z_$][\w$]*)\s*\(/g,
+    /\b(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*=/g,
+    /\bwindow\.([A-Za-z_$][\w$]*)\s*=/g,
+  ];
+  for (const code of scripts) {
+    for (const pattern of patterns) {
+      for (const match of code.matchAll(pattern)) {
+        names.add(match[1]!);
+      }
+    }
+  }
+  return names;
+}
+
+/**
+ * Check a custom paywall template for problems that would break it at runtime:
+ * a missing `{{payment-config}}` meta placeholder, missing or duplicate
+ * element IDs, external scripts, and inline handlers or `data-x402-action`
+ * buttons calling functions the template never defines.
+ *
+ * @example
+ * ```typescript
+ * const { valid, errors, warnings } = validatePaywallTemplate(customHtml);
+ * if (!valid) {
+ *   throw new Error(errors.map((e) => e.message).join('\n'));
+ * }
+ * ```
+ */
+export function validatePaywallTemplate(
+  html: string,
+  options: TemplateValidationOptions = {},
+): TemplateValidationResult {
+  const family = options.family ?? 'evm';
+  const errors: TemplateIssue[] = [];
+  const warnings: TemplateIssue[] = [];
+
+  // Comments never render, and script bodies are code rather than markup
+  const source = html.replace(/<!--[\s\S]*?-->/g, blank);
+  const inlineScripts: string[] = [];
+  const markup = source.replace(
+    /<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi,
+    (match, attributes: string, code: string, index: number) => {
+      const src = attributes.match(/\bsrc\s*=\s*["']([^"']*)["']/i)?.[1];
+      if (src !== undefined) {
+        if (!/\bintegrity\s*=/i.test(attributes)) {
+          warnings.push({
+            code: 'external-script',
+            message: `External script ${src} has no integrity hash and runs with full access to the page`,
+            line: lineAt(html, index),
+          });
+        }
+      } else {
+        inlineScripts.push(code);
+      }
+      return blank(match);
+    },
+  );
+
+  // Config placeholder in the meta tag
+  const metaName = new RegExp(
+    `\\sname\\s*=\\s*["']${PAYWALL_CONFIG_META_NAME}["']`,
+    'i',
+  );
+  const hasPlaceholder = [...markup.matchAll(/<meta\b[^>]*>/gi)].some(
+    ([tag]) => metaName.test(tag) && tag.includes(PAYWALL_CONFIG_PLACEHOLDER),
+  );
+  if (!hasPlaceholder) {
+    errors.push({
+      code: 'missing-config-placeholder',
+      message: `Missing <meta name="${PAYWALL_CONFIG_META_NAME}" content="${PAYWALL_CONFIG_PLACEHOLDER}">; the page will not receive its payment config`,
+    });
+  }
+
+  // Element IDs
+  const idLines = new Map<string, number[]>();
+  for (const match of markup.matchAll(/\sid\s*=\s*["']([^"']+)["']/gi)) {
+    const lines = idLines.get(match[1]!) ?? [];
+    lines.push(lineAt(html, match.index!));
+    idLines.set(match[1]!, lines);
+  }
+  for (const [elementId, lines] of idLines) {
+    if (lines.length > 1) {
+      errors.push({
+        code: 'duplicate-id',
+        message: `Duplicate id "${elementId}" (lines ${lines.join(', ')})`,
+        line: lines[1],
+        elementId,
+      });
+    }
+  }
+  for (const elementId of REQUIRED_ELEMENT_IDS[family]) {
+    if (!idLines.has(elementId)) {
+      errors.push({
+        code: 'missing-element',
+        message: `Missing required element #${elementId}`,
+        elementId,
+      });
+    }
+  }
+  for (const elementId of RECOMMENDED_ELEMENT_IDS) {
+    if (!idLines.has(elementId)) {
+      warnings.push({
+        code: 'missing-element',
+        message: `Missing element #${elementId}; the runtime will skip updating it`,
+        elementId,
+      });
+    }
+  }
+
+  // Inline handlers and data-x402-action buttons
+  const defined = getDefinedNames(inlineScripts);
+  const reportUndefined = (name: string, index: number, via: string) => {
+    if (defined.has(name) || BROWSER_GLOBALS.has(name)) return;
+    errors.push({
+      code: 'undefined-handler',
+      message: `${via} calls ${name}(), which no inline script defines`,
+      line: lineAt(html, index),
+    });
+  };
+  for (const match of markup.matchAll(
+    /\s(on[a-z]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/gi,
+  )) {
+    const code = match[2] ?? match[3] ?? '';
+    for (const call of code.matchAll(/(?:^|[^.\w$])([A-Za-z_$][\w$]*)\s*\(/g)) {
+      reportUndefined(call[1]!, match.index!, match[1]!);
+    }
+  }
+  for (const match of markup.matchAll(
+    /\sdata-x402-action\s*=\s*["']([^"']+)["']/gi,
+  )) {
+    reportUndefined(match[1]!, match.index!, 'data-x402-action');
+  }
+
+  return { valid: errors.length === 0, errors, warnings };
+}
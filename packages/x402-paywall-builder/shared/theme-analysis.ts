@@ -0,0 +1,546 @@
+/**
+ * WCAG contrast analysis for paywall themes
+ *
+ * Parses the CSS color formats themes use (hex, rgb(), hsl(), oklch() and
+ * gradients of them), checks the text/background pairs the paywall renders
+ * against the WCAG 2.x contrast minimums, and suggests lightness adjustments
+ * that make a theme pass.
+ */
+
+import type { ThemeConfig } from './types';
+import { NAMEFI_THEME } from './constants';
+import { hasGradientBackground } from './styles';
+
+/**
+ * sRGB color with channels and alpha in 0..1
+ */
+export interface RgbaColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+/**
+ * Theme properties holding colors
+ */
+export type ThemeColorKey = Exclude<keyof ThemeConfig, 'borderRadius'>;
+
+/**
+ * Highest WCAG level a color pair meets
+ */
+export type WcagLevel = 'AAA' | 'AA' | 'fail';
+
+/**
+ * Contrast of one text/background pair the paywall renders
+ */
+export interface ThemeContrastCheck {
+  /** Text color: a theme property, or 'white' for button labels */
+  foreground: ThemeColorKey | 'white';
+  background: ThemeColorKey;
+  /** Where the pair appears on the page */
+  usage: string;
+  /** Lowest ratio across gradient stops, or null if a color is invalid */
+  ratio: number | null;
+  level: WcagLevel;
+}
+
+/**
+ * Kinds of theme problems
+ */
+export type ThemeIssueCode =
+  | 'invalid-color'
+  | 'contrast-aa'
+  | 'contrast-aaa'
+  | 'low-visibility-border';
+
+/**
+ * A single theme problem. AA failures and invalid colors are errors.
+ */
+export interface ThemeIssue {
+  code: ThemeIssueCode;
+  severity: 'error' | 'warning';
+  property: ThemeColorKey;
+  message: string;
+}
+
+/**
+ * Result of analyzeTheme
+ */
+export interface ThemeAnalysis {
+  /** Every color property parses */
+  valid: boolean;
+  /** Every pair meets WCAG AA */
+  passesAA: boolean;
+  /** Every pair meets WCAG AAA */
+  passesAAA: boolean;
+  checks: ThemeContrastCheck[];
+  issues: ThemeIssue[];
+}
+
+/**
+ * WCAG 2.x minimum contrast ratios for normal-size text
+ */
+const WCAG_CONTRAST_MINIMUMS = { AA: 4.5, AAA: 7 } as const;
+
+/**
+ * Below this ratio against the card, borders are effectively invisible
+ */
+const MIN_BORDER_CONTRAST = 1.1;
+
+const THEME_COLOR_KEYS: ThemeColorKey[] = [
+  'background',
+  'card',
+  'foreground',
+  'muted',
+  'brandPrimary',
+  'brandPrimaryHover',
+  'destructive',
+  'border',
+];
+
+/**
+ * Pairs the paywall renders. `adjust` is the side suggestAccessibleTheme
+ * changes: the text color, or the button color under white labels.
+ */
+const CONTRAST_PAIRS: Array<{
+  foreground: ThemeColorKey | 'white';
+  background: ThemeColorKey;
+  usage: string;
+  adjust: ThemeColorKey;
+}> = [
+  { foreground: 'foreground', background: 'card', usage: 'Headings and amounts', adjust: 'foreground' },
+  { foreground: 'muted', background: 'card', usage: 'Descriptions and labels', adjust: 'muted' },
+  { foreground: 'muted', background: 'background', usage: 'Footer text', adjust: 'muted' },
+  { foreground: 'destructive', background: 'card', usage: 'Error messages', adjust: 'destructive' },
+  { foreground: 'white', background: 'brandPrimary', usage: 'Pay button label', adjust: 'brandPrimary' },
+  { foreground: 'white', background: 'brandPrimaryHover', usage: 'Pay button label (hover)', adjust: 'brandPrimaryHover' },
+];
+
+const WHITE: RgbaColor = { r: 1, g: 1, b: 1, a: 1 };
+
+const NAMED_COLORS: Record<string, RgbaColor> = {
+  transparent: { r: 0, g: 0, b: 0, a: 0 },
+  white: WHITE,
+  black: { r: 0, g: 0, b: 0, a: 1 },
+};
+
+const clamp = (value: number, min = 0, max = 1) =>
+  Math.min(max, Math.max(min, value));
+
+/**
+ * Parse a number or percentage; `percentScale` is the value of 100%
+ */
+function parseChannel(token: string | undefined, percentScale: number): number {
+  if (token === undefined) return NaN;
+  if (token === 'none') return 0;
+  return token.endsWith('%')
+    ? (Number(token.slice(0, -1)) / 100) * percentScale
+    : Number(token);
+}
+
+function parseAlpha(token: string | undefined): number {
+  return token === undefined ? 1 : clamp(parseChannel(token, 1));
+}
+
+function parseHue(token: string | undefined): number {
+  return parseChannel(token?.replace(/deg$/, ''), NaN);
+}
+
+function parseHex(hex: string): RgbaColor | null {
+  if (!/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.test(hex)) return null;
+  const digits =
+    hex.length <= 5
+      ? [...hex.slice(1)].map((digit) => digit + digit)
+      : hex.slice(1).match(/../g)!;
+  const [r, g, b, a = 'ff'] = digits;
+  return {
+    r: parseInt(r!, 16) / 255,
+    g: parseInt(g!, 16) / 255,
+    b: parseInt(b!, 16) / 255,
+    a: parseInt(a, 16) / 255,
+  };
+}
+
+function hslToRgb(h: number, s: number, l: number, a: number): RgbaColor {
+  const k = (n: number) => (n + h / 30) % 12;
+  const chroma = s * Math.min(l, 1 - l);
+  const f = (n: number) =>
+    l - chroma * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1));
+  return { r: f(0), g: f(8), b: f(4), a };
+}
+
+const srgbToLinear = (c: number) =>
+  c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+
+const linearToSrgb = (c: number) =>
+  c <= 0.0031308 ? 12.92 * c : 1.055 * c ** (1 / 2.4) - 0.055;
+
+/**
+ * OKLCH to sRGB, clipping out-of-gamut channels
+ */
+function oklchToRgb(l: number, c: number, h: number, a: number): RgbaColor {
+  const hue = (h * Math.PI) / 180;
+  const labA = c * Math.cos(hue);
+  const labB = c * Math.sin(hue);
+  const lms = [
+    (l + 0.3963377774 * labA + 0.2158037573 * labB) ** 3,
+    (l - 0.1055613458 * labA - 0.0638541728 * labB) ** 3,
+    (l - 0.0894841775 * labA - 1.291485548 * labB) ** 3,
+  ] as const;
+  const [lc, mc, sc] = lms;
+  return {
+    r: clamp(linearToSrgb(4.0767416621 * lc - 3.3077115913 * mc + 0.2309699292 * sc)),
+    g: clamp(linearToSrgb(-1.2684380046 * lc + 2.6097574011 * mc - 0.3413193965 * sc)),
+    b: clamp(linearToSrgb(-0.0041960863 * lc - 0.7034186147 * mc + 1.707614701 * sc)),
+    a,
+  };
+}
+
+/**
+ * sRGB to OKLCH (lightness 0-1, chroma, hue in degrees)
+ */
+export function rgbToOklch(color: RgbaColor): { l: number; c: number; h: number } {
+  const r = srgbToLinear(color.r);
+  const g = srgbToLinear(color.g);
+  const b = srgbToLinear(color.b);
+  const lc = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const mc = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const sc = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+  const l = 0.2104542553 * lc + 0.793617785 * mc - 0.0040720468 * sc;
+  const labA = 1.9779984951 * lc - 2.428592205 * mc + 0.4505937099 * sc;
+  const labB = 0.0259040371 * lc + 0.7827717662 * mc - 0.808675766 * sc;
+  const c = Math.hypot(labA, labB);
+  const h = c < 1e-4 ? 0 : ((Math.atan2(labB, labA) * 180) / Math.PI + 360) % 360;
+  return { l, c, h };
+}
+
+/**
+ * Parse a CSS color: hex, rgb()/rgba(), hsl()/hsla(), oklch(), or
+ * transparent/white/black. Returns null for anything else.
+ */
+export function parseCssColor(value: string): RgbaColor | null {
+  const color = value.trim().toLowerCase();
+  const named = NAMED_COLORS[color];
+  if (named) return { ...named };
+  if (color.startsWith('#')) return parseHex(color);
+
+  const fn = color.match(/^(rgba?|hsla?|oklch)\(([^()]*)\)$/);
+  if (!fn) return null;
+  const args = fn[2]!.split(/\s*[,/]\s*|\s+/).filter(Boolean);
+  if (args.length < 3 || args.length > 4) return null;
+
+  let parsed: RgbaColor;
+  switch (fn[1]) {
+    case 'rgb':
+    case 'rgba':
+      parsed = {
+        r: parseChannel(args[0], 255) / 255,
+        g: parseChannel(args[1], 255) / 255,
+        b: parseChannel(args[2], 255) / 255,
+        a: parseAlpha(args[3]),
+      };
+      break;
+    case 'hsl':
+    case 'hsla': {
+      const h = parseHue(args[0]);
+      const s = parseChannel(args[1], 1);
+      const l = parseChannel(args[2], 1);
+      if (![h, s, l].every(Number.isFinite)) return null;
+      parsed = hslToRgb(((h % 360) + 360) % 360, clamp(s), clamp(l), parseAlpha(args[3]));
+      break;
+    }
+    default: {
+      // oklch: 100% lightness is 1, 100% chroma is 0.4
+      const l = parseChannel(args[0], 1);
+      const c = parseChannel(args[1], 0.4);
+      const h = parseHue(args[2]);
+      if (![l, c, h].every(Number.isFinite)) return null;
+      parsed = oklchToRgb(clamp(l), Math.max(0, c), h, parseAlpha(args[3]));
+    }
+  }
+
+  const channels = [parsed.r, parsed.g, parsed.b, parsed.a];
+  if (!channels.every(Number.isFinite)) return null;
+  return {
+    r: clamp(parsed.r),
+    g: clamp(parsed.g),
+    b: clamp(parsed.b),
+    a: clamp(parsed.a),
+  };
+}
+
+/**
+ * Colors of a theme value: one color, or every stop of a gradient.
+ * Null if any part fails to parse.
+ */
+function parseThemeColors(value: string | undefined): RgbaColor[] | null {
+  if (!value) return null;
+  if (!hasGradientBackground(value)) {
+    const color = parseCssColor(value);
+    return color ? [color] : null;
+  }
+  const stops =
+    value.match(
+      /#[0-9a-f]{3,8}\b|(?:rgba?|hsla?|oklch)\([^()]*\)|\b(?:transparent|white|black)\b/gi,
+    ) ?? [];
+  const colors = stops.map(parseCssColor);
+  return colors.length > 0 && colors.every((color) => color !== null)
+    ? (colors as RgbaColor[])
+    : null;
+}
+
+/**
+ * Paint `top` over `bottom` (source-over, in sRGB like browsers do)
+ */
+function composite(top: RgbaColor, bottom: RgbaColor): RgbaColor {
+  const a = top.a + bottom.a * (1 - top.a);
+  if (a === 0) return { r: 0, g: 0, b: 0, a: 0 };
+  const mix = (t: number, b: number) =>
+    (t * top.a + b * bottom.a * (1 - top.a)) / a;
+  return { r: mix(top.r, bottom.r), g: mix(top.g, bottom.g), b: mix(top.b, bottom.b), a };
+}
+
+function getRelativeLuminance(color: RgbaColor): number {
+  return (
+    0.2126 * srgbToLinear(color.r) +
+    0.7152 * srgbToLinear(color.g) +
+    0.0722 * srgbToLinear(color.b)
+  );
+}
+
+/**
+ * WCAG contrast ratio (1-21) of a foreground color painted over a background.
+ * Translucent backgrounds are composited over white.
+ */
+export function getContrastRatio(
+  foreground: RgbaColor,
+  background: RgbaColor,
+): number {
+  const surface = composite(background, WHITE);
+  const text = composite(foreground, surface);
+  const l1 = getRelativeLuminance(text);
+  const l2 = getRelativeLuminance(surface);
+  return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+}
+
+/**
+ * Opaque colors a theme property is seen as: the page background over white,
+ * the card over the page background, everything else over the card
+ */
+function getSurfaces(theme: ThemeConfig, key: ThemeColorKey): RgbaColor[] | null {
+  const colors = parseThemeColors(theme[key]);
+  if (!colors) return null;
+  if (key === 'background') return colors.map((color) => composite(color, WHITE));
+
+  const below = getSurfaces(theme, key === 'card' ? 'background' : 'card');
+  if (!below) return null;
+  return below.flatMap((surface) => colors.map((color) => composite(color, surface)));
+}
+
+/**
+ * Lowest contrast of a pair across all gradient stops
+ */
+function getPairRatio(
+  theme: ThemeConfig,
+  pair: (typeof CONTRAST_PAIRS)[number],
+): number | null {
+  const surfaces = getSurfaces(theme, pair.background);
+  const text =
+    pair.foreground === 'white' ? [WHITE] : parseThemeColors(theme[pair.foreground]);
+  if (!surfaces || !text) return null;
+  return Math.min(
+    ...surfaces.flatMap((surface) =>
+      text.map((color) => getContrastRatio(color, surface)),
+    ),
+  );
+}
+
+function getLevel(ratio: number | null): WcagLevel {
+  if (ratio === null) return 'fail';
+  if (ratio >= WCAG_CONTRAST_MINIMUMS.AAA) return 'AAA';
+  if (ratio >= WCAG_CONTRAST_MINIMUMS.AA) return 'AA';
+  return 'fail';
+}
+
+/**
+ * Check a theme for invalid colors and text/background pairs that miss the
+ * WCAG AA (4.5:1) or AAA (7:1) contrast minimums. Gradient backgrounds are
+ * checked at every stop.
+ *
+ * @example
+ * ```typescript
+ * const { passesAA, issues } = analyzeTheme(THEME_PRESETS.Coinbase);
+ * issues.forEach((issue) => console.warn(issue.message));
+ * ```
+ */
+export function analyzeTheme(theme: ThemeConfig): ThemeAnalysis {
+  const issues: ThemeIssue[] = [];
+
+  for (const key of THEME_COLOR_KEYS) {
+    if (!parseThemeColors(theme[key])) {
+      issues.push({
+        code: 'invalid-color',
+        severity: 'error',
+        property: key,
+        message: `${key} is not a valid CSS color: ${JSON.stringify(theme[key])}`,
+      });
+    }
+  }
+
+  const checks = CONTRAST_PAIRS.map((pair): ThemeContrastCheck => {
+    const ratio = getPairRatio(theme, pair);
+    const level = getLevel(ratio);
+    if (ratio !== null && level !== 'AAA') {
+      const failsAA = level === 'fail';
+      issues.push({
+        code: failsAA ? 'contrast-aa' : 'contrast-aaa',
+        severity: failsAA ? 'error' : 'warning',
+        property: pair.adjust,
+        message: `${pair.usage} (${pair.foreground} on ${pair.background}) has contrast ${ratio.toFixed(2)}:1; WCAG ${failsAA ? 'AA' : 'AAA'} needs ${failsAA ? WCAG_CONTRAST_MINIMUMS.AA : WCAG_CONTRAST_MINIMUMS.AAA}:1`,
+      });
+    }
+    return {
+      foreground: pair.foreground,
+      background: pair.background,
+      usage: pair.usage,
+      ratio: ratio === null ? null : Math.round(ratio * 100) / 100,
+      level,
+    };
+  });
+
+  const borderRatio = getBorderRatio(theme);
+  if (borderRatio !== null && borderRatio < MIN_BORDER_CONTRAST) {
+    issues.push({
+      code: 'low-visibility-border',
+      severity: 'warning',
+      property: 'border',
+      message: `border is nearly invisible on the card (contrast ${borderRatio.toFixed(2)}:1)`,
+    });
+  }
+
+  return {
+    valid: !issues.some((issue) => issue.code === 'invalid-color'),
+    passesAA: checks.every((check) => check.level !== 'fail'),
+    passesAAA: checks.every((check) => check.level === 'AAA'),
+    checks,
+    issues,
+  };
+}
+
+/**
+ * Lowest contrast of the border (painted over the card) against the card
+ */
+function getBorderRatio(theme: ThemeConfig): number | null {
+  const cards = getSurfaces(theme, 'card');
+  const borders = parseThemeColors(theme.border);
+  if (!cards || !borders) return null;
+  return Math.min(
+    ...cards.flatMap((card) =>
+      borders.map((border) => getContrastRatio(composite(border, card), card)),
+    ),
+  );
+}
+
+/**
+ * CSS oklch() string, rounded for readability
+ */
+export function formatOklch(l: number, c: number, h: number, a = 1): string {
+  const round = (value: number, digits: number) =>
+    Number(value.toFixed(digits));
+  const alpha = a < 1 ? ` / ${round(a, 2)}` : '';
+  return `oklch(${round(l, 3)} ${round(c, 3)} ${round(h, 1)}${alpha})`;
+}
+
+/**
+ * Move a color's OKLCH lightness (keeping hue, easing chroma toward the
+ * extremes) until the pair meets `minimum`, taking the smaller change of
+ * lightening or darkening
+ */
+function adjustForContrast(
+  theme: ThemeConfig,
+  pair: (typeof CONTRAST_PAIRS)[number],
+  minimum: number,
+): string {
+  const base = parseCssColor(theme[pair.adjust]);
+  // Gradients are left for the author to fix
+  if (!base) return theme[pair.adjust];
+  const { l, c, h } = rgbToOklch(base);
+
+  const candidate = (target: number, t: number) => {
+    const lightness = l + (target - l) * t;
+    const chroma = c * (1 - t);
+    // Round away from the original so the rounded value still passes
+    const rounded =
+      target === 0
+        ? Math.floor(lightness * 1000) / 1000
+        : Math.ceil(lightness * 1000) / 1000;
+    return formatOklch(clamp(rounded), chroma, h, base.a);
+  };
+  const ratioWith = (value: string) =>
+    getPairRatio({ ...theme, [pair.adjust]: value }, pair) ?? 0;
+
+  const options = [0, 1].map((target) => {
+    if (ratioWith(candidate(target, 1)) < minimum) return null;
+    let low = 0;
+    let high = 1;
+    for (let i = 0; i < 24; i++) {
+      const mid = (low + high) / 2;
+      if (ratioWith(candidate(target, mid)) >= minimum) high = mid;
+      else low = mid;
+    }
+    return { value: candidate(target, high), change: Math.abs(target - l) * high };
+  });
+
+  const reachable = options.filter(
+    (option): option is { value: string; change: number } => option !== null,
+  );
+  if (reachable.length > 0) {
+    return reachable.sort((a, b) => a.change - b.change)[0]!.value;
+  }
+  // Unreachable (e.g. gradient stops on both sides): take the best extreme
+  const [darkest, lightest] = [candidate(0, 1), candidate(1, 1)];
+  return ratioWith(darkest) >= ratioWith(lightest) ? darkest : lightest;
+}
+
+/**
+ * Suggest an accessible version of a theme: invalid colors fall back to the
+ * default theme, and colors in failing pairs have their lightness adjusted
+ * (hue kept) until every pair meets `level`. Passing colors are unchanged.
+ *
+ * @example
+ * ```typescript
+ * const theme = suggestAccessibleTheme(customTheme); // AA
+ * analyzeTheme(theme).passesAA; // true
+ * ```
+ */
+export function suggestAccessibleTheme(
+  theme: ThemeConfig,
+  level: 'AA' | 'AAA' = 'AA',
+): ThemeConfig {
+  const minimum = WCAG_CONTRAST_MINIMUMS[level];
+  const suggested: ThemeConfig = { ...theme };
+
+  for (const key of THEME_COLOR_KEYS) {
+    if (!parseThemeColors(suggested[key])) {
+      suggested[key] = NAMEFI_THEME[key];
+    }
+  }
+
+  for (const pair of CONTRAST_PAIRS) {
+    const ratio = getPairRatio(suggested, pair);
+    if (ratio !== null && ratio < minimum) {
+      suggested[pair.adjust] = adjustForContrast(suggested, pair, minimum);
+    }
+  }
+
+  // Make an invisible border a faint tint of the text color instead
+  const borderRatio = getBorderRatio(suggested);
+  const text = parseCssColor(suggested.foreground);
+  if (borderRatio !== null && borderRatio < MIN_BORDER_CONTRAST && text) {
+    const channel = (value: number) => Math.round(value * 255);
+    suggested.border = `rgba(${channel(text.r)},${channel(text.g)},${channel(text.b)},0.15)`;
+  }
+
+  return suggested;
+}
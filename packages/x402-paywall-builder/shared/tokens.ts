@@ -0,0 +1,104 @@
+/**
+ * Token helpers for x402 paywall system
+ *
+ * Resolves the payment asset from a PaymentRequirement into a TokenConfig and
+ * converts between whole and atomic amounts for any number of decimals.
+ */
+
+import type { ChainConfig, PaymentRequirement, TokenConfig } from './types';
+import { DEFAULT_LOCALE, USDC_DECIMALS, USDC_SYMBOL } from './constants';
+
+/**
+ * USDC token descriptor for a chain
+ */
+export function getUsdcToken(chain: ChainConfig): TokenConfig {
+  return {
+    address: chain.usdcAddress,
+    symbol: USDC_SYMBOL,
+    decimals: USDC_DECIMALS,
+    eip712Name: USDC_SYMBOL,
+    eip712Version: '2',
+  };
+}
+
+/**
+ * Resolve the token descriptor for a payment requirement.
+ *
+ * `asset` gives the contract address (or SPL mint) and `extra` the symbol,
+ * decimals and EIP-712 domain. Missing values default to the chain's USDC.
+ */
+export function resolveRequirementToken(
+  requirement: PaymentRequirement,
+  chain: Pick<ChainConfig, 'usdcAddress'>,
+): TokenConfig {
+  const address = requirement.asset || chain.usdcAddress;
+  const isUsdc = address.toLowerCase() === chain.usdcAddress.toLowerCase();
+
+  return {
+    address,
+    symbol:
+      requirement.extra?.symbol ||
+      (isUsdc ? USDC_SYMBOL : requirement.extra?.name || 'tokens'),
+    decimals: requirement.extra?.decimals ?? USDC_DECIMALS,
+    eip712Name: requirement.extra?.name,
+    eip712Version: requirement.extra?.version,
+  };
+}
+
+/**
+ * Convert an atomic amount (e.g. '500000') to whole units (e.g. 0.5)
+ */
+export function fromAtomicAmount(
+  atomicAmount: string,
+  decimals: number = USDC_DECIMALS,
+): number {
+  return Number.parseFloat(atomicAmount || '0') / 10 ** decimals;
+}
+
+/**
+ * Convert a whole amount (e.g. 0.5) to an atomic amount string (e.g. '500000').
+ *
+ * Works on the shortest decimal form of the number (what `String(amount)`
+ * prints) rather than multiplying floats, so 0.1 of an 18-decimal token is
+ * exactly 10^17 and large amounts do not fall into exponent notation. Digits
+ * beyond `decimals` are rounded half up. Throws for negative or non-finite
+ * amounts.
+ */
+export function toAtomicAmount(
+  amount: number,
+  decimals: number = USDC_DECIMALS,
+): string {
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw new Error(`Invalid token amount: ${amount}`);
+  }
+
+  // Split e.g. '1.5e-7' into its digits ('15') and the exponent of the last one (-8)
+  const [mantissa = '0', exponentPart = '0'] = String(amount).split('e');
+  const [whole = '0', fraction = ''] = mantissa.split('.');
+  const digits = BigInt(whole + fraction);
+  const exponent = Number(exponentPart) - fraction.length + decimals;
+
+  if (exponent >= 0) {
+    return (digits * 10n ** BigInt(exponent)).toString();
+  }
+  const divisor = 10n ** BigInt(-exponent);
+  const atomic = digits / divisor;
+  return (digits % divisor >= divisor / 2n ? atomic + 1n : atomic).toString();
+}
+
+/**
+ * Format a whole amount for display in a locale, handling sub-cent values
+ * - Values >= 0.01: show 2 decimal places (e.g., "1.50", "1,50" in pt-BR)
+ * - Values < 0.01: show up to min(decimals, 8) places, trimming trailing zeros (e.g., "0.0025")
+ */
+export function formatTokenAmount(
+  amount: number,
+  decimals: number = USDC_DECIMALS,
+  locale: string = DEFAULT_LOCALE,
+): string {
+  const subCent = amount < 0.01;
+  return new Intl.NumberFormat(locale, {
+    minimumFractionDigits: subCent ? 0 : 2,
+    maximumFractionDigits: subCent ? Math.min(decimals, 8) : 2,
+  }).format(amount);
+}
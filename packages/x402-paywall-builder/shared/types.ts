@@ -2,6 +2,8 @@
  * Shared TypeScript interfaces for x402 paywall system
  */
 
+import type { PaywallMessages } from './locales/en';
+
 /**
  * Theme configuration for paywall UI
  */
@@ -17,6 +19,33 @@ export interface ThemeConfig {
   borderRadius?: string;
 }
 
+/**
+ * Paired light and dark palettes for one paywall
+ */
+export interface ThemeVariants {
+  light: ThemeConfig;
+  dark: ThemeConfig;
+}
+
+/**
+ * Palette of a ThemeVariants to show. 'auto' follows `prefers-color-scheme`
+ */
+export type ColorScheme = 'light' | 'dark' | 'auto';
+
+/**
+ * Inputs for createThemeFromBrand
+ */
+export interface BrandThemeOptions {
+  /** Brand color (hex, rgb(), hsl() or oklch()) */
+  primary: string;
+  /** Light or dark surfaces. Default: 'light' */
+  mode?: 'light' | 'dark';
+  /** Border radius. Default: '1.25rem' */
+  radius?: string;
+  /** Page background override (e.g. a gradient). Text colors are checked against it */
+  background?: string;
+}
+
 /**
  * Branding configuration for paywall UI
  */
@@ -25,6 +54,15 @@ export interface BrandingConfig {
   appLogo: string;
 }
 
+/**
+ * Native currency of an EVM chain (used for wallet_addEthereumChain and viem)
+ */
+export interface NativeCurrency {
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
 /**
  * Chain configuration for EVM networks
  */
@@ -34,6 +72,46 @@ export interface ChainConfig {
   usdcAddress: string;
   rpcUrl: string;
   blockExplorer: string;
+  /** Whether this is a test network */
+  testnet?: boolean;
+  /** Native gas currency. Default: ETH with 18 decimals */
+  nativeCurrency?: NativeCurrency;
+}
+
+/**
+ * Cluster configuration for Solana networks
+ */
+export interface SolanaClusterConfig {
+  name: string;
+  /** SPL USDC mint address */
+  usdcMint: string;
+  rpcUrl: string;
+  blockExplorer: string;
+  /** Whether this is a test cluster */
+  testnet?: boolean;
+}
+
+/**
+ * Wallet family a paywall page is built for
+ * - 'evm': injected EIP-1193 wallets and WalletConnect, EIP-3009 signatures
+ * - 'svm': Phantom and Solflare, partially signed SPL transfer transactions
+ */
+export type PaywallFamily = 'evm' | 'svm';
+
+/**
+ * Token descriptor for the payment asset (EIP-3009 compatible ERC-20)
+ */
+export interface TokenConfig {
+  /** Token contract address */
+  address: string;
+  /** Display symbol (e.g. 'USDC', 'EURC') */
+  symbol: string;
+  /** Token decimals (6 for USDC, 18 for most ERC-20s) */
+  decimals: number;
+  /** EIP-712 domain name (from PaymentRequirement.extra.name) */
+  eip712Name?: string;
+  /** EIP-712 domain version (from PaymentRequirement.extra.version) */
+  eip712Version?: string;
 }
 
 /**
@@ -41,15 +119,22 @@ export interface ChainConfig {
  */
 export interface BasePaywallConfig {
   // Payment details
+  /** Amount in whole token units (e.g. 0.5 for 0.50 USDC) */
   amount: number;
   amountInAtomicUnits: string;
   payTo: string;
+  /** Payment token. Defaults to USDC (6 decimals) at usdcAddress */
+  token?: TokenConfig;
 
   // Network details
+  /** Wallet family the page targets. Default: 'evm' */
+  family?: PaywallFamily;
   network: string;
+  /** EVM chain ID (0 for Solana) */
   chainId: number;
   chainIdHex: string;
   chainName: string;
+  /** The chain's USDC contract address or SPL mint (used when no token is given) */
   usdcAddress: string;
   rpcUrl: string;
   blockExplorer: string;
@@ -63,7 +148,11 @@ export interface BasePaywallConfig {
   walletConnectProjectId?: string;
 
   // Customization (defaults to Namefi)
-  theme?: ThemeConfig;
+  theme?: ThemeConfig | ThemeVariants;
+  /** Palette shown when theme has light and dark variants. Default: 'auto' */
+  colorScheme?: ColorScheme;
+  /** Show a light/dark toggle (theme variants only); the choice is remembered */
+  colorSchemeToggle?: boolean;
   branding?: BrandingConfig;
 }
 
@@ -95,6 +184,62 @@ export interface RedirectOptions {
   successRedirectBtnLabel?: string;
 }
 
+/**
+ * Request that hit the paywall, replayed by the page once paid.
+ * Built by capturePaywallRequest (see ./request-stash).
+ */
+export interface PaywallReplayRequest {
+  /** Original HTTP method */
+  method: string;
+  /** Safe subset of the original headers */
+  headers: Record<string, string>;
+  /** ID of the stashed body, sent back in X-PAYWALL-REQUEST-ID */
+  requestId?: string;
+  /** Seconds the stashed body is kept; the page refreshes before it lapses */
+  ttlSeconds?: number;
+}
+
+/**
+ * "Get USDC" links shown when the wallet cannot cover the selected payment
+ * option. `{address}` and `{network}` in a URL are replaced with the buyer's
+ * address and the option's CAIP-2 network.
+ */
+export interface FundingLinks {
+  /** Buy the token, e.g. an onramp widget URL */
+  onramp?: string;
+  /** Move the token from another chain */
+  bridge?: string;
+  /**
+   * Faucet shown for testnet options. Default: Circle's faucet for USDC;
+   * false hides it
+   */
+  faucet?: string | false;
+}
+
+/**
+ * How the page keeps access tokens from paid responses (`accessToken` in a
+ * JSON body) to skip the paywall on later visits
+ */
+export interface AccessTokenStorage {
+  /**
+   * Where tokens are kept: 'session' (sessionStorage, until the tab closes;
+   * the default), 'local' (localStorage, across visits) or 'none' (not kept).
+   * Any script on the page's origin can read either storage, so use 'local'
+   * only on an origin that serves a single seller
+   */
+  storage?: 'local' | 'session' | 'none';
+  /** Request header carrying the token. Default: 'Authorization', as `Bearer <token>` */
+  header?: string;
+  /** Longest time to keep a token in seconds. Default: until the token's `exp` */
+  maxAgeSeconds?: number;
+  /**
+   * The page's origin serves several sellers' pages (e.g. a multi-tenant
+   * proxy). Tokens are then never kept, whatever `storage` says, since
+   * another seller's page could read them
+   */
+  sharedOrigin?: boolean;
+}
+
 /**
  * Preview mode configuration for studio/demo
  */
@@ -112,6 +257,39 @@ export interface PreviewConfig {
   showPreviewControls?: boolean;
 }
 
+/**
+ * Precompiled asset inlined into self-contained paywall pages
+ */
+export interface InlineAsset {
+  /** Minified source, escaped for use inside <style>/<script> */
+  code: string;
+  /** File holding the same code under the package's dist/ directory */
+  file: string;
+  /** Subresource Integrity hash of `code` (sha384) */
+  integrity: string;
+  /** Size in bytes */
+  bytes: number;
+  /** Gzipped size in bytes */
+  gzipBytes: number;
+}
+
+/**
+ * Size report for the assets inlined into a self-contained paywall page
+ */
+export interface InlineAssetSizeReport {
+  assets: Array<{ name: string; bytes: number; gzipBytes: number }>;
+  totalBytes: number;
+  totalGzipBytes: number;
+}
+
+/**
+ * Paywall page plus the Content-Security-Policy header recommended for it
+ */
+export interface PaywallDocument {
+  html: string;
+  contentSecurityPolicy: string;
+}
+
 /**
  * Generic resource paywall configuration
  */
@@ -122,11 +300,103 @@ export interface GenericPaywallConfig extends BasePaywallConfig {
   successRedirectDelaySeconds?: number;
   autoSuccessRedirect?: boolean;
   successRedirectBtnLabel?: string;
+  /**
+   * How to show a paid response that is not JSON. 'inline' (default) renders
+   * images, PDFs, HTML and text in the success state and downloads anything
+   * else; 'navigate' opens images, audio, video, PDFs and plain text in
+   * place of the page. HTML, SVG and XML still render inline (sandboxed):
+   * opened from a blob: URL they would run at the paywall page's origin
+   */
+  successResponseDisplay?: 'inline' | 'navigate';
+  /** Original request to replay once paid. Default: GET without a body */
+  replayRequest?: PaywallReplayRequest;
+  /**
+   * When the payment requirements were issued, in milliseconds since the
+   * epoch (server clock). The price countdown starts from it. Default: when
+   * the page is generated; set it when populating an exported template
+   */
+  issuedAt?: number;
+  /** Funding links for buyers whose balance is too low */
+  fundingLinks?: FundingLinks;
+  /** Where issued access tokens are kept and the header they are sent in */
+  accessTokenStorage?: AccessTokenStorage;
+  /**
+   * Endpoint returning `{ factory, factoryData }` for a smart wallet that is
+   * not deployed yet (see fetchSmartWalletDeployment). Without it, such
+   * wallets can only pay if they sign ERC-6492 themselves
+   */
+  smartWalletDeploymentUrl?: string;
   /** Chain configurations for balance checking */
   chainConfigs?: Record<string, ChainConfig>;
+  /** Solana cluster configurations for balance checking (family 'svm') */
+  solanaClusters?: Record<string, SolanaClusterConfig>;
   /** Preview mode configuration for studio/demo */
   preview?: PreviewConfig;
   forExport?: boolean;
+  /**
+   * Inline the CSS and wallet runtime, and leave out Google Fonts and
+   * WalletConnect: no third-party requests
+   */
+  selfContained?: boolean;
+  /**
+   * URL of a directory serving the package's dist/ files, to host the CSS
+   * and runtime yourself. Default: this package version on jsDelivr
+   */
+  assetBaseUrl?: string;
+  /** Nonce for a nonce-based Content-Security-Policy (new value per response) */
+  cspNonce?: string;
+  /** Origins allowed to embed the page and receive its lifecycle events via postMessage */
+  parentOrigins?: string[];
+  /** Render only the card, sized to its content, for inline frames */
+  embedded?: boolean;
+  /** Locale for UI strings and number formatting (e.g. 'es', 'pt-BR'). Default: 'en' */
+  locale?: string;
+  /** Replace sections of the default layout (header, price panel, footer, ...) */
+  sections?: PaywallSections;
+}
+
+/**
+ * Generic paywall config with defaults applied, as passed to section functions
+ */
+export interface ResolvedPaywallConfig extends GenericPaywallConfig {
+  theme: ThemeConfig | ThemeVariants;
+  branding: BrandingConfig;
+  locale: string;
+  /** Message pack for `locale` */
+  messages: PaywallMessages;
+  /** Amount formatted for `locale` */
+  formattedAmount: string;
+  tokenSymbol: string;
+  successRedirectDelaySeconds: number;
+  autoSuccessRedirect: boolean;
+  successRedirectBtnLabel: string;
+}
+
+/**
+ * Section override: static HTML, or a function building it from the resolved
+ * config. The HTML is inserted as-is (escape untrusted values with escapeHtml).
+ */
+export type PaywallSection =
+  | string
+  | ((config: ResolvedPaywallConfig) => string);
+
+/**
+ * Overridable sections of the generic paywall layout. Omitted sections keep
+ * the default markup; an empty string removes a section.
+ */
+export interface PaywallSections {
+  /** Logo area above the header (default: `branding.appLogo`) */
+  logo?: PaywallSection;
+  /** Title and resource description */
+  header?: PaywallSection;
+  /** Price panel. Keep `#price-display-amount` and `#chain-name-display` for header-config updates, and `#price-expiry` for the price countdown */
+  priceDisplay?: PaywallSection;
+  /** Extra content shown above the connect buttons until a wallet connects (terms, feature list) */
+  beforeConnect?: PaywallSection;
+  /** Success state content. The default response viewer, access token and redirect button live here */
+  successContent?: PaywallSection;
+  /** Footer below the card (default: "Powered by x402 Protocol") */
+  footer?: PaywallSection;
 }
 
 /**
@@ -142,8 +412,16 @@ export interface PaymentRequirement {
   maxTimeoutSeconds?: number;
   asset?: string;
   extra?: {
+    /** EIP-712 domain name of the asset */
     name?: string;
+    /** EIP-712 domain version of the asset */
     version?: string;
+    /** Display symbol of the asset (defaults to USDC for the chain's USDC) */
+    symbol?: string;
+    /** Decimals of the asset (defaults to 6) */
+    decimals?: number;
+    /** Facilitator account that pays Solana transaction fees (SVM exact scheme) */
+    feePayer?: string;
   };
 }
 
@@ -171,7 +449,9 @@ export interface PaywallHandlerConfig {
   testnet?: boolean;
   currentUrl?: string;
   // Extended for customization
-  theme?: ThemeConfig;
+  theme?: ThemeConfig | ThemeVariants;
+  colorScheme?: ColorScheme;
+  colorSchemeToggle?: boolean;
   branding?: BrandingConfig;
   // Generic paywall redirect options (can be overridden by X-PAYWALL-REDIRECT-OPTIONS header)
   resourceDescription?: string;
@@ -179,6 +459,32 @@ export interface PaywallHandlerConfig {
   successRedirectDelaySeconds?: number;
   autoSuccessRedirect?: boolean;
   successRedirectBtnLabel?: string;
+  /** How to show a non-JSON paid response: 'inline' (default) or 'navigate' */
+  successResponseDisplay?: 'inline' | 'navigate';
+  /** Original request to replay once paid (see capturePaywallRequest) */
+  replayRequest?: PaywallReplayRequest;
+  /** Onramp, bridge and faucet links shown on an insufficient balance */
+  fundingLinks?: FundingLinks;
+  /** Storage policy and header for access tokens issued by the resource */
+  accessTokenStorage?: AccessTokenStorage;
+  /** Endpoint returning deployment data of undeployed smart wallets (EVM only) */
+  smartWalletDeploymentUrl?: string;
+  /** Generate a self-contained page: CSS and runtime inlined, no Google Fonts or WalletConnect */
+  selfContained?: boolean;
+  /** Directory serving the package's dist/ files. Default: this package version on jsDelivr */
+  assetBaseUrl?: string;
+  /** Nonce for a nonce-based Content-Security-Policy (new value per response) */
+  cspNonce?: string;
+  /** Origins allowed to embed the page and receive its lifecycle events via postMessage */
+  parentOrigins?: string[];
+  /** Render only the card, sized to its content, for inline frames */
+  embedded?: boolean;
+  /** Request's Accept-Language header, used to pick the page locale */
+  acceptLanguage?: string;
+  /** Explicit page locale (overrides acceptLanguage) */
+  locale?: string;
+  /** Replace sections of the default layout */
+  sections?: PaywallSections;
 }
 
 /**
@@ -192,3 +498,15 @@ export interface PaywallNetworkHandler {
     config: PaywallHandlerConfig,
   ): string;
 }
+
+/**
+ * Paywall handler that can also return the Content-Security-Policy header
+ * for its page (needed when `cspNonce` is set)
+ */
+export interface PaywallDocumentHandler extends PaywallNetworkHandler {
+  generateDocument(
+    requirement: PaymentRequirement,
+    paymentRequired: PaymentRequiredResponse,
+    config: PaywallHandlerConfig,
+  ): PaywallDocument;
+}
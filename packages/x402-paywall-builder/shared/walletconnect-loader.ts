@@ -1,28 +1,39 @@
 /**
- * WalletConnect ESM CDN loader script
+ * WalletConnect CDN loader script
  *
- * Loads @walletconnect/ethereum-provider from esm.sh and exposes it to window for browser usage.
+ * Loads the UMD build of @walletconnect/ethereum-provider from jsDelivr and exposes it to window for browser usage.
+ * jsDelivr serves the file exactly as published to npm, so the tag pins its
+ * Subresource Integrity hash and the browser refuses a modified copy.
  * Uses WalletConnect v2 which requires a projectId from https://cloud.walletconnect.com/
  */
 
+import { WALLETCONNECT_PROVIDER_SCRIPT } from './constants';
+import { getNonceAttribute } from './csp';
+
 /**
- * Generates the script tag to load WalletConnect from CDN
+ * Generates the script tags to load WalletConnect from CDN
  */
-export function getWalletConnectLoaderScript(projectId: string): string {
+export function getWalletConnectLoaderScript(
+  projectId: string,
+  nonce?: string,
+): string {
   if (!projectId) {
     return '';
   }
 
+  const { src, integrity } = WALLETCONNECT_PROVIDER_SCRIPT;
   return `
-  <script type="module">
-    // Load WalletConnect EthereumProvider from CDN
-    import { EthereumProvider } from 'https://esm.sh/@walletconnect/ethereum-provider@2.8.6';
-    
-    // Expose to window for use in non-module scripts
-    window.WalletConnectEthereumProvider = EthereumProvider;
-    
-    // Dispatch event to signal WalletConnect is ready
-    window.dispatchEvent(new Event('walletconnect-loaded'));
-    console.log('[x402-paywall] WalletConnect EthereumProvider loaded');
+  <script src="${src}" integrity="${integrity}" crossorigin="anonymous"${getNonceAttribute(nonce)}></script>
+  <script${getNonceAttribute(nonce)}>
+    // The UMD build registers itself under its package name
+    const walletConnectModule = window['@walletconnect/ethereum-provider'];
+    if (walletConnectModule) {
+      // Expose to window for use in the paywall scripts
+      window.WalletConnectEthereumProvider = walletConnectModule.EthereumProvider;
+
+      // Dispatch event to signal WalletConnect is ready
+      window.dispatchEvent(new Event('walletconnect-loaded'));
+      console.log('[x402-paywall] WalletConnect EthereumProvider loaded');
+    }
   </script>`;
 }
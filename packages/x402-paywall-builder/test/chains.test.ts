@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import {
+  getChainConfig,
+  getChainConfigByChainId,
+  getRegisteredChains,
+  registerChain,
+  toChainIdHex,
+  toEvmNetwork,
+} from '../shared/chains';
+import { CHAIN_CONFIG } from '../shared/constants';
+import type { ChainConfig } from '../shared/types';
+
+const sepolia: ChainConfig = {
+  chainId: 11155111,
+  name: 'Sepolia',
+  usdcAddress: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238',
+  rpcUrl: 'https://ethereum-sepolia-rpc.publicnode.com',
+  blockExplorer: 'https://sepolia.etherscan.io',
+  testnet: true,
+};
+
+afterEach(() => {
+  delete CHAIN_CONFIG['eip155:11155111'];
+});
+
+describe('getChainConfig', () => {
+  test('has the built-in chains', () => {
+    for (const chainId of [8453, 84532, 1, 42161, 10, 137, 43114]) {
+      const config = getChainConfig(`eip155:${chainId}`);
+      expect(config?.chainId).toBe(chainId);
+      expect(config?.usdcAddress).toMatch(/^0x[0-9a-fA-F]{40}$/);
+    }
+    expect(getChainConfig('eip155:8453')?.usdcAddress).toBe(
+      '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+    );
+  });
+
+  test('returns undefined for unknown networks', () => {
+    expect(getChainConfig('eip155:999999')).toBeUndefined();
+    expect(getChainConfig('base')).toBeUndefined();
+    expect(getChainConfigByChainId(999999)).toBeUndefined();
+  });
+
+  test('looks chains up by numeric ID', () => {
+    expect(getChainConfigByChainId(42161)?.name).toBe('Arbitrum One');
+  });
+});
+
+describe('registerChain', () => {
+  test('adds a chain to every lookup', () => {
+    registerChain('eip155:11155111', sepolia);
+
+    expect(getChainConfig('eip155:11155111')).toEqual(sepolia);
+    expect(getChainConfigByChainId(11155111)).toEqual(sepolia);
+    expect(getRegisteredChains()['eip155:11155111']).toEqual(sepolia);
+  });
+
+  test('replaces an existing registration', () => {
+    registerChain('eip155:11155111', sepolia);
+    registerChain('eip155:11155111', { ...sepolia, rpcUrl: 'https://rpc.example.com' });
+
+    expect(getChainConfig('eip155:11155111')?.rpcUrl).toBe('https://rpc.example.com');
+  });
+
+  test('rejects a network that does not match the chain ID', () => {
+    expect(() => registerChain('eip155:1', sepolia)).toThrow(
+      'Network eip155:1 does not match chainId 11155111 (expected eip155:11155111)',
+    );
+    expect(getChainConfig('eip155:1')?.name).toBe('Ethereum');
+  });
+});
+
+describe('getRegisteredChains', () => {
+  test('returns a snapshot', () => {
+    const chains = getRegisteredChains();
+    delete chains['eip155:8453'];
+
+    expect(getChainConfig('eip155:8453')).toBeDefined();
+  });
+});
+
+describe('network helpers', () => {
+  test('build CAIP-2 IDs and hex chain IDs', () => {
+    expect(toEvmNetwork(8453)).toBe('eip155:8453');
+    expect(toChainIdHex(8453)).toBe('0x2105');
+    expect(toChainIdHex(1)).toBe('0x1');
+  });
+});
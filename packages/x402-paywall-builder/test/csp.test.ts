@@ -0,0 +1,198 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  getNonceAttribute,
+  getPaywallContentSecurityPolicy,
+} from '../shared/csp';
+import { WALLETCONNECT_PROVIDER_SCRIPT } from '../shared/constants';
+import { PAYWALL_ASSETS_CDN_URL } from '../shared/inline-assets';
+import { genericEvmPaywall } from '../generic/generic-paywall';
+import type { PaymentRequiredResponse } from '../shared/types';
+
+const nonce = 'r4nd0m+N0nce/Value==';
+
+/**
+ * Directives of a policy keyed by name
+ */
+function directives(policy: string): Record<string, string[]> {
+  return Object.fromEntries(
+    policy.split('; ').map((directive) => {
+      const [name, ...sources] = directive.split(' ');
+      return [name!, sources];
+    }),
+  );
+}
+
+describe('getNonceAttribute', () => {
+  test('renders the attribute, or nothing without a nonce', () => {
+    expect(getNonceAttribute(nonce)).toBe(` nonce="${nonce}"`);
+    expect(getNonceAttribute()).toBe('');
+    expect(getNonceAttribute('')).toBe('');
+  });
+
+  test('rejects nonces that could break out of the attribute', () => {
+    expect(() => getNonceAttribute('abc" onload="alert(1)')).toThrow(
+      'Invalid CSP nonce',
+    );
+    expect(() => getNonceAttribute("abc'; script-src *")).toThrow(
+      'Invalid CSP nonce',
+    );
+  });
+});
+
+describe('getPaywallContentSecurityPolicy', () => {
+  test('allows inline code by nonce and the pinned asset directory', () => {
+    const policy = directives(getPaywallContentSecurityPolicy({ nonce }));
+
+    expect(policy['script-src']).toEqual([
+      `'nonce-${nonce}'`,
+      PAYWALL_ASSETS_CDN_URL,
+    ]);
+    expect(policy['style-src']).toEqual([
+      `'nonce-${nonce}'`,
+      PAYWALL_ASSETS_CDN_URL,
+      'https://fonts.googleapis.com',
+    ]);
+    expect(policy['style-src-attr']).toEqual(["'unsafe-inline'"]);
+    expect(policy['object-src']).toEqual(["'none'"]);
+    expect(policy['base-uri']).toEqual(["'none'"]);
+  });
+
+  test('falls back to unsafe-inline without a nonce', () => {
+    const policy = directives(getPaywallContentSecurityPolicy());
+
+    expect(policy['script-src']).toEqual([
+      "'unsafe-inline'",
+      PAYWALL_ASSETS_CDN_URL,
+    ]);
+    expect(policy['style-src-attr']).toBeUndefined();
+  });
+
+  test('allows self-hosted asset directories', () => {
+    const crossOrigin = directives(
+      getPaywallContentSecurityPolicy({
+        nonce,
+        assetBaseUrl: 'https://static.example.com/x402/dist/',
+      }),
+    );
+    const sameOrigin = directives(
+      getPaywallContentSecurityPolicy({ nonce, assetBaseUrl: '/paywall-assets/' }),
+    );
+
+    expect(crossOrigin['script-src']).toContain(
+      'https://static.example.com/x402/dist/',
+    );
+    expect(sameOrigin['script-src']).toEqual([`'nonce-${nonce}'`, "'self'"]);
+  });
+
+  test('loads nothing from esm.sh or the Tailwind CDN', () => {
+    const policy = getPaywallContentSecurityPolicy({
+      nonce,
+      walletConnect: true,
+    });
+
+    expect(policy).not.toContain('esm.sh');
+    expect(policy).not.toContain('tailwindcss');
+  });
+
+  test('adds WalletConnect sources only when it is loaded', () => {
+    const without = directives(getPaywallContentSecurityPolicy({ nonce }));
+    const withWc = directives(
+      getPaywallContentSecurityPolicy({ nonce, walletConnect: true }),
+    );
+
+    expect(without['script-src']).not.toContain(WALLETCONNECT_PROVIDER_SCRIPT.src);
+    expect(without['connect-src']).toEqual(["'self'"]);
+    expect(without['frame-src']).toEqual(["'self'", 'blob:']);
+
+    expect(withWc['script-src']).toContain(WALLETCONNECT_PROVIDER_SCRIPT.src);
+    expect(withWc['connect-src']).toContain('wss://*.walletconnect.com');
+    expect(withWc['frame-src']).toContain('https://verify.walletconnect.com');
+  });
+
+  test('drops the asset directory and Google Fonts for self-contained pages', () => {
+    const policy = directives(
+      getPaywallContentSecurityPolicy({ nonce, selfContained: true }),
+    );
+
+    expect(policy['script-src']).toEqual([`'nonce-${nonce}'`]);
+    expect(policy['style-src']).toEqual([`'nonce-${nonce}'`]);
+    expect(policy['font-src']).toBeUndefined();
+  });
+
+  test('reduces connect-src URLs to unique origins', () => {
+    const policy = directives(
+      getPaywallContentSecurityPolicy({
+        connectSrc: [
+          'https://mainnet.base.org/rpc?key=1',
+          'https://mainnet.base.org/other',
+          'wss://rpc.example.com:8546/ws',
+          'javascript:alert(1)',
+          'not a url',
+        ],
+      }),
+    );
+
+    expect(policy['connect-src']).toEqual([
+      "'self'",
+      'https://mainnet.base.org',
+      'wss://rpc.example.com:8546',
+    ]);
+  });
+
+  test('rejects an invalid nonce', () => {
+    expect(() =>
+      getPaywallContentSecurityPolicy({ nonce: "x' 'unsafe-eval" }),
+    ).toThrow('Invalid CSP nonce');
+  });
+});
+
+describe('nonce-based pages', () => {
+  const requirement = {
+    scheme: 'exact',
+    network: 'eip155:8453',
+    amount: '10000',
+    asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+    payTo: '0x0000000000000000000000000000000000000001',
+  };
+  const paymentRequired = {
+    x402Version: 2,
+    resource: { url: 'https://example.com/weather' },
+    accepts: [requirement],
+  } as PaymentRequiredResponse;
+
+  const { html, contentSecurityPolicy } = genericEvmPaywall.generateDocument(
+    requirement,
+    paymentRequired,
+    { cspNonce: nonce },
+  );
+
+  test('stamps the nonce on every script and style tag', () => {
+    const tags = html.match(/<(script|style)\b[^>]*>/g) ?? [];
+
+    expect(tags.length).toBeGreaterThan(0);
+    for (const tag of tags) {
+      expect(tag).toContain(`nonce="${nonce}"`);
+    }
+  });
+
+  test('loads the CSS and runtimes pinned by integrity hashes', () => {
+    const assets = html.match(/<(script src|link rel="stylesheet")[^>]*>/g) ?? [];
+
+    expect(assets).toHaveLength(3);
+    for (const tag of assets) {
+      expect(tag).toContain(PAYWALL_ASSETS_CDN_URL);
+      expect(tag).toMatch(/ integrity="sha384-[A-Za-z0-9+/]+={0,2}" crossorigin="anonymous"/);
+      expect(tag).toContain(`nonce="${nonce}"`);
+    }
+  });
+
+  test('has no inline event handler attributes', () => {
+    expect(html).not.toMatch(/<[^>]+\son[a-z]+=/i);
+  });
+
+  test('returns a policy with the same nonce', () => {
+    expect(directives(contentSecurityPolicy)['script-src']).toContain(
+      `'nonce-${nonce}'`,
+    );
+  });
+});
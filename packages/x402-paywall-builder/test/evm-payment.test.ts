@@ -0,0 +1,187 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { encodeAbiParameters, type Hex } from 'viem';
+import {
+  fetchSmartWalletDeployment,
+  getEvmSignatureKind,
+  signEvmPayment,
+  wrapErc6492Signature,
+  type Eip1193Provider,
+} from '../shared/evm-payment';
+import { ERC6492_MAGIC_SUFFIX } from '../shared/constants';
+import { EN_MESSAGES } from '../shared/locales/en';
+
+const EOA_SIGNATURE = `0x${'11'.repeat(65)}`;
+const ERC1271_SIGNATURE = `0x${'22'.repeat(200)}`;
+const ACCOUNT = '0x00000000000000000000000000000000000000aa';
+
+const deployment = {
+  factory: '0x0BA5ED0c6AA8c49038F819E587E2633c4A9F428a',
+  factoryData: '0x3ffba36f0000000000000000000000000000000000000000000000000000000000000001',
+};
+
+const requirement = {
+  scheme: 'exact',
+  network: 'eip155:8453',
+  amount: '10000',
+  asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+  payTo: '0x0000000000000000000000000000000000000001',
+  extra: { name: 'USD Coin', version: '2' },
+};
+
+/**
+ * Wallet that reports the account's code and returns a fixed signature
+ */
+function wallet(code: string, signature: string): Eip1193Provider {
+  return {
+    async request({ method }) {
+      if (method === 'eth_getCode') return code;
+      if (method === 'eth_signTypedData_v4') return signature;
+      throw new Error(`Unexpected ${method}`);
+    },
+  };
+}
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+describe('getEvmSignatureKind', () => {
+  test('classifies signatures by their envelope', () => {
+    expect(getEvmSignatureKind(EOA_SIGNATURE)).toBe('eoa');
+    expect(getEvmSignatureKind(ERC1271_SIGNATURE)).toBe('erc1271');
+    expect(getEvmSignatureKind(`0x${'33'.repeat(64)}${ERC6492_MAGIC_SUFFIX}`)).toBe(
+      'erc6492',
+    );
+  });
+
+  test('ignores case and a missing 0x prefix', () => {
+    expect(getEvmSignatureKind('11'.repeat(65))).toBe('eoa');
+    expect(
+      getEvmSignatureKind(`0X${'AB'.repeat(64)}${ERC6492_MAGIC_SUFFIX.toUpperCase()}`),
+    ).toBe('erc6492');
+  });
+});
+
+describe('wrapErc6492Signature', () => {
+  test('matches abi.encode(factory, factoryData, signature) plus the magic suffix', () => {
+    for (const signature of [EOA_SIGNATURE, ERC1271_SIGNATURE, '0x']) {
+      const encoded = encodeAbiParameters(
+        [{ type: 'address' }, { type: 'bytes' }, { type: 'bytes' }],
+        [deployment.factory as Hex, deployment.factoryData as Hex, signature as Hex],
+      );
+
+      expect(wrapErc6492Signature(signature, deployment)).toBe(
+        `${encoded.toLowerCase()}${ERC6492_MAGIC_SUFFIX}`,
+      );
+    }
+  });
+
+  test('produces an ERC-6492 signature', () => {
+    expect(
+      getEvmSignatureKind(wrapErc6492Signature(ERC1271_SIGNATURE, deployment)),
+    ).toBe('erc6492');
+  });
+});
+
+describe('signEvmPayment', () => {
+  const options = { checkBalance: false };
+
+  test('passes EOA and deployed smart wallet signatures through', async () => {
+    const eoa = await signEvmPayment(wallet('0x', EOA_SIGNATURE), ACCOUNT, requirement, options);
+    const deployed = await signEvmPayment(
+      wallet('0x6080', ERC1271_SIGNATURE),
+      ACCOUNT,
+      requirement,
+      options,
+    );
+
+    expect(eoa.payload.signature).toBe(EOA_SIGNATURE);
+    expect(deployed.payload.signature).toBe(ERC1271_SIGNATURE);
+  });
+
+  test('wraps a bare ERC-1271 signature from an undeployed wallet', async () => {
+    const lookups: string[] = [];
+    const payload = await signEvmPayment(wallet('0x', ERC1271_SIGNATURE), ACCOUNT, requirement, {
+      ...options,
+      resolveDeployment: async (account) => {
+        lookups.push(account);
+        return deployment;
+      },
+    });
+
+    expect(lookups).toEqual([ACCOUNT]);
+    expect(payload.payload.signature).toBe(
+      wrapErc6492Signature(ERC1271_SIGNATURE, deployment),
+    );
+  });
+
+  test('rejects an undeployed wallet without deployment data', async () => {
+    await expect(
+      signEvmPayment(wallet('0x', ERC1271_SIGNATURE), ACCOUNT, requirement, options),
+    ).rejects.toThrow(EN_MESSAGES.smartWalletNotDeployed);
+    await expect(
+      signEvmPayment(wallet('0x', ERC1271_SIGNATURE), ACCOUNT, requirement, {
+        ...options,
+        resolveDeployment: async () => null,
+      }),
+    ).rejects.toThrow(EN_MESSAGES.smartWalletNotDeployed);
+  });
+
+  test('keeps a signature the wallet already wrapped', async () => {
+    const wrapped = wrapErc6492Signature(ERC1271_SIGNATURE, deployment);
+    const payload = await signEvmPayment(wallet('0x', wrapped), ACCOUNT, requirement, {
+      ...options,
+      resolveDeployment: async () => {
+        throw new Error('not called');
+      },
+    });
+
+    expect(payload.payload.signature).toBe(wrapped);
+  });
+});
+
+describe('fetchSmartWalletDeployment', () => {
+  function respondWith(response: Response, urls: string[] = []) {
+    globalThis.fetch = (async (url: string | URL) => {
+      urls.push(String(url));
+      return response;
+    }) as typeof fetch;
+  }
+
+  test('queries the endpoint with the account and network', async () => {
+    const urls: string[] = [];
+    respondWith(Response.json(deployment), urls);
+
+    expect(
+      await fetchSmartWalletDeployment(
+        'https://example.com/deployments?key=1',
+        ACCOUNT,
+        'eip155:8453',
+      ),
+    ).toEqual(deployment);
+    expect(urls).toEqual([
+      `https://example.com/deployments?key=1&address=${ACCOUNT}&network=eip155%3A8453`,
+    ]);
+  });
+
+  test('returns null for failed or malformed lookups', async () => {
+    respondWith(new Response('not found', { status: 404 }));
+    expect(
+      await fetchSmartWalletDeployment('https://example.com/d', ACCOUNT, 'eip155:8453'),
+    ).toBeNull();
+
+    respondWith(Response.json({ factory: 'nope', factoryData: '0x' }));
+    expect(
+      await fetchSmartWalletDeployment('https://example.com/d', ACCOUNT, 'eip155:8453'),
+    ).toBeNull();
+
+    globalThis.fetch = (async () => {
+      throw new TypeError('Failed to fetch');
+    }) as unknown as typeof fetch;
+    expect(
+      await fetchSmartWalletDeployment('https://example.com/d', ACCOUNT, 'eip155:8453'),
+    ).toBeNull();
+  });
+});
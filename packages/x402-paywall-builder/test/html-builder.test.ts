@@ -0,0 +1,54 @@
+import { describe, expect, test } from 'bun:test';
+import { buildPaywallHtml, type HtmlBuilderOptions } from '../shared/html-builder';
+import { getPaywallAsset } from '../shared/inline-assets';
+
+const options: HtmlBuilderOptions = {
+  title: 'Paywall',
+  headerHtml: '',
+  priceDisplayHtml: '',
+  successContentHtml: '',
+  onSuccessScript: '',
+  amount: 1,
+};
+
+describe('buildPaywallHtml', () => {
+  test('loads the CSS and runtimes from the asset directory by default', () => {
+    const html = buildPaywallHtml({
+      ...options,
+      assetBaseUrl: 'https://static.example.com/x402',
+    });
+    const runtime = getPaywallAsset('evm-runtime.js')!;
+
+    expect(html).toContain(
+      `<script src="https://static.example.com/x402/evm-runtime.js" integrity="${runtime.integrity}" crossorigin="anonymous"></script>`,
+    );
+    expect(html).toContain('href="https://static.example.com/x402/paywall.css"');
+    expect(html).not.toContain(runtime.code);
+  });
+
+  test('inlines the CSS and runtimes for self-contained pages', () => {
+    const html = buildPaywallHtml({ ...options, family: 'svm', selfContained: true });
+
+    expect(html).not.toMatch(/<script src|<link rel="stylesheet"/);
+    expect(html).toContain(getPaywallAsset('solana-runtime.js')!.code);
+    expect(html).toContain(getPaywallAsset('paywall.css')!.code);
+  });
+
+  test('escapes preview mock values in the inline script', () => {
+    const mockAddress = "0x1';</script><script>alert(1)</script>";
+    const html = buildPaywallHtml({
+      ...options,
+      preview: {
+        isPreview: true,
+        mockAddress,
+        mockBalances: [{ chainName: '</script>', balance: '1' }],
+      },
+    });
+
+    expect(html).not.toContain('<script>alert(1)');
+    expect(html).not.toContain("'</script>");
+    expect(html).toContain(
+      `window.mockAddress = ${JSON.stringify(mockAddress).replace(/</g, '\\u003c')};`,
+    );
+  });
+});
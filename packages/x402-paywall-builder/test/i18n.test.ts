@@ -0,0 +1,72 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  formatMessage,
+  getLocaleMessages,
+  negotiateLocale,
+  resolveLocale,
+} from '../shared/i18n';
+import { EN_MESSAGES } from '../shared/locales/en';
+import { ES_MESSAGES } from '../shared/locales/es';
+
+describe('negotiateLocale', () => {
+  test('defaults to English without a header', () => {
+    expect(negotiateLocale()).toBe('en');
+    expect(negotiateLocale(null)).toBe('en');
+    expect(negotiateLocale('')).toBe('en');
+  });
+
+  test('matches tags case-insensitively', () => {
+    expect(negotiateLocale('pt-br')).toBe('pt-BR');
+    expect(negotiateLocale('JA')).toBe('ja');
+  });
+
+  test('falls back to a locale with the same primary language', () => {
+    expect(negotiateLocale('pt-PT')).toBe('pt-BR');
+    expect(negotiateLocale('es-MX')).toBe('es');
+    expect(negotiateLocale('zh-Hant-TW')).toBe('zh');
+  });
+
+  test('prefers higher q values regardless of order', () => {
+    expect(negotiateLocale('en;q=0.5, ja;q=0.9')).toBe('ja');
+    expect(negotiateLocale('pt-BR,pt;q=0.9,en;q=0.8')).toBe('pt-BR');
+  });
+
+  test('skips unsupported languages for the next supported one', () => {
+    expect(negotiateLocale('fr-CH, fr;q=0.9, es;q=0.8')).toBe('es');
+    expect(negotiateLocale('fr-CH, fr;q=0.9')).toBe('en');
+  });
+
+  test('ignores wildcards and q=0 ranges', () => {
+    expect(negotiateLocale('*')).toBe('en');
+    expect(negotiateLocale('ja;q=0, es;q=0.1')).toBe('es');
+  });
+
+  test('tolerates whitespace and extra parameters', () => {
+    expect(negotiateLocale(' es ; q=0.7 ,  ja ; foo=bar ; q=0.8 ')).toBe('ja');
+  });
+});
+
+describe('resolveLocale', () => {
+  test('resolves registered locales and defaults to English', () => {
+    expect(resolveLocale('es')).toBe('es');
+    expect(resolveLocale('pt')).toBe('pt-BR');
+    expect(resolveLocale('fr')).toBe('en');
+    expect(resolveLocale()).toBe('en');
+  });
+});
+
+describe('getLocaleMessages', () => {
+  test('returns the resolved pack', () => {
+    expect(getLocaleMessages('es-AR')).toBe(ES_MESSAGES);
+    expect(getLocaleMessages('fr')).toBe(EN_MESSAGES);
+  });
+});
+
+describe('formatMessage', () => {
+  test('fills placeholders and keeps unknown ones', () => {
+    expect(
+      formatMessage('Not enough {symbol} on {chain}', { symbol: 'USDC' }),
+    ).toBe('Not enough USDC on {chain}');
+    expect(formatMessage('{count} left', { count: 0 })).toBe('0 left');
+  });
+});
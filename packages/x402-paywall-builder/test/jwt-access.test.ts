@@ -0,0 +1,214 @@
+import { describe, expect, test } from 'bun:test';
+import { createHmac } from 'node:crypto';
+import {
+  generateAccessToken,
+  tokenMatchesResource,
+  tokenMatchesResourceUrl,
+  verifyAccessToken,
+  type X402AccessTokenPayload,
+} from '../shared/jwt-access';
+
+const secret = 'test-secret';
+
+const payment = {
+  resourceType: 'api',
+  resourceId: 'weather',
+  resourceUrl: 'https://example.com/weather',
+  query: { from: '2025-01-01', to: '2025-01-31' },
+  paidAt: '2025-01-01T00:00:00.000Z',
+  buyerWallet: '0x0000000000000000000000000000000000000001',
+  txHash: '0xabc',
+  chainId: 8453,
+};
+
+/**
+ * Replace one segment of a compact JWT
+ */
+function withSegment(token: string, index: number, segment: string): string {
+  const parts = token.split('.');
+  parts[index] = segment;
+  return parts.join('.');
+}
+
+function base64UrlJson(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+/**
+ * Sign arbitrary claims as an HS256 JWT
+ */
+function signClaims(claims: unknown): string {
+  const input = `${base64UrlJson({ alg: 'HS256', typ: 'JWT' })}.${base64UrlJson(claims)}`;
+  return `${input}.${createHmac('sha256', secret).update(input).digest('base64url')}`;
+}
+
+describe('generateAccessToken / verifyAccessToken', () => {
+  test('round-trips the payload with iat and exp', async () => {
+    const token = await generateAccessToken(payment, {
+      secret,
+      expiresInSeconds: 60,
+    });
+    const result = await verifyAccessToken(token, { secret });
+
+    expect(result.valid).toBe(true);
+    if (!result.valid) return;
+    expect(result.payload).toMatchObject(payment);
+    expect(result.payload.exp! - result.payload.iat!).toBe(60);
+  });
+
+  test('signs an HS256 JWT', async () => {
+    const token = await generateAccessToken(payment, { secret });
+    const [header] = token.split('.');
+
+    expect(JSON.parse(Buffer.from(header!, 'base64url').toString())).toEqual({
+      alg: 'HS256',
+      typ: 'JWT',
+    });
+  });
+
+  test('rejects a token signed with another secret', async () => {
+    const token = await generateAccessToken(payment, { secret: 'other' });
+
+    expect(await verifyAccessToken(token, { secret })).toEqual({
+      valid: false,
+      error: 'Invalid signature',
+    });
+  });
+
+  test('rejects a tampered payload', async () => {
+    const token = await generateAccessToken(payment, { secret });
+    const [, payloadSegment] = token.split('.');
+    const claims = JSON.parse(
+      Buffer.from(payloadSegment!, 'base64url').toString(),
+    );
+    const tampered = withSegment(
+      token,
+      1,
+      base64UrlJson({ ...claims, resourceId: 'premium' }),
+    );
+
+    expect(await verifyAccessToken(tampered, { secret })).toEqual({
+      valid: false,
+      error: 'Invalid signature',
+    });
+  });
+
+  test('rejects an expired token', async () => {
+    const token = await generateAccessToken(payment, {
+      secret,
+      expiresInSeconds: -1,
+    });
+
+    expect(await verifyAccessToken(token, { secret })).toEqual({
+      valid: false,
+      error: 'Token expired',
+    });
+  });
+
+  test('rejects a signed token without an expiry', async () => {
+    const token = signClaims({ ...payment, iat: 1 });
+
+    expect(await verifyAccessToken(token, { secret })).toEqual({
+      valid: false,
+      error: 'Token has no expiry',
+    });
+  });
+
+  test('rejects other algorithms', async () => {
+    const token = await generateAccessToken(payment, { secret });
+    const unsigned = withSegment(
+      token,
+      0,
+      base64UrlJson({ alg: 'none', typ: 'JWT' }),
+    );
+
+    expect(await verifyAccessToken(unsigned, { secret })).toEqual({
+      valid: false,
+      error: 'Unsupported algorithm: none',
+    });
+  });
+
+  test('rejects malformed tokens without throwing', async () => {
+    expect(await verifyAccessToken('not-a-jwt', { secret })).toEqual({
+      valid: false,
+      error: 'Malformed token',
+    });
+    expect((await verifyAccessToken('a.b.c', { secret })).valid).toBe(false);
+  });
+
+  test('throws without a secret', async () => {
+    const env = process.env.X402_ACCESS_TOKEN_SECRET;
+    delete process.env.X402_ACCESS_TOKEN_SECRET;
+    try {
+      await expect(generateAccessToken(payment)).rejects.toThrow(
+        'Access token secret not configured',
+      );
+      await expect(verifyAccessToken('a.b.c')).rejects.toThrow(
+        'Access token secret not configured',
+      );
+    } finally {
+      if (env !== undefined) process.env.X402_ACCESS_TOKEN_SECRET = env;
+    }
+  });
+});
+
+describe('tokenMatchesResource', () => {
+  const payload = payment as X402AccessTokenPayload;
+
+  test('matches the paid resource and query', () => {
+    expect(
+      tokenMatchesResource(payload, 'api', 'weather', {
+        ...payment.query,
+        format: 'json',
+      }),
+    ).toBe(true);
+  });
+
+  test('rejects another resource', () => {
+    expect(tokenMatchesResource(payload, 'api', 'news', payment.query)).toBe(
+      false,
+    );
+    expect(
+      tokenMatchesResource(payload, 'analytics', 'weather', payment.query),
+    ).toBe(false);
+  });
+
+  test('rejects a different or missing query', () => {
+    expect(
+      tokenMatchesResource(payload, 'api', 'weather', {
+        ...payment.query,
+        to: '2025-12-31',
+      }),
+    ).toBe(false);
+    expect(tokenMatchesResource(payload, 'api', 'weather')).toBe(false);
+  });
+});
+
+describe('tokenMatchesResourceUrl', () => {
+  const payload = payment as X402AccessTokenPayload;
+
+  test('matches origin and path, ignoring the query string', () => {
+    expect(
+      tokenMatchesResourceUrl(payload, 'https://example.com/weather?day=1'),
+    ).toBe(true);
+  });
+
+  test('rejects another path or origin', () => {
+    expect(tokenMatchesResourceUrl(payload, 'https://example.com/news')).toBe(
+      false,
+    );
+    expect(tokenMatchesResourceUrl(payload, 'https://evil.com/weather')).toBe(
+      false,
+    );
+  });
+
+  test('rejects tokens without a URL and unparseable URLs', () => {
+    expect(
+      tokenMatchesResourceUrl(
+        { ...payload, resourceUrl: undefined },
+        'https://example.com/weather',
+      ),
+    ).toBe(false);
+    expect(tokenMatchesResourceUrl(payload, 'not a url')).toBe(false);
+  });
+});
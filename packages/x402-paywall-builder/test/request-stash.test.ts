@@ -0,0 +1,344 @@
+import { afterEach, describe, expect, setSystemTime, test } from 'bun:test';
+import {
+  capturePaywallRequest,
+  createMemoryRequestStore,
+  releasePaywallRequest,
+  renewPaywallRequest,
+  restorePaywallRequest,
+  type PaywallRequestStore,
+  type StashedPaywallRequest,
+} from '../shared/request-stash';
+import { PAYWALL_REQUEST_ID_HEADER } from '../shared/constants';
+
+const url = 'https://example.com/api/orders?draft=1';
+
+function post(body: BodyInit, headers: Record<string, string> = {}): Request {
+  return new Request(url, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...headers },
+    body,
+  });
+}
+
+/**
+ * The paid retry the page sends for a stash: same method and URL, no body
+ */
+function retry(
+  requestId: string,
+  { method = 'POST', target = url }: { method?: string; target?: string } = {},
+): Request {
+  return new Request(target, {
+    method,
+    headers: {
+      [PAYWALL_REQUEST_ID_HEADER]: requestId,
+      'payment-signature': 'sig',
+    },
+  });
+}
+
+/**
+ * Capture a JSON POST and return its stash ID
+ */
+async function stash(store: PaywallRequestStore, ttlSeconds?: number) {
+  const replay = await capturePaywallRequest(post('{"item":1}'), {
+    store,
+    ttlSeconds,
+  });
+  return replay!.requestId!;
+}
+
+afterEach(() => {
+  setSystemTime();
+});
+
+describe('capturePaywallRequest', () => {
+  test('replays GET requests without stashing', async () => {
+    const store = createMemoryRequestStore();
+    const replay = await capturePaywallRequest(
+      new Request(url, { headers: { 'accept-language': 'es' } }),
+      { store },
+    );
+
+    expect(replay).toEqual({
+      method: 'GET',
+      headers: { 'accept-language': 'es' },
+    });
+  });
+
+  test('stashes the body and keeps only safe headers', async () => {
+    const store = createMemoryRequestStore();
+    const replay = await capturePaywallRequest(
+      post('{"item":1}', {
+        authorization: 'Bearer secret',
+        cookie: 'session=1',
+        'x-idempotency-key': 'abc',
+      }),
+      { store, headers: ['X-Idempotency-Key'], ttlSeconds: 60 },
+    );
+
+    expect(replay).toEqual({
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-idempotency-key': 'abc',
+      },
+      requestId: expect.any(String),
+      ttlSeconds: 60,
+    });
+
+    const entry = await store.get(replay!.requestId!);
+    expect(entry?.method).toBe('POST');
+    expect(entry?.path).toBe('/api/orders?draft=1');
+    expect(new TextDecoder().decode(entry!.body)).toBe('{"item":1}');
+  });
+
+  test('refuses bodies over maxBodyBytes', async () => {
+    const store = createMemoryRequestStore();
+
+    expect(
+      await capturePaywallRequest(post('x'.repeat(11)), {
+        store,
+        maxBodyBytes: 10,
+      }),
+    ).toBeNull();
+    expect(
+      await capturePaywallRequest(post('x', { 'content-length': '1000' }), {
+        store,
+        maxBodyBytes: 10,
+      }),
+    ).toBeNull();
+    expect(
+      await capturePaywallRequest(post('x'.repeat(10)), {
+        store,
+        maxBodyBytes: 10,
+      }),
+    ).toMatchObject({ requestId: expect.any(String) });
+  });
+
+  test('does not stash an empty body', async () => {
+    const store = createMemoryRequestStore();
+    const replay = await capturePaywallRequest(post(''), { store });
+
+    expect(replay?.requestId).toBeUndefined();
+  });
+
+  test('leaves the original request readable', async () => {
+    const request = post('{"item":1}');
+    await capturePaywallRequest(request, { store: createMemoryRequestStore() });
+
+    expect(await request.text()).toBe('{"item":1}');
+  });
+});
+
+describe('restorePaywallRequest', () => {
+  test('passes through requests without a stash ID', async () => {
+    const request = new Request(url);
+
+    expect(
+      await restorePaywallRequest(request, {
+        store: createMemoryRequestStore(),
+      }),
+    ).toBe(request);
+  });
+
+  test('puts the stashed body back on the paid retry', async () => {
+    const store = createMemoryRequestStore();
+    const restored = await restorePaywallRequest(retry(await stash(store)), {
+      store,
+    });
+
+    expect(restored?.method).toBe('POST');
+    expect(await restored?.text()).toBe('{"item":1}');
+    expect(restored?.headers.get('payment-signature')).toBe('sig');
+    expect(restored?.headers.has(PAYWALL_REQUEST_ID_HEADER)).toBe(false);
+  });
+
+  test('keeps the body until it is released', async () => {
+    const store = createMemoryRequestStore();
+    const requestId = await stash(store);
+
+    expect(await restorePaywallRequest(retry(requestId), { store })).not.toBeNull();
+    expect(await restorePaywallRequest(retry(requestId), { store })).not.toBeNull();
+
+    await releasePaywallRequest(retry(requestId), { store });
+    expect(await restorePaywallRequest(retry(requestId), { store })).toBeNull();
+  });
+
+  test('rejects a stash for another method or URL', async () => {
+    const store = createMemoryRequestStore();
+    const requestId = await stash(store);
+
+    expect(
+      await restorePaywallRequest(retry(requestId, { method: 'PUT' }), {
+        store,
+      }),
+    ).toBeNull();
+    expect(
+      await restorePaywallRequest(
+        retry(requestId, { target: 'https://example.com/api/orders' }),
+        { store },
+      ),
+    ).toBeNull();
+  });
+
+  test('rejects an expired stash', async () => {
+    const store = createMemoryRequestStore();
+    setSystemTime(new Date('2025-01-01T00:00:00Z'));
+    const requestId = await stash(store, 60);
+
+    setSystemTime(new Date('2025-01-01T00:00:59Z'));
+    expect(await restorePaywallRequest(retry(requestId), { store })).not.toBeNull();
+
+    setSystemTime(new Date('2025-01-01T00:01:00Z'));
+    expect(await restorePaywallRequest(retry(requestId), { store })).toBeNull();
+  });
+
+  test('rejects an unknown stash ID', async () => {
+    expect(
+      await restorePaywallRequest(retry('missing'), {
+        store: createMemoryRequestStore(),
+      }),
+    ).toBeNull();
+  });
+});
+
+/**
+ * The GET the page sends to refresh its requirements for a stash
+ */
+function refresh(requestId: string, target = url): Request {
+  return new Request(target, {
+    headers: {
+      [PAYWALL_REQUEST_ID_HEADER]: requestId,
+      accept: 'application/json',
+    },
+  });
+}
+
+describe('renewPaywallRequest', () => {
+  test('moves the body to a new ID with a fresh TTL', async () => {
+    const store = createMemoryRequestStore();
+    setSystemTime(new Date('2025-01-01T00:00:00Z'));
+    const requestId = await stash(store, 60);
+
+    setSystemTime(new Date('2025-01-01T00:00:50Z'));
+    const renewedId = await renewPaywallRequest(refresh(requestId), {
+      store,
+      ttlSeconds: 60,
+    });
+
+    expect(renewedId).toEqual(expect.any(String));
+    expect(renewedId).not.toBe(requestId);
+    expect(await store.get(requestId)).toBeNull();
+
+    setSystemTime(new Date('2025-01-01T00:01:30Z'));
+    const restored = await restorePaywallRequest(retry(renewedId!), { store });
+    expect(await restored?.text()).toBe('{"item":1}');
+  });
+
+  test('returns null without a live stash', async () => {
+    const store = createMemoryRequestStore();
+
+    expect(await renewPaywallRequest(new Request(url), { store })).toBeNull();
+    expect(await renewPaywallRequest(refresh('missing'), { store })).toBeNull();
+
+    setSystemTime(new Date('2025-01-01T00:00:00Z'));
+    const requestId = await stash(store, 60);
+    expect(
+      await renewPaywallRequest(
+        refresh(requestId, 'https://example.com/api/other'),
+        { store },
+      ),
+    ).toBeNull();
+    setSystemTime(new Date('2025-01-01T00:01:00Z'));
+    expect(await renewPaywallRequest(refresh(requestId), { store })).toBeNull();
+  });
+
+  test('only renews on a GET or HEAD refresh', async () => {
+    const store = createMemoryRequestStore();
+    const requestId = await stash(store);
+
+    expect(await renewPaywallRequest(retry(requestId), { store })).toBeNull();
+    expect(await store.get(requestId)).not.toBeNull();
+    expect(
+      await renewPaywallRequest(
+        new Request(url, {
+          method: 'HEAD',
+          headers: { [PAYWALL_REQUEST_ID_HEADER]: requestId },
+        }),
+        { store },
+      ),
+    ).toEqual(expect.any(String));
+  });
+});
+
+describe('createMemoryRequestStore', () => {
+  function entry(expiresAt: number): StashedPaywallRequest {
+    return { method: 'POST', path: '/', body: new ArrayBuffer(0), expiresAt };
+  }
+
+  test('evicts the oldest entries beyond maxEntries', async () => {
+    const store = createMemoryRequestStore(2);
+    const expiresAt = Date.now() + 60_000;
+    await store.put('a', entry(expiresAt));
+    await store.put('b', entry(expiresAt));
+    await store.put('c', entry(expiresAt));
+
+    expect(await store.get('a')).toBeNull();
+    expect(await store.get('b')).not.toBeNull();
+    expect(await store.get('c')).not.toBeNull();
+  });
+
+  test('drops expired entries on put', async () => {
+    const store = createMemoryRequestStore();
+    await store.put('expired', entry(Date.now() - 1));
+    await store.put('live', entry(Date.now() + 60_000));
+
+    expect(await store.get('expired')).toBeNull();
+    expect(await store.get('live')).not.toBeNull();
+  });
+});
+
+describe('custom stores', () => {
+  test('are used for capture, restore and release', async () => {
+    const entries = new Map<string, StashedPaywallRequest>();
+    const calls: string[] = [];
+    const store: PaywallRequestStore = {
+      async get(id) {
+        calls.push('get');
+        return entries.get(id) ?? null;
+      },
+      async put(id, value) {
+        calls.push('put');
+        entries.set(id, value);
+      },
+      async delete(id) {
+        calls.push('delete');
+        entries.delete(id);
+      },
+    };
+
+    const requestId = await stash(store);
+    await restorePaywallRequest(retry(requestId), { store });
+    await releasePaywallRequest(retry(requestId), { store });
+
+    expect(calls).toEqual(['put', 'get', 'delete']);
+    expect(entries.size).toBe(0);
+  });
+
+  test('ignore expired entries the store still returns', async () => {
+    const store: PaywallRequestStore = {
+      async get() {
+        return {
+          method: 'POST',
+          path: '/api/orders?draft=1',
+          body: new ArrayBuffer(1),
+          expiresAt: Date.now() - 1,
+        };
+      },
+      async put() {},
+      async delete() {},
+    };
+
+    expect(await restorePaywallRequest(retry('any'), { store })).toBeNull();
+  });
+});
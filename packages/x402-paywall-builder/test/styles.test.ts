@@ -0,0 +1,84 @@
+import { describe, expect, test } from 'bun:test';
+import { createThemeFromBrand } from '../shared/styles';
+import { analyzeTheme, parseCssColor, rgbToOklch } from '../shared/theme-analysis';
+import {
+  THEME_PRESET_BRANDS,
+  THEME_PRESET_VARIANTS,
+  type ThemePresetName,
+} from '../shared/constants';
+
+function lightness(color: string): number {
+  return rgbToOklch(parseCssColor(color)!).l;
+}
+
+describe('createThemeFromBrand', () => {
+  test('builds a light theme that passes AA', () => {
+    const theme = createThemeFromBrand({ primary: '#2563eb' });
+
+    expect(analyzeTheme(theme).passesAA).toBe(true);
+    expect(lightness(theme.background)).toBeGreaterThan(0.9);
+    expect(lightness(theme.foreground)).toBeLessThan(0.3);
+    expect(theme.borderRadius).toBe('1.25rem');
+  });
+
+  test('builds a dark theme that passes AA', () => {
+    const theme = createThemeFromBrand({ primary: '#ff6b00', mode: 'dark' });
+
+    expect(analyzeTheme(theme).passesAA).toBe(true);
+    expect(lightness(theme.background)).toBeLessThan(0.3);
+    expect(lightness(theme.foreground)).toBeGreaterThan(0.9);
+  });
+
+  test('tints neutrals with the brand hue', () => {
+    const hue = rgbToOklch(parseCssColor('#2563eb')!).h;
+    const theme = createThemeFromBrand({ primary: '#2563eb' });
+
+    for (const color of [theme.background, theme.card, theme.foreground]) {
+      const [, chroma, colorHue] = color.match(/^oklch\([\d.]+ ([\d.]+) ([\d.]+)\)$/)!;
+      expect(Number(chroma)).toBeGreaterThan(0);
+      expect(Number(colorHue)).toBeCloseTo(hue, 0);
+    }
+  });
+
+  test('darkens a light brand color until button labels are readable', () => {
+    const theme = createThemeFromBrand({ primary: '#ffeb3b' });
+
+    expect(lightness(theme.brandPrimary)).toBeLessThan(lightness('#ffeb3b'));
+    expect(analyzeTheme(theme).passesAA).toBe(true);
+    expect(
+      analyzeTheme(theme).checks.find(
+        (check) => check.foreground === 'white' && check.background === 'brandPrimary',
+      )?.ratio,
+    ).toBeGreaterThanOrEqual(4.5);
+  });
+
+  test('checks text against a background override', () => {
+    const background =
+      'linear-gradient(135deg, oklch(0.85 0.1 220) 0%, oklch(0.75 0.15 250) 100%)';
+    const theme = createThemeFromBrand({
+      primary: 'oklch(0.55 0.2 240)',
+      background,
+      radius: '1.5rem',
+    });
+
+    expect(theme.background).toBe(background);
+    expect(theme.borderRadius).toBe('1.5rem');
+    expect(analyzeTheme(theme).passesAA).toBe(true);
+  });
+
+  test('throws on an unparseable brand color', () => {
+    expect(() => createThemeFromBrand({ primary: 'var(--brand)' })).toThrow(
+      'Invalid brand color: var(--brand)',
+    );
+  });
+
+  test('generates the opposite-mode preset variants', () => {
+    for (const [name, brand] of Object.entries(THEME_PRESET_BRANDS)) {
+      const mode = brand.mode === 'dark' ? 'light' : 'dark';
+      // Gradient backgrounds belong to the preset's own mode
+      expect(
+        createThemeFromBrand({ ...brand, mode, background: undefined }),
+      ).toEqual(THEME_PRESET_VARIANTS[name as ThemePresetName][mode]);
+    }
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, expect, test } from 'bun:test';
+import { validatePaywallTemplate } from '../shared/template-validator';
+import {
+  PAYWALL_CONFIG_META_NAME,
+  PAYWALL_CONFIG_PLACEHOLDER,
+} from '../shared/constants';
+
+const META = `<meta name="${PAYWALL_CONFIG_META_NAME}" content="${PAYWALL_CONFIG_PLACEHOLDER}">`;
+
+const ELEMENT_IDS = [
+  'state-connect',
+  'state-connected',
+  'state-processing',
+  'state-success',
+  'state-error',
+  'btn-pay',
+  'btn-metamask-text',
+  'connected-address',
+  'processing-text',
+  'error-message',
+  'price-display-amount',
+  'btn-pay-amount',
+  'chain-name-display',
+  'chain-indicator',
+  'balance-container',
+  'success-message',
+  'x402-status',
+  'x402-alert',
+];
+
+/**
+ * A template with the meta placeholder and every element ID, plus extra markup
+ */
+function template(
+  body = '',
+  { head = META, ids = ELEMENT_IDS }: { head?: string; ids?: string[] } = {},
+): string {
+  const elements = ids.map((id) => `<div id="${id}"></div>`).join('\n');
+  return `<html>\n<head>\n${head}\n</head>\n<body>\n${elements}\n${body}\n</body>\n</html>`;
+}
+
+function codes(issues: { code: string }[]): string[] {
+  return issues.map((issue) => issue.code);
+}
+
+describe('validatePaywallTemplate', () => {
+  test('accepts a complete template', () => {
+    expect(validatePaywallTemplate(template())).toEqual({
+      valid: true,
+      errors: [],
+      warnings: [],
+    });
+  });
+
+  test('requires the config placeholder in the meta tag', () => {
+    const withoutMeta = validatePaywallTemplate(template('', { head: '' }));
+    expect(withoutMeta.valid).toBe(false);
+    expect(codes(withoutMeta.errors)).toEqual(['missing-config-placeholder']);
+
+    const wrongContent = validatePaywallTemplate(
+      template('', {
+        head: `<meta name="${PAYWALL_CONFIG_META_NAME}" content="{}">`,
+      }),
+    );
+    expect(codes(wrongContent.errors)).toEqual(['missing-config-placeholder']);
+  });
+
+  test('ignores a placeholder inside a comment', () => {
+    const result = validatePaywallTemplate(
+      template('', { head: `<!-- ${META} -->` }),
+    );
+    expect(codes(result.errors)).toEqual(['missing-config-placeholder']);
+  });
+
+  test('reports missing required elements as errors', () => {
+    const result = validatePaywallTemplate(
+      template('', { ids: ELEMENT_IDS.filter((id) => id !== 'btn-pay') }),
+    );
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      expect.objectContaining({ code: 'missing-element', elementId: 'btn-pay' }),
+    ]);
+  });
+
+  test('requires family-specific elements', () => {
+    const ids = ELEMENT_IDS.filter((id) => id !== 'btn-metamask-text');
+    expect(validatePaywallTemplate(template('', { ids })).valid).toBe(false);
+    expect(
+      validatePaywallTemplate(template('', { ids }), { family: 'svm' }).valid,
+    ).toBe(true);
+  });
+
+  test('reports missing recommended elements as warnings', () => {
+    const result = validatePaywallTemplate(
+      template('', { ids: ELEMENT_IDS.filter((id) => id !== 'x402-alert') }),
+    );
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toEqual([
+      expect.objectContaining({
+        code: 'missing-element',
+        elementId: 'x402-alert',
+      }),
+    ]);
+  });
+
+  test('reports duplicate IDs with their lines', () => {
+    const html = template('<span id="btn-pay"></span>');
+    const result = validatePaywallTemplate(html);
+    const duplicate = result.errors.find((e) => e.code === 'duplicate-id');
+
+    expect(duplicate?.elementId).toBe('btn-pay');
+    expect(duplicate?.line).toBe(
+      html.split('\n').indexOf('<span id="btn-pay"></span>') + 1,
+    );
+  });
+
+  test('ignores IDs inside scripts and comments', () => {
+    const result = validatePaywallTemplate(
+      template(
+        '<!-- <div id="btn-pay"></div> -->\n<script>const html = \'<div id="btn-pay">\';</script>',
+      ),
+    );
+    expect(result.errors).toEqual([]);
+  });
+
+  test('warns about external scripts without an integrity hash', () => {
+    const result = validatePaywallTemplate(
+      template(
+        '<script src="https://cdn.example.com/a.js"></script>\n' +
+          '<script src="https://cdn.example.com/b.js" integrity="sha384-abc" crossorigin="anonymous"></script>',
+      ),
+    );
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toEqual([
+      expect.objectContaining({
+        code: 'external-script',
+        message: expect.stringContaining('https://cdn.example.com/a.js'),
+      }),
+    ]);
+  });
+
+  test('reports handlers calling undefined functions', () => {
+    const result = validatePaywallTemplate(
+      template(
+        '<button onclick="payNow()">Pay</button>\n' +
+          '<button data-x402-action="tipAuthor">Tip</button>',
+      ),
+    );
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        code: 'undefined-handler',
+        message: 'onclick calls payNow(), which no inline script defines',
+      }),
+      expect.objectContaining({
+        code: 'undefined-handler',
+        message: 'data-x402-action calls tipAuthor(), which no inline script defines',
+      }),
+    ]);
+  });
+
+  test('accepts handlers defined by inline scripts or browser globals', () => {
+    const result = validatePaywallTemplate(
+      template(
+        '<button onclick="payNow(); alert(\'ok\')">Pay</button>\n' +
+          '<button onclick="window.history.back()">Back</button>\n' +
+          '<button data-x402-action="tipAuthor">Tip</button>\n' +
+          '<script>function payNow() {}\nwindow.tipAuthor = () => {};</script>',
+      ),
+    );
+    expect(result.errors).toEqual([]);
+  });
+});
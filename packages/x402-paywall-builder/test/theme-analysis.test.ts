@@ -0,0 +1,198 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  analyzeTheme,
+  getContrastRatio,
+  parseCssColor,
+  rgbToOklch,
+  suggestAccessibleTheme,
+} from '../shared/theme-analysis';
+import { NAMEFI_THEME } from '../shared/constants';
+import type { ThemeConfig } from '../shared/types';
+
+const WHITE = { r: 1, g: 1, b: 1, a: 1 };
+const BLACK = { r: 0, g: 0, b: 0, a: 1 };
+
+/**
+ * A light theme whose pairs all pass AAA
+ */
+const LIGHT_THEME: ThemeConfig = {
+  background: '#ffffff',
+  card: '#ffffff',
+  foreground: '#000000',
+  muted: '#333333',
+  brandPrimary: '#000000',
+  brandPrimaryHover: '#111111',
+  destructive: '#7f0000',
+  border: '#767676',
+  borderRadius: '1rem',
+};
+
+describe('parseCssColor', () => {
+  test('parses hex colors with and without alpha', () => {
+    expect(parseCssColor('#fff')).toEqual(WHITE);
+    expect(parseCssColor('#000000')).toEqual(BLACK);
+    expect(parseCssColor('#ff000080')?.a).toBeCloseTo(128 / 255);
+  });
+
+  test('parses rgb(), hsl() and oklch()', () => {
+    expect(parseCssColor('rgb(255, 0, 0)')).toEqual({ r: 1, g: 0, b: 0, a: 1 });
+    expect(parseCssColor('rgba(0 0 255 / 50%)')).toEqual({
+      r: 0,
+      g: 0,
+      b: 1,
+      a: 0.5,
+    });
+
+    const green = parseCssColor('hsl(120, 100%, 50%)')!;
+    expect(green.r).toBeCloseTo(0);
+    expect(green.g).toBeCloseTo(1);
+    expect(green.b).toBeCloseTo(0);
+
+    const white = parseCssColor('oklch(100% 0 0)')!;
+    expect(white.r).toBeCloseTo(1, 3);
+    expect(white.g).toBeCloseTo(1, 3);
+    expect(white.b).toBeCloseTo(1, 3);
+  });
+
+  test('parses named colors case-insensitively', () => {
+    expect(parseCssColor(' White ')).toEqual(WHITE);
+    expect(parseCssColor('transparent')?.a).toBe(0);
+  });
+
+  test('returns null for anything else', () => {
+    expect(parseCssColor('rebeccapurple')).toBeNull();
+    expect(parseCssColor('#12')).toBeNull();
+    expect(parseCssColor('rgb(1, 2)')).toBeNull();
+    expect(parseCssColor('var(--brand)')).toBeNull();
+  });
+});
+
+describe('getContrastRatio', () => {
+  test('is 21:1 for black on white and 1:1 for a color on itself', () => {
+    expect(getContrastRatio(BLACK, WHITE)).toBeCloseTo(21);
+    expect(getContrastRatio(WHITE, WHITE)).toBeCloseTo(1);
+  });
+
+  test('matches the WCAG reference value for #767676 on white', () => {
+    expect(getContrastRatio(parseCssColor('#767676')!, WHITE)).toBeCloseTo(
+      4.54,
+      2,
+    );
+  });
+
+  test('composites translucent colors', () => {
+    const halfBlack = { ...BLACK, a: 0.5 };
+    const ratio = getContrastRatio(halfBlack, WHITE);
+    expect(ratio).toBeGreaterThan(1);
+    expect(ratio).toBeLessThan(21);
+  });
+});
+
+describe('analyzeTheme', () => {
+  test('passes a high-contrast theme', () => {
+    const analysis = analyzeTheme(LIGHT_THEME);
+
+    expect(analysis.valid).toBe(true);
+    expect(analysis.passesAA).toBe(true);
+    expect(analysis.passesAAA).toBe(true);
+    expect(analysis.issues).toEqual([]);
+    expect(analysis.checks.every((check) => check.level === 'AAA')).toBe(true);
+  });
+
+  test('reports AA failures as errors on the side to adjust', () => {
+    const analysis = analyzeTheme({ ...LIGHT_THEME, muted: '#cccccc' });
+
+    expect(analysis.passesAA).toBe(false);
+    expect(analysis.issues).toContainEqual(
+      expect.objectContaining({
+        code: 'contrast-aa',
+        severity: 'error',
+        property: 'muted',
+      }),
+    );
+  });
+
+  test('reports pairs between AA and AAA as warnings', () => {
+    const analysis = analyzeTheme({ ...LIGHT_THEME, muted: '#767676' });
+
+    expect(analysis.passesAA).toBe(true);
+    expect(analysis.passesAAA).toBe(false);
+    expect(analysis.issues).toContainEqual(
+      expect.objectContaining({ code: 'contrast-aaa', severity: 'warning' }),
+    );
+  });
+
+  test('checks every stop of a gradient background', () => {
+    const analysis = analyzeTheme({
+      ...LIGHT_THEME,
+      background: 'linear-gradient(#ffffff, #000000)',
+      card: 'transparent',
+    });
+
+    expect(analysis.valid).toBe(true);
+    expect(analysis.passesAA).toBe(false);
+  });
+
+  test('reports invalid colors', () => {
+    const analysis = analyzeTheme({ ...LIGHT_THEME, foreground: 'nope' });
+
+    expect(analysis.valid).toBe(false);
+    expect(analysis.issues).toContainEqual(
+      expect.objectContaining({ code: 'invalid-color', property: 'foreground' }),
+    );
+  });
+
+  test('warns about a border invisible on the card', () => {
+    const analysis = analyzeTheme({ ...LIGHT_THEME, border: '#ffffff' });
+
+    expect(analysis.issues).toContainEqual(
+      expect.objectContaining({ code: 'low-visibility-border', property: 'border' }),
+    );
+  });
+});
+
+describe('suggestAccessibleTheme', () => {
+  const failing: ThemeConfig = {
+    ...LIGHT_THEME,
+    muted: '#dddddd',
+    brandPrimary: '#ffeb3b',
+    border: '#ffffff',
+  };
+
+  test('fixes failing pairs to the requested level', () => {
+    expect(analyzeTheme(suggestAccessibleTheme(failing)).passesAA).toBe(true);
+    expect(analyzeTheme(suggestAccessibleTheme(failing, 'AAA')).passesAAA).toBe(
+      true,
+    );
+  });
+
+  test('keeps passing colors', () => {
+    const suggested = suggestAccessibleTheme(failing);
+
+    expect(suggested.foreground).toBe(failing.foreground);
+    expect(suggested.background).toBe(failing.background);
+    expect(suggested.borderRadius).toBe('1rem');
+    expect(suggested.muted).not.toBe(failing.muted);
+  });
+
+  test('replaces invalid colors with the default theme', () => {
+    const suggested = suggestAccessibleTheme({
+      ...LIGHT_THEME,
+      destructive: 'nope',
+    });
+    // The default's hue, darkened for the light card if needed
+    expect(rgbToOklch(parseCssColor(suggested.destructive)!).h).toBeCloseTo(
+      rgbToOklch(parseCssColor(NAMEFI_THEME.destructive)!).h,
+      0,
+    );
+    expect(analyzeTheme(suggested).valid).toBe(true);
+  });
+
+  test('tints an invisible border with the text color', () => {
+    expect(suggestAccessibleTheme(failing).border).toBe('rgba(0,0,0,0.15)');
+  });
+
+  test('leaves an accessible theme unchanged', () => {
+    expect(suggestAccessibleTheme(LIGHT_THEME)).toEqual(LIGHT_THEME);
+  });
+});
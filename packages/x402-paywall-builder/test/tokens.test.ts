@@ -0,0 +1,132 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  formatTokenAmount,
+  fromAtomicAmount,
+  getUsdcToken,
+  resolveRequirementToken,
+  toAtomicAmount,
+} from '../shared/tokens';
+import { getChainConfig } from '../shared/chains';
+
+const base = getChainConfig('eip155:8453')!;
+
+describe('toAtomicAmount', () => {
+  test('converts whole amounts to 6-decimal USDC units', () => {
+    expect(toAtomicAmount(0.5)).toBe('500000');
+    expect(toAtomicAmount(1.05)).toBe('1050000');
+    expect(toAtomicAmount(0.01)).toBe('10000');
+    expect(toAtomicAmount(0)).toBe('0');
+  });
+
+  test('is exact for 18-decimal tokens', () => {
+    expect(toAtomicAmount(0.1, 18)).toBe('100000000000000000');
+    expect(toAtomicAmount(1.23, 18)).toBe('1230000000000000000');
+  });
+
+  test('rounds over-precise amounts half up', () => {
+    expect(toAtomicAmount(0.1234564)).toBe('123456');
+    expect(toAtomicAmount(0.1234565)).toBe('123457');
+    expect(toAtomicAmount(1.005)).toBe('1005000');
+    expect(toAtomicAmount(0.5, 0)).toBe('1');
+    expect(toAtomicAmount(0.4, 0)).toBe('0');
+  });
+
+  test('handles amounts printed in exponent notation', () => {
+    expect(toAtomicAmount(1e-7)).toBe('0');
+    expect(toAtomicAmount(5e-7)).toBe('1');
+    expect(toAtomicAmount(1.5e-7, 18)).toBe('150000000000');
+    expect(toAtomicAmount(1e21)).toBe('1000000000000000000000000000');
+  });
+
+  test('rejects negative and non-finite amounts', () => {
+    expect(() => toAtomicAmount(-1)).toThrow('Invalid token amount: -1');
+    expect(() => toAtomicAmount(Number.NaN)).toThrow('Invalid token amount');
+    expect(() => toAtomicAmount(Number.POSITIVE_INFINITY)).toThrow(
+      'Invalid token amount',
+    );
+  });
+});
+
+describe('fromAtomicAmount', () => {
+  test('converts atomic units using the token decimals', () => {
+    expect(fromAtomicAmount('500000')).toBe(0.5);
+    expect(fromAtomicAmount('100000000000000000', 18)).toBe(0.1);
+    expect(fromAtomicAmount('')).toBe(0);
+  });
+});
+
+describe('formatTokenAmount', () => {
+  test('shows cents, or the significant digits of sub-cent amounts', () => {
+    expect(formatTokenAmount(1.5)).toBe('1.50');
+    expect(formatTokenAmount(0.0025)).toBe('0.0025');
+    expect(formatTokenAmount(0.000000123, 18)).toBe('0.00000012');
+  });
+
+  test('formats for the locale', () => {
+    expect(formatTokenAmount(1.5, 6, 'pt-BR')).toBe('1,50');
+  });
+});
+
+describe('getUsdcToken', () => {
+  test('describes the chain USDC with its EIP-712 domain', () => {
+    expect(getUsdcToken(base)).toEqual({
+      address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+      symbol: 'USDC',
+      decimals: 6,
+      eip712Name: 'USDC',
+      eip712Version: '2',
+    });
+  });
+});
+
+describe('resolveRequirementToken', () => {
+  const requirement = {
+    scheme: 'exact',
+    network: 'eip155:8453',
+    payTo: '0x0000000000000000000000000000000000000001',
+  };
+
+  test('defaults to the chain USDC', () => {
+    expect(resolveRequirementToken(requirement, base)).toMatchObject({
+      address: base.usdcAddress,
+      symbol: 'USDC',
+      decimals: 6,
+    });
+  });
+
+  test('recognizes USDC regardless of address case', () => {
+    expect(
+      resolveRequirementToken(
+        { ...requirement, asset: base.usdcAddress.toLowerCase() },
+        base,
+      ).symbol,
+    ).toBe('USDC');
+  });
+
+  test('takes symbol, decimals and EIP-712 domain from extra', () => {
+    const asset = '0x0000000000000000000000000000000000000abc';
+
+    expect(
+      resolveRequirementToken(
+        {
+          ...requirement,
+          asset,
+          extra: { symbol: 'DAI', decimals: 18, name: 'Dai Stablecoin', version: '1' },
+        },
+        base,
+      ),
+    ).toEqual({
+      address: asset,
+      symbol: 'DAI',
+      decimals: 18,
+      eip712Name: 'Dai Stablecoin',
+      eip712Version: '1',
+    });
+    expect(
+      resolveRequirementToken(
+        { ...requirement, asset, extra: { name: 'EURC' } },
+        base,
+      ).symbol,
+    ).toBe('EURC');
+  });
+});